@@ -1,131 +1,861 @@
-import { useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { Button } from "./components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./components/ui/card"
-import { Textarea } from "./components/ui/textarea"
 import { Label } from "./components/ui/label"
-import { Copy, Trash2, Calculator, TrendingUp } from "lucide-react"
+import { Copy, Trash2, Calculator, TrendingUp, X } from "lucide-react"
 import { toast } from 'sonner'
-import ComplexPlot from "./components/complex-plot"
+import ComplexPlot, { type PlotState, defaultPlotState, readPlotState } from "./components/complex-plot"
+import ConstellationPanel, { type ConstellationSettings, defaultConstellationSettings } from "./components/constellation-panel"
+import DataTable from "./components/data-table"
+import DatasetImport from "./components/dataset-import"
+import ExportPanel from "./components/export-panel"
+import FormatPanel from "./components/format-panel"
+import HistoryPanel from "./components/history-panel"
+import HighlightedTextarea, { type TextHighlight } from "./components/highlighted-textarea"
+import HypothesisTests from "./components/hypothesis-tests"
+import MatrixPanel from "./components/matrix-panel"
+import ParseSummary from "./components/parse-summary"
+import RobustPanel, { type RobustSettings, defaultRobustSettings } from "./components/robust-panel"
+import RootsPanel from "./components/roots-panel"
+import SeriesTabs from "./components/series-tabs"
+import SessionPanel from "./components/session-panel"
+import TransformPanel from "./components/transform-panel"
+import type { PlotSeries } from "./components/plot-renderers"
+import type { AngleUnit, ComplexNumber } from "./lib/complex"
+import { compileComplexFunction, mapComplexNumbers } from "./lib/complex-expression"
+import {
+  type ParseDiagnostic,
+  type ParsedEntry,
+  type ParseResult,
+  lineOffsets,
+  parseComplexInput,
+} from "./lib/complex-parser"
+import {
+  CONSTELLATIONS,
+  analyzeConstellation,
+  customConstellation,
+  receivedFramePoints,
+  standardConstellation,
+} from "./lib/constellation"
+import { type ImportedData, serializeComplexNumbers } from "./lib/dataset-import"
+import { dateStamp, downloadBlob } from "./lib/export"
+import { type InputMode, INPUT_MODES, InputAnalysisError, MatrixShapeError, analyzeEntries } from "./lib/core"
+import { type RobustStatistics, findOutliers, mahalanobisDistances } from "./lib/robust"
+import { ANALYSIS_EXTRAS, type Series, createSeries } from "./lib/series"
+import {
+  type FieldChecks,
+  type HistoryEntry,
+  MAX_HISTORY,
+  type SessionState,
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  integerIn,
+  listHistory,
+  loadCurrentState,
+  mergeDefaults,
+  oneOf,
+  saveCurrentState,
+  sessionToJson,
+} from "./lib/session"
+import {
+  MAX_SHARE_URL_LENGTH,
+  type SharedAnalysis,
+  ShareLinkError,
+  decodeShareHash,
+  encodeShareHash,
+  isShareHash,
+} from "./lib/share"
+import { type Statistics, type StatisticsComparison, calculateStatistics, compareStatistics } from "./lib/statistics"
+import { type NumberFormat, MAX_PRECISION, defaultNumberFormat, formatComplexNumber, formatReal } from "./lib/format"
+import { describeStatistics } from "./lib/report"
+import {
+  type AnalysisProgress,
+  type AnalysisTask,
+  AnalysisCancelledError,
+  startAnalysis,
+  startRobustStatistics,
+  startStatistics,
+} from "./lib/analysis-client"
 
-interface ComplexNumber {
-  real: number
-  imag: number
+// Above this many characters the input is only parsed on demand, in the analysis worker
+const LIVE_PARSE_LIMIT = 20_000
+// Typing is parsed for diagnostics once it pauses this long
+const LIVE_PARSE_DELAY = 250
+// Marking more selected entries than this in the textarea costs more than it shows
+const MAX_SELECTION_HIGHLIGHTS = 2000
+const NO_NUMBERS: ComplexNumber[] = []
+const NO_INDICES: ReadonlySet<number> = new Set()
+// Lines between z and f(z) beyond this many only darken the plot
+const MAX_TRANSFORM_LINKS = 5000
+// The working state is saved this long after the last change
+const AUTOSAVE_DELAY = 1000
+
+/** Everything a session restores besides the series */
+interface SessionSettings {
+  angleUnit: AngleUnit
+  strictMode: boolean
+  inputMode: InputMode
+  robustSettings: RobustSettings
+  constellationSettings: ConstellationSettings
+  functionSource: string
+  showLinks: boolean
+  numberFormat: NumberFormat
+}
+
+const DEFAULT_SETTINGS: SessionSettings = {
+  angleUnit: "deg",
+  strictMode: false,
+  inputMode: "samples",
+  robustSettings: defaultRobustSettings,
+  constellationSettings: defaultConstellationSettings,
+  functionSource: "(z-1)/(z+1)",
+  showLinks: true,
+  numberFormat: defaultNumberFormat,
 }
 
-interface Statistics {
-  mean: ComplexNumber
-  variance: number
+// What a restored session or link may set, as the panels' own inputs allow
+const SETTINGS_CHECKS: FieldChecks<SessionSettings> = {
+  angleUnit: oneOf(["deg", "rad"]),
+  inputMode: oneOf(INPUT_MODES),
+  robustSettings: {
+    thresholdKind: oneOf(["confidence", "distance"]),
+    confidence: (value) => typeof value === "number" && value > 0 && value < 1,
+    distance: (value) => typeof value === "number" && value > 0 && Number.isFinite(value),
+    trimFraction: (value) => typeof value === "number" && value >= 0 && value < 0.5,
+  },
+  constellationSettings: {
+    kind: oneOf(CONSTELLATIONS.map(({ key }) => key)),
+    transmittedId: (value) => value === null || integerIn(1, Number.MAX_SAFE_INTEGER)(value),
+  },
+  numberFormat: {
+    precision: integerIn(0, MAX_PRECISION),
+    notation: oneOf(["fixed", "scientific", "engineering"]),
+    form: oneOf(["cartesian", "polar", "exponential"]),
+    angleUnit: oneOf(["deg", "rad"]),
+    imaginaryUnit: oneOf(["i", "j"]),
+  },
 }
 
+type ComparisonRow = StatisticsComparison & { series: Series; statistics: Statistics }
+
+const formatRatio = (ratio: number, format: NumberFormat) => (Number.isFinite(ratio) ? formatReal(ratio, format) : "—")
+
+const COMPARISON_ROWS: Array<[string, (row: ComparisonRow, format: NumberFormat) => string]> = [
+  ["数量", (row) => String(row.statistics.count)],
+  ["均值", (row, format) => formatComplexNumber(row.statistics.mean, format)],
+  ["方差", (row, format) => formatReal(row.statistics.variance, format)],
+  ["实部标准差", (row, format) => formatReal(row.statistics.stdReal, format)],
+  ["虚部标准差", (row, format) => formatReal(row.statistics.stdImag, format)],
+  ["圆度系数", (row, format) => formatReal(row.statistics.circularity, format)],
+  ["均值差", (row, format) => formatComplexNumber(row.meanDifference, format)],
+  ["方差比", (row, format) => formatRatio(row.varianceRatio, format)],
+]
+
 function App() {
-  const [input, setInput] = useState("")
-  const [complexNumbers, setComplexNumbers] = useState<ComplexNumber[]>([])
-  const [statistics, setStatistics] = useState<Statistics | null>(null)
+  const [series, setSeries] = useState<Series[]>(() => [createSeries([])])
+  const [activeId, setActiveId] = useState(1)
+  const [selection, setSelection] = useState<ReadonlySet<number>>(new Set())
+  const [angleUnit, setAngleUnit] = useState(DEFAULT_SETTINGS.angleUnit)
+  const [strictMode, setStrictMode] = useState(DEFAULT_SETTINGS.strictMode)
+  const [inputMode, setInputMode] = useState(DEFAULT_SETTINGS.inputMode)
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null)
+  const [robustSettings, setRobustSettings] = useState(DEFAULT_SETTINGS.robustSettings)
+  const [constellationSettings, setConstellationSettings] = useState(DEFAULT_SETTINGS.constellationSettings)
+  const [functionSource, setFunctionSource] = useState(DEFAULT_SETTINGS.functionSource)
+  const [showLinks, setShowLinks] = useState(DEFAULT_SETTINGS.showLinks)
+  const [numberFormat, setNumberFormat] = useState(DEFAULT_SETTINGS.numberFormat)
+  const [lastParse, setLastParse] = useState<{ input: string; result: ParseResult } | null>(null)
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  // Nothing is saved until the stored state has been read, or it would be overwritten
+  const [storageReady, setStorageReady] = useState(false)
+  // Plot state from a shared link, for the plot to start from once the data is in
+  const [sharedPlot, setSharedPlot] = useState<PlotState | null>(null)
+  // A shared link whose input is analysed next, and whose excluded points are applied after that
+  const [pendingShare, setPendingShare] = useState<{ input: string; excluded: number[]; started: boolean } | null>(null)
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+  const taskRef = useRef<AnalysisTask | null>(null)
+  // The statistics of the included points after an exclusion changes
+  const includedTaskRef = useRef<AnalysisTask<Statistics> | null>(null)
+  const [recomputing, setRecomputing] = useState(false)
+  // Kept up to date by the plot, and only read when a link is made
+  const plotStateRef = useRef<PlotState>(defaultPlotState)
 
-  const parseComplexNumber = (str: string): ComplexNumber | null => {
-    // Remove spaces
-    str = str.replace(/\s/g, "")
+  // The editor, selection and detailed statistics all belong to the active series
+  const active = series.find((item) => item.id === activeId) ?? series[0]
+  const { input, complexNumbers, statistics, sources, analyzedInput } = active
+  const excluded = active.excluded ?? NO_INDICES
+
+  const updateSeries = (id: number, patch: Partial<Series>) => {
+    setSeries((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }
+
+  const setInput = (text: string) => updateSeries(active.id, { input: text })
+
+  const plotSeries = useMemo(
+    (): PlotSeries[] =>
+      series
+        .filter((item) => item.id !== active.id && item.visible && item.complexNumbers.length > 0)
+        .map(({ name, color, complexNumbers, statistics }) => ({ name, color, complexNumbers, mean: statistics?.mean })),
+    [series, active.id],
+  )
 
-    // Handle pure real numbers
-    if (/^-?\d*\.?\d+$/.test(str)) {
-      return { real: Number.parseFloat(str), imag: 0 }
+  // Every analysed series against the active one
+  const comparison = useMemo((): ComparisonRow[] | null => {
+    const reference = active.statistics
+    if (!reference) return null
+    const rows = series.flatMap((item) =>
+      item.statistics ? [{ series: item, statistics: item.statistics, ...compareStatistics(reference, item.statistics) }] : [],
+    )
+    return rows.length > 1 ? rows : null
+  }, [series, active.statistics])
+
+  // Candidates for the two-sample test against the active series
+  const otherStatistics = useMemo(
+    () =>
+      series.flatMap((item) =>
+        item.id !== active.id && item.statistics ? [{ id: item.id, name: item.name, statistics: item.statistics }] : [],
+      ),
+    [series, active.id],
+  )
+
+  // Shared with the domain-colouring view, which shows f itself
+  const domainFunction = useMemo(() => {
+    try {
+      return compileComplexFunction(functionSource)
+    } catch {
+      return null
     }
+  }, [functionSource])
 
-    // Handle pure imaginary numbers
-    if (/^-?\d*\.?\d*i$/.test(str)) {
-      const imagStr = str.replace("i", "") || "1"
-      return { real: 0, imag: Number.parseFloat(imagStr === "-" ? "-1" : imagStr) }
+  // z → f(z) for every visible transformed series whose source is visible and unchanged
+  const transformLinks = useMemo(() => {
+    if (!showLinks) return undefined
+    const links: Array<[ComplexNumber, ComplexNumber]> = []
+    for (const item of series) {
+      const source = series.find((other) => other.id === item.transform?.sourceId)
+      if (!item.transform || !item.visible || !source?.visible || source.analyzedInput !== item.transform.sourceInput) continue
+      const { sourceIndices } = item.transform
+      for (let k = 0; k < sourceIndices.length && links.length < MAX_TRANSFORM_LINKS; k++) {
+        links.push([source.complexNumbers[sourceIndices[k]], item.complexNumbers[k]])
+      }
     }
+    return links.length > 0 ? links : undefined
+  }, [series, showLinks])
 
-    // Handle complex numbers like "a+bi" or "a-bi"
-    const complexRegex = /^(-?\d*\.?\d+)([-+])(\d*\.?\d*)i$/
-    const match = str.match(complexRegex)
+  const includedNumbers = useMemo(
+    () => (excluded.size > 0 ? complexNumbers.filter((_, index) => !excluded.has(index)) : complexNumbers),
+    [complexNumbers, excluded],
+  )
 
-    if (match) {
-      const real = Number.parseFloat(match[1])
-      const sign = match[2] === "+" ? 1 : -1
-      const imagStr = match[3] || "1"
-      const imag = sign * Number.parseFloat(imagStr)
-      return { real, imag }
+  // Computed in the worker; a newer set of points or settings cancels the run
+  const [robust, setRobust] = useState<RobustStatistics | null>(null)
+  useEffect(() => {
+    if (!robustSettings.enabled || includedNumbers.length === 0) {
+      setRobust(null)
+      return
     }
+    const task = startRobustStatistics(includedNumbers, robustSettings.trimFraction)
+    task.promise.then(setRobust, (error) => {
+      if (!(error instanceof AnalysisCancelledError)) {
+        toast.error(`稳健统计计算失败：${error instanceof Error ? error.message : String(error)}`)
+      }
+    })
+    return task.cancel
+  }, [robustSettings.enabled, robustSettings.trimFraction, includedNumbers])
 
-    return null
-  }
+  // Distances of every point, excluded ones too, from the mean and covariance of the included ones
+  const outliers = useMemo(() => {
+    const { enabled, thresholdKind, confidence, distance } = robustSettings
+    if (!enabled || !statistics) return null
+    const distances = mahalanobisDistances(complexNumbers, statistics.mean, statistics.covariance)
+    if (!distances) return null
+    return findOutliers(
+      distances,
+      thresholdKind === "confidence" ? { kind: "confidence", confidence } : { kind: "distance", distance },
+    )
+  }, [robustSettings, complexNumbers, statistics])
+
+  const flagged = useMemo(() => (outliers ? new Set(outliers.map((outlier) => outlier.index)) : undefined), [outliers])
+
+  const transmitted = series.find((item) => item.id === constellationSettings.transmittedId)?.complexNumbers
 
-  const parseInput = () => {
-    const lines = input.split("\n").filter((line) => line.trim())
-    const numbers: ComplexNumber[] = []
+  const constellation = useMemo(() => {
+    const { enabled, kind, customPoints, correct } = constellationSettings
+    if (!enabled || complexNumbers.length === 0) return null
+    const reference =
+      kind === "custom"
+        ? customConstellation(parseComplexInput(customPoints, { angleUnit }).numbers)
+        : standardConstellation(kind)
+    if (reference.points.length === 0) return null
+    const analysis = analyzeConstellation(complexNumbers, reference, { correct, transmitted })
+    return { symbols: reference.points, analysis, received: receivedFramePoints(reference, analysis.gain) }
+  }, [constellationSettings, complexNumbers, transmitted, angleUnit])
 
-    for (const line of lines) {
-      // Split by comma or space
-      const parts = line.split(/[,\s]+/).filter((part) => part.trim())
+  const [liveParse, setLiveParse] = useState<{ input: string; angleUnit: AngleUnit; result: ParseResult } | null>(null)
+  useEffect(() => {
+    if (input.length > LIVE_PARSE_LIMIT) return
+    const timer = setTimeout(
+      () => setLiveParse({ input, angleUnit, result: parseComplexInput(input, { angleUnit }) }),
+      LIVE_PARSE_DELAY,
+    )
+    return () => clearTimeout(timer)
+  }, [input, angleUnit])
+  // Diagnostics only show for the text they were found in: the live parse once typing pauses,
+  // or for large inputs the last worker run
+  const parseResult =
+    liveParse?.input === input && liveParse.angleUnit === angleUnit
+      ? liveParse.result
+      : lastParse?.input === input
+        ? lastParse.result
+        : null
 
-      for (const part of parts) {
-        const complex = parseComplexNumber(part.trim())
-        if (complex) {
-          numbers.push(complex)
-        }
+  const inputHighlights = useMemo(() => {
+    const offsets = lineOffsets(input)
+    const highlights: TextHighlight[] = (parseResult?.rejected ?? []).map((diagnostic) => {
+      const start = offsets[diagnostic.line - 1] + diagnostic.column - 1
+      return { start, end: start + diagnostic.text.length, title: diagnostic.reason }
+    })
+
+    // Selected plot points only map back while the text is what was analysed
+    if (input === analyzedInput) {
+      for (const index of [...selection].slice(0, MAX_SELECTION_HIGHLIGHTS)) {
+        const source = sources[index]
+        if (!source) continue
+        const start = offsets[source.line - 1] + source.column - 1
+        highlights.push({ start, end: start + source.text.length, title: `#${index + 1}`, className: "bg-amber-200/80" })
       }
     }
+    return highlights
+  }, [input, parseResult, analyzedInput, sources, selection])
+
+  // Computed in the worker like the robust estimators; the previous value stays until the new one is in
+  const [selectionStatistics, setSelectionStatistics] = useState<Statistics | null>(null)
+  useEffect(() => {
+    if (selection.size === 0) {
+      setSelectionStatistics(null)
+      return
+    }
+    const task = startStatistics([...selection].map((index) => complexNumbers[index]))
+    task.promise.then(setSelectionStatistics, () => {})
+    return task.cancel
+  }, [selection, complexNumbers])
+
+  const rootKinds = useMemo(
+    () =>
+      active.roots?.poles
+        ? [...active.roots.zeros.map(() => "zero" as const), ...active.roots.poles.map(() => "pole" as const)]
+        : undefined,
+    [active.roots],
+  )
 
-    return numbers
+  // A run is kept in the history once it has produced statistics
+  const recordRun = (entry: Omit<HistoryEntry, "id">) => {
+    addHistoryEntry(entry)
+      .then((saved) => setHistory((current) => [saved, ...current].slice(0, MAX_HISTORY)))
+      // Without storage there is just no history
+      .catch(() => {})
   }
 
-  const calculateStatistics = (numbers: ComplexNumber[]): Statistics => {
-    if (numbers.length === 0) {
-      return { mean: { real: 0, imag: 0 }, variance: 0 }
+  // Polynomials are short, so their roots are found on the main thread
+  const findRoots = (text: string, imported?: { fileName: string; skipped: number }, unit: AngleUnit = angleUnit) => {
+    const { id: seriesId, name: seriesName } = active
+    taskRef.current?.cancel()
+    const result = parseComplexInput(text, { angleUnit: unit })
+    setLastParse({ input: text, result })
+    const skipped = (imported?.skipped ?? 0) + result.rejected.length
+    if (strictMode && skipped > 0) {
+      toast.error(`严格模式：有 ${skipped} 个输入无法解析，已取消计算`)
+      return
+    }
+
+    let analysis
+    try {
+      analysis = analyzeEntries(text, result.entries, "polynomial")
+    } catch (error) {
+      if (!(error instanceof InputAnalysisError)) throw error
+      toast.error(error.message)
+      return
     }
+    const { numbers: values, statistics, roots } = analysis
+    const { zeros, poles } = roots!
 
-    // Calculate mean
-    const meanReal = numbers.reduce((sum, num) => sum + num.real, 0) / numbers.length
-    const meanImag = numbers.reduce((sum, num) => sum + num.imag, 0) / numbers.length
-    const mean = { real: meanReal, imag: meanImag }
+    updateSeries(seriesId, {
+      complexNumbers: values,
+      sources: [],
+      analyzedInput: text,
+      statistics,
+      ...ANALYSIS_EXTRAS,
+      roots,
+    })
+    setSelection(new Set())
+    if (statistics) recordRun({ time: Date.now(), seriesName, mode: "polynomial", angleUnit: unit, input: text, statistics })
+    toast.success(poles ? `求得 ${zeros.length} 个零点、${poles.length} 个极点` : `求得 ${zeros.length} 个根`)
+  }
 
-    // Calculate variance (using the magnitude of differences)
-    const variance =
-      numbers.reduce((sum, num) => {
-        const diffReal = num.real - mean.real
-        const diffImag = num.imag - mean.imag
-        return sum + (diffReal * diffReal + diffImag * diffImag)
-      }, 0) / numbers.length
+  // Each line is a row; the eigenvalues are what gets plotted
+  const analyzeMatrixInput = (text: string, imported?: { fileName: string; skipped: number }, unit: AngleUnit = angleUnit) => {
+    const { id: seriesId, name: seriesName } = active
+    taskRef.current?.cancel()
+    const result = parseComplexInput(text, { angleUnit: unit })
+    setLastParse({ input: text, result })
+    const skipped = (imported?.skipped ?? 0) + result.rejected.length
+    if (strictMode && skipped > 0) {
+      toast.error(`严格模式：有 ${skipped} 个输入无法解析，已取消计算`)
+      return
+    }
+
+    let analysis
+    try {
+      analysis = analyzeEntries(text, result.entries, "matrix")
+    } catch (error) {
+      if (error instanceof InputAnalysisError) {
+        toast.error(error.message)
+        return
+      }
+      if (error instanceof MatrixShapeError && inputRef.current && text === input) {
+        const start = lineOffsets(text)[error.line - 1]
+        inputRef.current.focus()
+        inputRef.current.setSelectionRange(start, start + text.slice(start).split("\n")[0].length)
+      }
+      toast.error(`矩阵计算失败：${error instanceof Error ? error.message : String(error)}`)
+      return
+    }
+    const { numbers: values, statistics } = analysis
 
-    return { mean, variance }
+    updateSeries(seriesId, {
+      complexNumbers: values,
+      sources: [],
+      analyzedInput: text,
+      statistics,
+      ...ANALYSIS_EXTRAS,
+      matrix: analysis.matrix,
+    })
+    setSelection(new Set())
+    if (statistics) recordRun({ time: Date.now(), seriesName, mode: "matrix", angleUnit: unit, input: text, statistics })
+    const { matrix } = analysis.matrix!
+    toast.success(`已分析 ${matrix.length}×${matrix[0].length} 矩阵${values.length > 0 ? `，求得 ${values.length} 个特征值` : ""}`)
   }
 
-  const handleCalculate = () => {
-    const numbers = parseInput()
-    if (numbers.length === 0) {
-      toast.error("请输入有效的复数数据")
+  // mode and unit default to the current settings; a run restored from the history brings its own.
+  // kept carries exclusions and selection over when the new samples line up one-to-one with the old
+  const runAnalysis = async (
+    text: string,
+    imported?: { fileName: string; skipped: number },
+    { mode, unit }: { mode: InputMode; unit: AngleUnit } = { mode: inputMode, unit: angleUnit },
+    kept?: { count: number; excluded: ReadonlySet<number>; selection: ReadonlySet<number> },
+  ) => {
+    if (mode === "polynomial") {
+      findRoots(text, imported, unit)
       return
     }
-    setComplexNumbers(numbers)
-    const stats = calculateStatistics(numbers)
-    setStatistics(stats)
-    toast.success(`成功解析 ${numbers.length} 个复数`)
+    if (mode === "matrix") {
+      analyzeMatrixInput(text, imported, unit)
+      return
+    }
+    const { id: seriesId, name: seriesName } = active
+    taskRef.current?.cancel()
+    const task = startAnalysis(text, { angleUnit: unit }, setProgress)
+    taskRef.current = task
+    setProgress({ phase: "parse", done: 0, total: 0 })
+
+    try {
+      const { entries, rejected, statistics } = await task.promise
+      setLastParse({ input: text, result: { numbers: entries.map((entry) => entry.value), entries, rejected } })
+      const skipped = (imported?.skipped ?? 0) + rejected.length
+
+      if (strictMode && skipped > 0) {
+        toast.error(`严格模式：有 ${skipped} 个输入无法解析，已取消计算`)
+        return
+      }
+      if (entries.length === 0 || !statistics) {
+        toast.error(imported ? `${imported.fileName} 中没有有效的复数数据` : "请输入有效的复数数据")
+        return
+      }
+
+      const values = entries.map((entry) => entry.value)
+      const keep = kept !== undefined && kept.count === entries.length
+      const keptExcluded = keep && kept.excluded.size > 0 ? kept.excluded : undefined
+      updateSeries(seriesId, {
+        complexNumbers: values,
+        sources: entries,
+        analyzedInput: text,
+        ...ANALYSIS_EXTRAS,
+        excluded: keptExcluded,
+        statistics,
+      })
+      setSelection(keep ? kept.selection : new Set())
+      // The history records what the series ends up showing; a newer exclusion leaves the run unrecorded
+      const included = keptExcluded ? await recomputeIncluded(seriesId, values, keptExcluded) : statistics
+      if (included) recordRun({ time: Date.now(), seriesName, mode, angleUnit: unit, input: text, statistics: included })
+
+      if (imported) {
+        toast.success(`已从 ${imported.fileName} 导入 ${entries.length} 个复数${skipped > 0 ? `，跳过 ${skipped} 项` : ""}`)
+      } else if (rejected.length > 0) {
+        toast.warning(`成功解析 ${entries.length} 个复数，${rejected.length} 个输入被忽略`)
+      } else {
+        toast.success(`成功解析 ${entries.length} 个复数`)
+      }
+    } catch (error) {
+      // A run replaced by a newer one is cancelled silently
+      if (taskRef.current !== task) return
+      if (error instanceof AnalysisCancelledError) {
+        toast.info("计算已取消")
+      } else {
+        toast.error(`计算失败：${error instanceof Error ? error.message : String(error)}`)
+      }
+    } finally {
+      if (taskRef.current === task) {
+        taskRef.current = null
+        setProgress(null)
+      }
+    }
+  }
+
+  const handleCalculate = () => {
+    runAnalysis(input)
+  }
+
+  const progressPercent = ({ done, total }: AnalysisProgress) => (total > 0 ? Math.round((done / total) * 100) : 0)
+
+  const cancelAnalysis = () => {
+    taskRef.current?.cancel()
   }
 
-  const formatComplexNumber = (num: ComplexNumber): string => {
-    if (num.imag === 0) return num.real.toFixed(4)
-    if (num.real === 0) return `${num.imag.toFixed(4)}i`
+  const handleImport = (data: ImportedData, fileName: string) => {
+    const text = data.kind === "numbers" ? serializeComplexNumbers(data.numbers) : data.values.join("\n")
+    setInput(text)
+    runAnalysis(text, { fileName, skipped: data.kind === "numbers" ? data.skipped : 0 })
+  }
+
+  // A table edit replaces the entry in the text, which is then analysed again
+  const editEntry = (index: number, text: string) => {
+    const source = sources[index]
+    if (!source || input !== analyzedInput) return
+    const start = lineOffsets(input)[source.line - 1] + source.column - 1
+    const next = input.slice(0, start) + text + input.slice(start + source.text.length)
+    setInput(next)
+    runAnalysis(next, undefined, undefined, { count: complexNumbers.length, excluded, selection })
+  }
 
-    const imagPart = num.imag >= 0 ? `+${num.imag.toFixed(4)}i` : `${num.imag.toFixed(4)}i`
-    return `${num.real.toFixed(4)}${imagPart}`
+  const selectDiagnostic = (diagnostic: ParseDiagnostic) => {
+    const textarea = inputRef.current
+    if (!textarea) return
+    const start = lineOffsets(input)[diagnostic.line - 1] + diagnostic.column - 1
+    textarea.focus()
+    textarea.setSelectionRange(start, start + diagnostic.text.length)
   }
 
+
   const copyResults = () => {
     if (!statistics) return
-    const results = `均值: ${formatComplexNumber(statistics.mean)}\n方差: ${statistics.variance.toFixed(4)}`
+    const comparisonLines = (comparison ?? [])
+      .filter((row) => row.series.id !== active.id)
+      .map(
+        (row) =>
+          `${row.series.name} 对 ${active.name}: 均值差 ${formatComplexNumber(row.meanDifference, numberFormat)}, 方差比 ${formatRatio(row.varianceRatio, numberFormat)}`,
+      )
+    const results = describeStatistics(statistics, numberFormat)
+      .flatMap((group) => group.rows.map(([label, value]) => `${label}: ${value}`))
+      .concat(`数据点数量: ${statistics.count}`, comparisonLines)
+      .join("\n")
     navigator.clipboard.writeText(results)
     toast.success("结果已复制到剪贴板")
   }
 
   const clearInput = () => {
-    setInput("")
-    setComplexNumbers([])
-    setStatistics(null)
+    taskRef.current?.cancel()
+    updateSeries(active.id, {
+      input: "",
+      complexNumbers: [],
+      sources: [],
+      statistics: null,
+      analyzedInput: "",
+      ...ANALYSIS_EXTRAS,
+    })
+    setSelection(new Set())
+    setSharedPlot(null)
     toast.info("输入和结果已清空")
   }
 
+  /**
+   * Statistics of the points left once excluded are taken out, from the
+   * worker. A newer call cancels the run, and the result is only stored while
+   * the series still holds the same points and exclusions. Resolves to null
+   * when the run was cancelled or failed.
+   */
+  const recomputeIncluded = async (
+    seriesId: number,
+    numbers: ComplexNumber[],
+    excludedIndices: ReadonlySet<number> | undefined,
+  ): Promise<Statistics | null> => {
+    includedTaskRef.current?.cancel()
+    const task = startStatistics(excludedIndices ? numbers.filter((_, index) => !excludedIndices.has(index)) : numbers)
+    includedTaskRef.current = task
+    setRecomputing(true)
+
+    try {
+      const included = await task.promise
+      setSeries((current) =>
+        current.map((item) =>
+          item.id === seriesId && item.complexNumbers === numbers && item.excluded === excludedIndices
+            ? { ...item, statistics: included }
+            : item,
+        ),
+      )
+      return included
+    } catch (error) {
+      if (includedTaskRef.current === task && !(error instanceof AnalysisCancelledError)) {
+        toast.error(`计算失败：${error instanceof Error ? error.message : String(error)}`)
+      }
+      return null
+    } finally {
+      if (includedTaskRef.current === task) {
+        includedTaskRef.current = null
+        setRecomputing(false)
+      }
+    }
+  }
+
+  const setExcluded = (next: ReadonlySet<number>) => {
+    if (next.size >= complexNumbers.length) {
+      toast.error("至少保留一个点")
+      return
+    }
+    const stored = next.size > 0 ? next : undefined
+    updateSeries(active.id, { excluded: stored })
+    recomputeIncluded(active.id, complexNumbers, stored)
+  }
+
+  const selectSeries = (id: number) => {
+    if (id === active.id) return
+    setActiveId(id)
+    setSelection(new Set())
+  }
+
+  const addSeries = () => {
+    const created = createSeries(series)
+    setSeries([...series, created])
+    selectSeries(created.id)
+  }
+
+  const removeSeries = (id: number) => {
+    const index = series.findIndex((item) => item.id === id)
+    const remaining = series.filter((item) => item.id !== id)
+    setSeries(remaining)
+    if (id === active.id) selectSeries(remaining[Math.min(index, remaining.length - 1)].id)
+  }
+
+  // The image of the active series under f(z) becomes a new series of its own
+  const applyTransform = () => {
+    let f
+    try {
+      f = compileComplexFunction(functionSource)
+    } catch (error) {
+      toast.error(`表达式有误：${error instanceof Error ? error.message : String(error)}`)
+      return
+    }
+    const { values, sourceIndices } = mapComplexNumbers(complexNumbers, f)
+    const dropped = complexNumbers.length - values.length
+    if (values.length === 0) {
+      toast.error("变换后没有有限的结果")
+      return
+    }
+
+    const text = serializeComplexNumbers(values)
+    const lines = text.split("\n")
+    const mapped: ParsedEntry[] = values.map((value, index) => ({ text: lines[index], line: index + 1, column: 1, value }))
+    const created: Series = {
+      ...createSeries(series),
+      name: `f(${active.name})`,
+      input: text,
+      complexNumbers: values,
+      statistics: calculateStatistics(values),
+      sources: mapped,
+      analyzedInput: text,
+      transform: { sourceId: active.id, expression: functionSource.trim(), sourceInput: analyzedInput, sourceIndices },
+    }
+    setSeries([...series, created])
+    selectSeries(created.id)
+    toast.success(`已将 ${values.length} 个点映射到 ${created.name}${dropped > 0 ? `，${dropped} 个结果不是有限值已略去` : ""}`)
+  }
+
+  const sessionState = useMemo(
+    (): SessionState<SessionSettings> => ({
+      series: series.map(({ id, name, color, visible, input }) => ({ id, name, color, visible, input })),
+      activeId: active.id,
+      settings: {
+        angleUnit,
+        strictMode,
+        inputMode,
+        robustSettings,
+        constellationSettings,
+        functionSource,
+        showLinks,
+        numberFormat,
+      },
+    }),
+    [series, active.id, angleUnit, strictMode, inputMode, robustSettings, constellationSettings, functionSource, showLinks, numberFormat],
+  )
+
+  // Inputs and settings come back; the series are analysed again on demand
+  const restoreSession = ({ series: saved, activeId: savedActiveId, settings }: SessionState<unknown>) => {
+    taskRef.current?.cancel()
+    const restored: Series[] = []
+    for (const item of saved) {
+      const created = createSeries(restored)
+      restored.push({ ...created, ...item, color: item.color || created.color })
+    }
+    if (restored.length === 0) restored.push(createSeries([]))
+    setSeries(restored)
+    setActiveId(restored.some((item) => item.id === savedActiveId) ? savedActiveId : restored[0].id)
+    setSelection(new Set())
+    setLastParse(null)
+
+    const merged = mergeDefaults(DEFAULT_SETTINGS, settings, SETTINGS_CHECKS)
+    setAngleUnit(merged.angleUnit)
+    setStrictMode(merged.strictMode)
+    setInputMode(merged.inputMode)
+    setRobustSettings(merged.robustSettings)
+    setConstellationSettings(merged.constellationSettings)
+    setFunctionSource(merged.functionSource)
+    setShowLinks(merged.showLinks)
+    setNumberFormat(merged.numberFormat)
+  }
+
+  const openSharedLink = async (hash: string) => {
+    let shared
+    try {
+      shared = await decodeShareHash(hash)
+    } catch (error) {
+      toast.error(`无法打开分享链接：${error instanceof ShareLinkError ? error.message : String(error)}`)
+      return
+    } finally {
+      // The hash has done its work; a reload should not undo later edits
+      window.history.replaceState(null, "", window.location.pathname + window.location.search)
+    }
+    restoreSession(shared.session)
+    setSharedPlot(readPlotState(shared.plot))
+    setPendingShare({ input: shared.session.series[0].input, excluded: shared.excluded, started: false })
+  }
+
+  useEffect(() => {
+    let cancelled = false
+    // A shared link takes the place of the working state saved last time
+    const shared = isShareHash(window.location.hash)
+    if (shared) openSharedLink(window.location.hash)
+    Promise.all([shared ? undefined : loadCurrentState(), listHistory()])
+      .then(([state, entries]) => {
+        if (cancelled) return
+        if (state) restoreSession(state)
+        setHistory(entries)
+      })
+      // Without storage nothing is kept between visits, and nothing else changes
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setStorageReady(true)
+      })
+
+    // A link pasted into the address bar of an open page only changes the hash
+    const handleHashChange = () => {
+      if (isShareHash(window.location.hash)) openSharedLink(window.location.hash)
+    }
+    window.addEventListener("hashchange", handleHashChange)
+    return () => {
+      cancelled = true
+      window.removeEventListener("hashchange", handleHashChange)
+    }
+  }, [])
+
+  // A shared link is analysed once its series and settings are in place, then its exclusions are applied
+  useEffect(() => {
+    if (!pendingShare) return
+    if (!pendingShare.started) {
+      setPendingShare({ ...pendingShare, started: true })
+      runAnalysis(pendingShare.input)
+      return
+    }
+    if (analyzedInput !== pendingShare.input || !statistics) return
+    const excludedIndices = pendingShare.excluded.filter((index) => index < complexNumbers.length)
+    if (excludedIndices.length > 0) setExcluded(new Set(excludedIndices))
+    setPendingShare(null)
+  }, [pendingShare, analyzedInput, statistics])
+
+  useEffect(() => {
+    if (!storageReady) return
+    const timer = setTimeout(() => saveCurrentState(sessionState).catch(() => {}), AUTOSAVE_DELAY)
+    return () => clearTimeout(timer)
+  }, [sessionState, storageReady])
+
+  // The input of an earlier run goes back into the active series, read as it was then
+  const restoreRun = (entry: HistoryEntry) => {
+    if (entry.input === null) return
+    setInputMode(entry.mode)
+    setAngleUnit(entry.angleUnit)
+    setInput(entry.input)
+    runAnalysis(entry.input, undefined, { mode: entry.mode, unit: entry.angleUnit })
+  }
+
+  // Only the active series goes into a link, analysed as shown, with the plot as it is
+  const shareLink = async () => {
+    const text = statistics ? analyzedInput : input
+    if (!text.trim()) {
+      toast.error("没有可分享的数据")
+      return
+    }
+    const shared: SharedAnalysis<SessionSettings, PlotState> = {
+      session: {
+        series: [{ id: active.id, name: active.name, color: active.color, visible: true, input: text }],
+        activeId: active.id,
+        settings: sessionState.settings,
+      },
+      excluded: statistics ? [...excluded] : [],
+      plot: plotStateRef.current,
+    }
+    let url: string
+    try {
+      url = window.location.origin + window.location.pathname + window.location.search + (await encodeShareHash(shared))
+    } catch (error) {
+      toast.error(`无法生成分享链接：${error instanceof Error ? error.message : String(error)}`)
+      return
+    }
+    if (url.length > MAX_SHARE_URL_LENGTH) {
+      toast.error(
+        `数据压缩后链接仍有 ${url.length} 个字符，超过 ${MAX_SHARE_URL_LENGTH} 的上限，无法放进链接。请改为分享会话文件（不含图表视图）`,
+        {
+          action: {
+            label: "导出会话",
+            onClick: () =>
+              downloadBlob(
+                new Blob([sessionToJson({ name: active.name, savedAt: Date.now(), state: sessionState })], {
+                  type: "application/json",
+                }),
+                `complex_session_${dateStamp()}.json`,
+              ),
+          },
+          duration: 10000,
+        },
+      )
+      return
+    }
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success("分享链接已复制到剪贴板")
+    } catch (error) {
+      toast.error(`无法复制到剪贴板：${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const removeRun = (id: number) => {
+    setHistory((current) => current.filter((entry) => entry.id !== id))
+    deleteHistoryEntry(id).catch(() => {})
+  }
+
+  const clearRuns = () => {
+    setHistory([])
+    clearHistory().catch(() => {})
+  }
+
   return (
     <div className="min-h-screen w-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 relative overflow-y-auto">
       {/* 背景装饰图案 */}
@@ -165,29 +895,118 @@ function App() {
                         数据输入
                       </CardTitle>
                       <CardDescription className="text-sm">
-                        输入复数，支持格式：1+2i, 3-4i, 5, 6i（每行或用逗号分隔）
+                        支持格式：1+2i, 3-4j, 1e-3+2.5e2i, 5∠30°, 2*exp(i*pi/4), 2e^(0.5i), (1.5, -2)（每行或用逗号分隔），也可拖入 CSV/TSV、JSON 或 .npy 文件
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="flex-1 flex flex-col space-y-3">
-                      <div className="flex-1 flex flex-col">
-                        <Label htmlFor="data-input" className="text-sm font-medium mb-2">复数数据</Label>
-                        <Textarea
+                      <SeriesTabs
+                        series={series}
+                        activeId={active.id}
+                        onSelect={selectSeries}
+                        onChange={updateSeries}
+                        onAdd={addSeries}
+                        onRemove={removeSeries}
+                      />
+
+                      <DatasetImport
+                        label={<Label htmlFor="data-input" className="text-sm font-medium">复数数据</Label>}
+                        onImport={handleImport}
+                      >
+                        <HighlightedTextarea
                           id="data-input"
+                          ref={inputRef}
                           placeholder="例如：&#10;1+2i, 3-4i&#10;5+0i&#10;2-3i, 1+1i"
                           value={input}
+                          highlights={inputHighlights}
                           onChange={(e) => setInput(e.target.value)}
                           className="flex-1 text-sm resize-none"
                         />
-                      </div>
+                      </DatasetImport>
 
-                      <div className="flex gap-3 flex-shrink-0">
-                        <Button 
-                          onClick={handleCalculate} 
-                          className="flex-1 h-10 text-sm bg-blue-600 hover:bg-blue-700 text-white"
+                      {parseResult && <ParseSummary result={parseResult} onSelect={selectDiagnostic} />}
+
+                      <div className="flex items-center gap-2 flex-shrink-0 text-sm text-gray-600">
+                        <span>极坐标角度单位：</span>
+                        <Button
+                          variant={angleUnit === "deg" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setAngleUnit("deg")}
+                          className="h-7 px-3 text-xs"
+                        >
+                          角度 (°)
+                        </Button>
+                        <Button
+                          variant={angleUnit === "rad" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setAngleUnit("rad")}
+                          className="h-7 px-3 text-xs"
+                        >
+                          弧度 (rad)
+                        </Button>
+                        <span className="ml-3">输入为：</span>
+                        <Button
+                          variant={inputMode === "samples" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setInputMode("samples")}
+                          className="h-7 px-3 text-xs"
+                        >
+                          数据
+                        </Button>
+                        <Button
+                          variant={inputMode === "polynomial" ? "default" : "outline"}
+                          size="sm"
+                          title="最高次项系数在前；用空行隔开的第二组系数为分母，此时绘出零点 ○ 与极点 ×"
+                          onClick={() => setInputMode("polynomial")}
+                          className="h-7 px-3 text-xs"
                         >
-                          <Calculator className="h-4 w-4 mr-2" />
-                          计算
+                          多项式系数
                         </Button>
+                        <Button
+                          variant={inputMode === "matrix" ? "default" : "outline"}
+                          size="sm"
+                          title="每行为矩阵的一行，各行元素个数须相同；绘出特征值"
+                          onClick={() => setInputMode("matrix")}
+                          className="h-7 px-3 text-xs"
+                        >
+                          矩阵
+                        </Button>
+                        <label className="ml-auto flex items-center gap-1.5 cursor-pointer select-none" title="存在无法解析的输入时拒绝计算">
+                          <input
+                            type="checkbox"
+                            checked={strictMode}
+                            onChange={(e) => setStrictMode(e.target.checked)}
+                            className="accent-blue-600"
+                          />
+                          严格模式
+                        </label>
+                      </div>
+
+                      <div className="flex gap-3 flex-shrink-0">
+                        {progress ? (
+                          <div className="flex-1 flex items-center gap-3">
+                            <div className="flex-1 h-2 rounded-full bg-blue-100 overflow-hidden">
+                              <div
+                                className={`h-full bg-blue-600 transition-all ${progress.phase === "statistics" ? "animate-pulse" : ""}`}
+                                style={{ width: `${progress.phase === "statistics" ? 100 : progressPercent(progress)}%` }}
+                              />
+                            </div>
+                            <span className="text-xs text-gray-600 whitespace-nowrap">
+                              {progress.phase === "parse" ? `解析中 ${progressPercent(progress)}%` : "计算统计量…"}
+                            </span>
+                            <Button variant="outline" onClick={cancelAnalysis} className="h-10 px-4 text-sm">
+                              <X className="h-4 w-4 mr-2" />
+                              取消
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button 
+                            onClick={handleCalculate} 
+                            className="flex-1 h-10 text-sm bg-blue-600 hover:bg-blue-700 text-white"
+                          >
+                            <Calculator className="h-4 w-4 mr-2" />
+                            计算
+                          </Button>
+                        )}
                         <Button 
                           variant="outline" 
                           onClick={clearInput} 
@@ -211,22 +1030,95 @@ function App() {
                           <TrendingUp className="h-5 w-5 text-green-600" />
                           统计结果
                         </CardTitle>
-                        <CardDescription className="text-sm">复数数组的均值和方差</CardDescription>
+                        <CardDescription className="text-sm">复数数组的一阶、二阶统计量与非圆性</CardDescription>
                       </CardHeader>
                       <CardContent className="flex-1 flex flex-col space-y-3">
+                        <FormatPanel
+                          format={numberFormat}
+                          onChange={(patch) => setNumberFormat((current) => ({ ...current, ...patch }))}
+                        />
                         <div className="flex-1 space-y-3">
-                          <div className="p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-100">
+                          <div className="p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-100 max-h-[340px] overflow-y-auto">
                             <div className="space-y-3">
-                              <div>
-                                <span className="font-semibold text-blue-700 text-sm">均值：</span>
-                                <div className="font-mono text-sm mt-1 text-blue-900 break-all">{formatComplexNumber(statistics.mean)}</div>
-                              </div>
-                              <div>
-                                <span className="font-semibold text-purple-700 text-sm">方差：</span>
-                                <div className="font-mono text-sm mt-1 text-purple-900">{statistics.variance.toFixed(4)}</div>
-                              </div>
+                              {selectionStatistics && (
+                                <div className="p-2 -m-1 rounded-md bg-amber-50 border border-amber-200">
+                                  <div className="flex items-center justify-between mb-1">
+                                    <span className="font-semibold text-amber-700 text-sm">选中子集（{selectionStatistics.count} 个点）</span>
+                                    <button
+                                      type="button"
+                                      onClick={() => setSelection(new Set())}
+                                      className="text-xs text-amber-700 hover:underline"
+                                    >
+                                      清除选择
+                                    </button>
+                                  </div>
+                                  <dl className="space-y-1">
+                                    {describeStatistics(selectionStatistics, numberFormat)[0].rows.map(([label, value]) => (
+                                      <div key={label} className="flex justify-between gap-3 text-xs">
+                                        <dt className="text-gray-600 flex-shrink-0">{label}</dt>
+                                        <dd className="font-mono text-amber-900 text-right break-all">{value}</dd>
+                                      </div>
+                                    ))}
+                                  </dl>
+                                </div>
+                              )}
+                              {comparison && (
+                                <div>
+                                  <div className="font-semibold text-blue-700 text-sm mb-1">数据集对比（相对 {active.name}）</div>
+                                  <div className="overflow-x-auto">
+                                    <table className="w-full text-xs">
+                                      <thead>
+                                        <tr className="text-gray-600">
+                                          <th className="text-left font-normal pr-2" />
+                                          {comparison.map((row) => (
+                                            <th key={row.series.id} className="text-right font-medium px-1 whitespace-nowrap">
+                                              <span
+                                                className="inline-block h-2 w-2 rounded-full mr-1"
+                                                style={{ backgroundColor: row.series.color }}
+                                              />
+                                              {row.series.name}
+                                            </th>
+                                          ))}
+                                        </tr>
+                                      </thead>
+                                      <tbody className="font-mono text-blue-900">
+                                        {COMPARISON_ROWS.map(([label, cell]) => (
+                                          <tr key={label} className="border-t border-blue-100">
+                                            <td className="font-sans text-gray-600 pr-2 py-0.5 whitespace-nowrap">{label}</td>
+                                            {comparison.map((row) => (
+                                              <td key={row.series.id} className="text-right px-1 py-0.5 whitespace-nowrap">
+                                                {cell(row, numberFormat)}
+                                              </td>
+                                            ))}
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  </div>
+                                </div>
+                              )}
+                              {describeStatistics(statistics, numberFormat).map((group) => (
+                                <div key={group.title}>
+                                  <div className="font-semibold text-blue-700 text-sm mb-1">{group.title}</div>
+                                  <dl className="space-y-1">
+                                    {group.rows.map(([label, value]) => (
+                                      <div key={label} className="flex justify-between gap-3 text-xs">
+                                        <dt className="text-gray-600 flex-shrink-0">{label}</dt>
+                                        <dd className="font-mono text-blue-900 text-right break-all">{value}</dd>
+                                      </div>
+                                    ))}
+                                  </dl>
+                                </div>
+                              ))}
+                              <HypothesisTests
+                                statistics={statistics}
+                                numbers={includedNumbers}
+                                angleUnit={angleUnit}
+                                others={otherStatistics}
+                                numberFormat={numberFormat}
+                              />
                               <div className="text-xs text-gray-600 pt-2 border-t border-blue-200">
-                                数据点数量：{complexNumbers.length}
+                                数据点数量：{statistics.count}
                               </div>
                             </div>
                           </div>
@@ -235,6 +1127,13 @@ function App() {
                             <Copy className="h-4 w-4 mr-2" />
                             复制结果
                           </Button>
+                          <ExportPanel
+                            name={active.name}
+                            numbers={complexNumbers}
+                            statistics={statistics}
+                            groups={describeStatistics(statistics, numberFormat)}
+                            angleUnit={numberFormat.angleUnit}
+                          />
                         </div>
                       </CardContent>
                     </Card>
@@ -311,7 +1210,7 @@ function App() {
               </div>
 
               {/* Visualization Section - 剩余空间 */}
-              {complexNumbers.length > 0 && (
+              {(complexNumbers.length > 0 || plotSeries.length > 0) && (
                 <div className="aspect-[16/9] mt-6">
                   <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-md hover:shadow-2xl transition-shadow duration-300 h-full flex flex-col">
                     <CardHeader className="pb-3 flex-shrink-0">
@@ -322,11 +1221,139 @@ function App() {
                       <CardDescription className="text-sm">复数在复平面上的分布可视化</CardDescription>
                     </CardHeader>
                     <CardContent className="flex-1 min-h-0 w-full overflow-hidden">
-                      <ComplexPlot complexNumbers={complexNumbers} mean={statistics?.mean} />
+                      <ComplexPlot
+                        complexNumbers={active.visible ? complexNumbers : NO_NUMBERS}
+                        mean={active.visible ? statistics?.mean : undefined}
+                        covariance={active.visible ? statistics?.covariance : undefined}
+                        name={active.name}
+                        color={active.color}
+                        series={plotSeries}
+                        sources={sources}
+                        selection={selection}
+                        onSelectionChange={setSelection}
+                        idealSymbols={active.visible ? constellation?.received : undefined}
+                        links={transformLinks}
+                        domainFunction={domainFunction}
+                        rootKinds={active.visible ? rootKinds : undefined}
+                        discs={active.visible ? (active.matrix?.discs ?? undefined) : undefined}
+                        excluded={excluded}
+                        flagged={flagged}
+                        numberFormat={numberFormat}
+                        initialState={sharedPlot ?? undefined}
+                        onStateChange={(state) => {
+                          plotStateRef.current = state
+                        }}
+                      />
                     </CardContent>
                   </Card>
                 </div>
               )}
+
+              {complexNumbers.length > 0 && (
+                <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-md hover:shadow-2xl transition-shadow duration-300">
+                  <CardContent>
+                    <DataTable
+                      complexNumbers={complexNumbers}
+                      sources={sources}
+                      mean={statistics?.mean}
+                      numberFormat={numberFormat}
+                      selection={selection}
+                      excluded={excluded}
+                      onSelect={(index) => setSelection(new Set([index]))}
+                      onToggleExcluded={(index) => {
+                        const next = new Set(excluded)
+                        if (next.has(index)) next.delete(index)
+                        else next.add(index)
+                        setExcluded(next)
+                      }}
+                      onEdit={inputMode === "samples" && sources.length > 0 && input === analyzedInput ? editEntry : undefined}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {active.matrix && (
+                <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-md hover:shadow-2xl transition-shadow duration-300">
+                  <CardContent>
+                    <MatrixPanel analysis={active.matrix} numberFormat={numberFormat} onSelect={(index) => setSelection(new Set([index]))} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {complexNumbers.length > 0 && (
+                <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-md hover:shadow-2xl transition-shadow duration-300">
+                  <CardContent>
+                    <RobustPanel
+                      settings={robustSettings}
+                      onChange={(patch) => setRobustSettings((current) => ({ ...current, ...patch }))}
+                      complexNumbers={complexNumbers}
+                      robust={robust}
+                      outliers={outliers}
+                      excluded={excluded}
+                      onExcludedChange={setExcluded}
+                      recomputing={recomputing}
+                      selection={selection}
+                      numberFormat={numberFormat}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {active.roots && (
+                <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-md hover:shadow-2xl transition-shadow duration-300">
+                  <CardContent>
+                    <RootsPanel roots={active.roots} numberFormat={numberFormat} onSelect={(index) => setSelection(new Set([index]))} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {complexNumbers.length > 0 && (
+                <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-md hover:shadow-2xl transition-shadow duration-300">
+                  <CardContent>
+                    <TransformPanel
+                      expression={functionSource}
+                      onExpressionChange={setFunctionSource}
+                      sourceName={active.name}
+                      onApply={applyTransform}
+                      showLinks={showLinks}
+                      onShowLinksChange={setShowLinks}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {complexNumbers.length > 0 && (
+                <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-md hover:shadow-2xl transition-shadow duration-300">
+                  <CardContent>
+                    <ConstellationPanel
+                      settings={constellationSettings}
+                      onChange={(patch) => setConstellationSettings((current) => ({ ...current, ...patch }))}
+                      candidates={series
+                        .filter((item) => item.id !== active.id && item.complexNumbers.length > 0)
+                        .map((item) => ({ id: item.id, name: item.name, count: item.complexNumbers.length }))}
+                      sampleCount={complexNumbers.length}
+                      result={constellation}
+                      numberFormat={numberFormat}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card className="shadow-xl border-0 bg-white/90 backdrop-blur-md hover:shadow-2xl transition-shadow duration-300">
+                <CardContent className="space-y-4">
+                  <SessionPanel current={sessionState} onRestore={restoreSession} onShare={shareLink} />
+                  {history.length > 0 && (
+                    <HistoryPanel
+                      entries={history}
+                      current={statistics}
+                      numberFormat={numberFormat}
+                      onRestore={restoreRun}
+                      onDelete={removeRun}
+                      onClear={clearRuns}
+                    />
+                  )}
+                </CardContent>
+              </Card>
             </div>
           </div>
         </div>
@@ -0,0 +1,243 @@
+import { readFile } from "node:fs/promises"
+import { extname } from "node:path"
+import { parseArgs } from "node:util"
+import {
+  type ImportedData,
+  type InputMode,
+  type NumberFormat,
+  type ParseDiagnostic,
+  type Statistics,
+  type TextAnalysisOptions,
+  INPUT_MODES,
+  InputAnalysisError,
+  MAX_PRECISION,
+  analyzeText,
+  applyColumnMapping,
+  defaultColumnMapping,
+  defaultNumberFormat,
+  describeStatistics,
+  detectFormat,
+  parseDelimited,
+  parseJsonDataset,
+  parseNpy,
+  serializeComplexNumbers,
+  statisticsToCsv,
+} from "../lib/core"
+
+/*
+ * complex-analyzer: the app's analysis from the command line, for CI and
+ * shell scripts. Each file (or stdin) is analysed on its own, through the
+ * same parser, import and statistics code as the UI.
+ */
+
+const USAGE = `用法：complex-analyzer [选项] [文件…]
+
+不给文件或文件为 - 时读取标准输入。.csv/.tsv/.json/.npy 按数据文件导入，
+其余文件与标准输入按输入框的格式解析。
+
+选项：
+  -f, --format <text|json|csv>                     输出格式（默认 text）
+  -m, --mode <samples|polynomial|matrix>           输入为数据、多项式系数或矩阵（默认 samples）
+  -u, --angle-unit <deg|rad>                       极坐标输入的角度单位（默认 deg）
+  -s, --strict                                     存在无法解析的输入时拒绝计算
+  -p, --precision <n>                              text 输出的小数位（默认 4）
+      --notation <fixed|scientific|engineering>    text 输出的记数法
+      --form <cartesian|polar|exponential>         text 输出的复数形式
+      --imaginary-unit <i|j>                       text 输出的虚数单位
+  -h, --help                                       显示此帮助
+
+json 与 csv 输出保留完整精度。有输入分析失败时退出码为 1，参数错误为 2。`
+
+const FORMATS = ["text", "json", "csv"] as const
+// Extensions read as data files, like files dropped on the input in the app
+const DATA_EXTENSIONS = [".csv", ".tsv", ".json", ".npy"]
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UsageError"
+  }
+}
+
+interface Sample {
+  name: string
+  text: string
+  /** Values a data file held that were not numbers */
+  skipped: number
+}
+
+interface SampleResult {
+  name: string
+  mode: InputMode
+  skipped: number
+  rejected: ParseDiagnostic[]
+  statistics: Statistics | null
+}
+
+function oneOf<T extends string>(option: string, value: string | undefined, choices: readonly T[], fallback: T): T {
+  if (value === undefined) return fallback
+  if (!choices.includes(value as T)) throw new UsageError(`--${option} 应为 ${choices.join("、")} 之一，而不是 ${value}`)
+  return value as T
+}
+
+function readOptions(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f" },
+      mode: { type: "string", short: "m" },
+      "angle-unit": { type: "string", short: "u" },
+      strict: { type: "boolean", short: "s" },
+      precision: { type: "string", short: "p" },
+      notation: { type: "string" },
+      form: { type: "string" },
+      "imaginary-unit": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+
+  const precision = values.precision === undefined ? defaultNumberFormat.precision : Number(values.precision)
+  if (!Number.isInteger(precision) || precision < 0 || precision > MAX_PRECISION) {
+    throw new UsageError(`--precision 应为 0 到 ${MAX_PRECISION} 的整数`)
+  }
+  const angleUnit = oneOf("angle-unit", values["angle-unit"], ["deg", "rad"], "deg")
+  const analysis: TextAnalysisOptions = {
+    mode: oneOf("mode", values.mode, INPUT_MODES, "samples"),
+    angleUnit,
+    strict: values.strict ?? false,
+  }
+  const numberFormat: NumberFormat = {
+    precision,
+    notation: oneOf("notation", values.notation, ["fixed", "scientific", "engineering"], defaultNumberFormat.notation),
+    form: oneOf("form", values.form, ["cartesian", "polar", "exponential"], defaultNumberFormat.form),
+    angleUnit,
+    imaginaryUnit: oneOf("imaginary-unit", values["imaginary-unit"], ["i", "j"], defaultNumberFormat.imaginaryUnit),
+  }
+  return {
+    help: values.help ?? false,
+    format: oneOf("format", values.format, FORMATS, "text"),
+    analysis,
+    numberFormat,
+    paths: positionals.length > 0 ? positionals : ["-"],
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString("utf8")
+}
+
+/** Data files become input text the way the app's import does it */
+async function readSample(path: string): Promise<Sample> {
+  if (path === "-") return { name: "stdin", text: await readStdin(), skipped: 0 }
+  if (!DATA_EXTENSIONS.includes(extname(path).toLowerCase())) {
+    return { name: path, text: await readFile(path, "utf8"), skipped: 0 }
+  }
+
+  let data: ImportedData
+  const format = detectFormat(path)
+  if (format === "npy") {
+    const bytes = await readFile(path)
+    data = parseNpy(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength))
+  } else if (format === "json") {
+    data = parseJsonDataset(await readFile(path, "utf8"))
+  } else {
+    const table = parseDelimited(await readFile(path, "utf8"), path)
+    data = applyColumnMapping(table, defaultColumnMapping(table))
+  }
+  return data.kind === "numbers"
+    ? { name: path, text: serializeComplexNumbers(data.numbers), skipped: data.skipped }
+    : { name: path, text: data.values.join("\n"), skipped: 0 }
+}
+
+function analyzeSample({ name, text, skipped }: Sample, options: TextAnalysisOptions): SampleResult {
+  if (options.strict && skipped > 0) throw new InputAnalysisError(`严格模式：有 ${skipped} 个输入无法解析`)
+  const { rejected, statistics } = analyzeText(text, options)
+  return { name, mode: options.mode, skipped, rejected, statistics }
+}
+
+// Columns a label takes in a terminal, where CJK characters are two wide
+const displayWidth = (text: string) => [...text].reduce((width, char) => width + (char.codePointAt(0)! >= 0x2e80 ? 2 : 1), 0)
+
+function formatText(results: SampleResult[], numberFormat: NumberFormat): string {
+  return results
+    .map(({ name, skipped, rejected, statistics }) => {
+      const lines = [`== ${name} ==`]
+      if (statistics) {
+        for (const group of describeStatistics(statistics, numberFormat)) {
+          const width = Math.max(...group.rows.map(([label]) => displayWidth(label)))
+          const pad = (label: string) => label + " ".repeat(width - displayWidth(label))
+          lines.push(group.title, ...group.rows.map(([label, value]) => `  ${pad(label)}  ${value}`))
+        }
+        lines.push(`数据点数量：${statistics.count}`)
+      } else {
+        lines.push("没有特征值，不计算统计量")
+      }
+      if (skipped + rejected.length > 0) lines.push(`已忽略 ${skipped + rejected.length} 个无法解析的输入`)
+      for (const diagnostic of rejected) {
+        lines.push(`  第 ${diagnostic.line} 行第 ${diagnostic.column} 列 "${diagnostic.text}"：${diagnostic.reason}`)
+      }
+      return lines.join("\n")
+    })
+    .join("\n\n")
+}
+
+function formatJson(results: SampleResult[]): string {
+  const records = results.map(({ name, mode, skipped, rejected, statistics }) => ({
+    name,
+    mode,
+    skipped,
+    rejected: rejected.map(({ line, column, text, reason }) => ({ line, column, text, reason })),
+    statistics,
+  }))
+  return JSON.stringify(records, null, 2)
+}
+
+async function main(args: string[]): Promise<number> {
+  let options
+  try {
+    options = readOptions(args)
+  } catch (error) {
+    // parseArgs reports unknown options with its own TypeError
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`)
+    return 2
+  }
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`)
+    return 0
+  }
+
+  const results: SampleResult[] = []
+  let failed = false
+  for (const path of options.paths) {
+    try {
+      results.push(analyzeSample(await readSample(path), options.analysis))
+    } catch (error) {
+      // Unreadable files, bad input and failed computations alike end this input only
+      process.stderr.write(`${path === "-" ? "stdin" : path}：${error instanceof Error ? error.message : String(error)}\n`)
+      failed = true
+    }
+  }
+
+  if (options.format === "json") {
+    process.stdout.write(`${formatJson(results)}\n`)
+  } else if (options.format === "csv") {
+    const analysed = results.flatMap(({ name, statistics }) => (statistics ? [{ name, statistics }] : []))
+    process.stdout.write(`${statisticsToCsv(analysed)}\n`)
+  } else if (results.length > 0) {
+    process.stdout.write(`${formatText(results, options.numberFormat)}\n`)
+  }
+  return failed ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error) => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`)
+    process.exitCode = 1
+  },
+)
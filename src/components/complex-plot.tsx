@@ -1,70 +1,602 @@
-import { useEffect, useRef } from "react"
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from "react"
 import { Button } from "./ui/button"
-import { Download } from "lucide-react"
+import { Download, Hand, Lasso, Pause, Play, RotateCcw, SquareDashed } from "lucide-react"
 import { toast } from 'sonner'
-
-interface ComplexNumber {
-  real: number
-  imag: number
-}
+import { COLORMAPS, type ColormapName, darken } from "../lib/colormap"
+import type { ComplexNumber } from "../lib/complex"
+import type { ComplexFunction } from "../lib/complex-expression"
+import type { InputEntry } from "../lib/complex-parser"
+import type { Disc } from "../lib/matrix"
+import { dateStamp, downloadBlob } from "../lib/export"
+import { type FieldChecks, integerIn, mergeDefaults, oneOf } from "../lib/session"
+import { contourSegments, histogram2d, kernelDensity, scottBandwidth } from "../lib/density"
+import {
+  type NumberFormat,
+  defaultNumberFormat,
+  formatComplexNumber,
+  formatFrequency,
+  formatReal,
+  formatTick,
+} from "../lib/format"
+import { WINDOWS, type WindowKind, computeSpectrum, findPeaks, magnitudeToDecibels } from "../lib/signal"
+import {
+  type Ellipse,
+  type Matrix2,
+  chiSquare2Radius,
+  covarianceEllipse,
+  ellipsePoints,
+  prefixMoments,
+  principalAxes,
+} from "../lib/statistics"
+import {
+  type DensityScale,
+  type PlotContext,
+  type PlotSeries,
+  type Point,
+  type PointProjector,
+  LARGE_DATA_THRESHOLD,
+  POINT_COLOR,
+  PointGrid,
+  drawColorbar,
+  drawDecisionRegions,
+  drawDomainColoring,
+  drawHeatmap,
+  drawIdealPoints,
+  drawIndexColorbar,
+  drawLinks,
+  drawMagnitudePhase,
+  drawPolarChart,
+  drawRootMarker,
+  drawSeriesLegend,
+  drawSeriesMean,
+  drawSeriesPoints,
+  drawSpectrum,
+  drawTrajectory,
+  rasterizePoints,
+} from "./plot-renderers"
+import { type PlotView, PLOT_PADDING, isPlotView, makeTransform, panView, zoomView } from "./plot-view"
+import { VectorContext } from "../lib/vector-context"
+import { toPdf, toSvg } from "../lib/vector-export"
 
 interface ComplexPlotProps {
   complexNumbers: ComplexNumber[]
   mean?: ComplexNumber
+  /** Population covariance of (real, imag); enables the overlay toggles */
+  covariance?: Matrix2
+  /** Where each point came from in the input, parallel to complexNumbers */
+  sources?: InputEntry[]
+  selection?: ReadonlySet<number>
+  onSelectionChange?: (selection: Set<number>) => void
+  /** Legend name and colour of the primary dataset */
+  name?: string
+  color?: string
+  /** Further datasets overlaid for comparison; only the primary one is interactive */
+  series?: PlotSeries[]
+  /** Ideal constellation symbols in the data's own frame; the Cartesian view draws their decision regions */
+  idealSymbols?: ComplexNumber[]
+  /** Point pairs joined by a line in the Cartesian view, such as z and f(z) */
+  links?: Array<[ComplexNumber, ComplexNumber]>
+  /** f(z) for the domain-colouring view, which is offered when this is given; null while the expression is invalid */
+  domainFunction?: ComplexFunction | null
+  /** Draw each point as a polynomial zero (○) or pole (×) instead of a dot, parallel to complexNumbers */
+  rootKinds?: Array<"zero" | "pole">
+  /** Gershgorin discs of a matrix whose eigenvalues are plotted; enables their overlay toggle */
+  discs?: Disc[]
+  /** Points left out of the statistics, drawn hollow */
+  excluded?: ReadonlySet<number>
+  /** Points flagged as outliers, ringed in red */
+  flagged?: ReadonlySet<number>
+  /** Format of the axis labels and the hover readout */
+  numberFormat?: NumberFormat
+  /** Mode, options and zoom window to start from; read on mount only */
+  initialState?: PlotState
+  /** Called whenever the mode, an option or the zoom window changes */
+  onStateChange?: (state: PlotState) => void
 }
 
-export default function ComplexPlot({ complexNumbers, mean }: ComplexPlotProps) {
+const NO_SERIES: PlotSeries[] = []
+
+type OverlayKey = "sigma1" | "sigma2" | "sigma3" | "axes" | "meanRegion"
+
+type Overlays = Record<OverlayKey, boolean>
+
+const OVERLAYS: Array<{ key: OverlayKey; label: string; title: string }> = [
+  { key: "sigma1", label: "1σ", title: "1σ 置信椭圆" },
+  { key: "sigma2", label: "2σ", title: "2σ 置信椭圆" },
+  { key: "sigma3", label: "3σ", title: "3σ 置信椭圆" },
+  { key: "axes", label: "主轴", title: "过均值的协方差主轴" },
+  { key: "meanRegion", label: "均值95%", title: "均值的 95% 置信区域" },
+]
+
+const SIGMA_COLORS = ["#8b5cf6", "#a855f7", "#c084fc"]
+const MEAN_CONFIDENCE = 0.95
+
+interface ExportOptions {
+  widthMm: number
+  heightMm: number
+  dpi: number
+}
+
+// The browser lays the canvas out at 96 CSS pixels per inch
+const CSS_DPI = 96
+const EXPORT_DPIS = [96, 150, 300, 600]
+// Raster layers and PNG exports above this many device pixels would exhaust memory
+const MAX_EXPORT_PIXELS = 40e6
+
+type PlotMode = "cartesian" | "polar" | "magnitudePhase" | "spectrum" | "domain"
+
+const MODES: Array<{ key: PlotMode; label: string }> = [
+  { key: "cartesian", label: "直角坐标" },
+  { key: "polar", label: "极坐标" },
+  { key: "magnitudePhase", label: "幅度/相位" },
+  { key: "spectrum", label: "频谱" },
+  { key: "domain", label: "域着色" },
+]
+
+/** Modes drawn on the complex plane itself, sharing one view for zoom and pan */
+const isPlanar = (mode: PlotMode) => mode === "cartesian" || mode === "domain"
+
+const PAD_FACTORS = [1, 2, 4, 8]
+// Longest transform computed on the main thread; larger zero-padding is reduced to fit
+const MAX_FFT_LENGTH = 1 << 22
+const PEAK_COUNT = 5
+
+/** How the Cartesian view shows the points: individually, binned by count or joined in input order */
+type PointStyle = "scatter" | "density" | "trajectory"
+
+const BIN_COUNTS = [32, 64, 128, 256]
+// Contour levels of the kernel density estimate, as fractions of its peak
+const CONTOUR_LEVELS = [0.2, 0.4, 0.6, 0.8]
+const CONTOUR_COLOR = "#db2777"
+const EXCLUDED_COLOR = "#9ca3af"
+const OUTLIER_COLOR = "#dc2626"
+// Samples revealed per second while a trajectory plays
+const PLAYBACK_SPEEDS = [5, 20, 100, 500, 2000]
+
+const selectClassName = "h-8 rounded-md border border-input bg-background px-2 text-xs"
+
+type Tool = "pan" | "box" | "lasso"
+
+const TOOLS: Array<{ key: Tool; label: string; icon: typeof Hand }> = [
+  { key: "pan", label: "平移", icon: Hand },
+  { key: "box", label: "框选", icon: SquareDashed },
+  { key: "lasso", label: "套索", icon: Lasso },
+]
+
+const HOVER_RADIUS = 8
+const CLICK_TOLERANCE = 3
+const ZOOM_SENSITIVITY = 0.0015
+
+/** Bounds of the data and any visible ellipses, with 10% padding */
+function fitView(
+  complexNumbers: ComplexNumber[],
+  mean: ComplexNumber | undefined,
+  covariance: Matrix2 | undefined,
+  overlays: Overlays,
+  series: PlotSeries[],
+  unitCircle: boolean,
+  discs: Disc[] | undefined,
+): PlotView {
+  // Find bounds; a loop rather than spreading, which overflows the stack on large inputs
+  let minReal = Infinity
+  let maxReal = -Infinity
+  let minImag = Infinity
+  let maxImag = -Infinity
+  for (const numbers of [complexNumbers, ...series.map((other) => other.complexNumbers)]) {
+    for (const num of numbers) {
+      minReal = Math.min(minReal, num.real)
+      maxReal = Math.max(maxReal, num.real)
+      minImag = Math.min(minImag, num.imag)
+      maxImag = Math.max(maxImag, num.imag)
+    }
+  }
+
+  // Keep visible ellipses inside the view
+  if (mean && covariance) {
+    const largest = Math.max(
+      0,
+      ...[1, 2, 3].filter((k) => overlays[`sigma${k}` as OverlayKey]),
+      overlays.axes ? 3 : 0,
+    )
+    minReal = Math.min(minReal, mean.real - largest * Math.sqrt(covariance[0][0]))
+    maxReal = Math.max(maxReal, mean.real + largest * Math.sqrt(covariance[0][0]))
+    minImag = Math.min(minImag, mean.imag - largest * Math.sqrt(covariance[1][1]))
+    maxImag = Math.max(maxImag, mean.imag + largest * Math.sqrt(covariance[1][1]))
+  }
+
+  if (unitCircle) {
+    minReal = Math.min(minReal, -1)
+    maxReal = Math.max(maxReal, 1)
+    minImag = Math.min(minImag, -1)
+    maxImag = Math.max(maxImag, 1)
+  }
+
+  for (const { center, radius } of discs ?? []) {
+    minReal = Math.min(minReal, center.real - radius)
+    maxReal = Math.max(maxReal, center.real + radius)
+    minImag = Math.min(minImag, center.imag - radius)
+    maxImag = Math.max(maxImag, center.imag + radius)
+  }
+
+  // Add some padding to bounds
+  const realRange = maxReal - minReal || 1
+  const imagRange = maxImag - minImag || 1
+  const realPadding = realRange * 0.1
+  const imagPadding = imagRange * 0.1
+
+  return {
+    minReal: minReal - realPadding,
+    maxReal: maxReal + realPadding,
+    minImag: minImag - imagPadding,
+    maxImag: maxImag + imagPadding,
+  }
+}
+
+/** Even-odd ray casting test */
+function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/** Everything about how the plot is shown that a link or session can carry */
+export interface PlotState {
+  mode: PlotMode
+  overlays: Overlays
+  decibels: boolean
+  unwrap: boolean
+  sampleRate: string
+  spectralWindow: WindowKind
+  padFactor: number
+  shift: boolean
+  pointStyle: PointStyle
+  bins: number
+  densityScale: DensityScale
+  colormap: ColormapName
+  contours: boolean
+  modulusContours: boolean
+  phaseContours: boolean
+  unitCircle: boolean
+  showDiscs: boolean
+  /** Samples in the sliding window of a trajectory; 0 counts from the first sample */
+  windowSize: number
+  playbackSpeed: number
+  /** Null while the view is fitted to the data */
+  view: PlotView | null
+}
+
+export const defaultPlotState: PlotState = {
+  mode: "cartesian",
+  overlays: { sigma1: false, sigma2: false, sigma3: false, axes: false, meanRegion: false },
+  decibels: false,
+  unwrap: false,
+  sampleRate: "1",
+  spectralWindow: "hann",
+  padFactor: 1,
+  shift: true,
+  pointStyle: "scatter",
+  bins: 64,
+  densityScale: "linear",
+  colormap: "viridis",
+  contours: false,
+  modulusContours: true,
+  phaseContours: false,
+  unitCircle: false,
+  showDiscs: false,
+  windowSize: 0,
+  playbackSpeed: 20,
+  view: null,
+}
+
+// What a link may set; anything else would break the plot or an input that shows it
+const PLOT_STATE_CHECKS: FieldChecks<PlotState> = {
+  mode: oneOf(MODES.map(({ key }) => key)),
+  sampleRate: (value) => typeof value === "string" && value.length <= 32,
+  spectralWindow: oneOf(WINDOWS.map(({ key }) => key)),
+  padFactor: oneOf(PAD_FACTORS),
+  pointStyle: oneOf(["scatter", "density", "trajectory"]),
+  bins: oneOf(BIN_COUNTS),
+  densityScale: oneOf(["linear", "log"]),
+  colormap: oneOf(COLORMAPS.map(({ key }) => key)),
+  windowSize: integerIn(0, Number.MAX_SAFE_INTEGER),
+  playbackSpeed: oneOf(PLAYBACK_SPEEDS),
+  view: (value) => value === null || isPlotView(value),
+}
+
+/** A plot state from untrusted data, each field checked and defaulted on its own */
+export function readPlotState(saved: unknown): PlotState {
+  return mergeDefaults(defaultPlotState, saved, PLOT_STATE_CHECKS)
+}
+
+interface DragState {
+  start: Point
+  startView: PlotView
+  moved: boolean
+  path: Point[]
+}
+
+export default function ComplexPlot({
+  complexNumbers,
+  mean,
+  covariance,
+  sources,
+  selection,
+  onSelectionChange,
+  name = "数据",
+  color = POINT_COLOR,
+  series = NO_SERIES,
+  idealSymbols,
+  links,
+  domainFunction,
+  rootKinds,
+  discs,
+  excluded,
+  flagged,
+  numberFormat = defaultNumberFormat,
+  initialState = defaultPlotState,
+  onStateChange,
+}: ComplexPlotProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [overlays, setOverlays] = useState(initialState.overlays)
+  const [mode, setMode] = useState(initialState.mode)
+  const [decibels, setDecibels] = useState(initialState.decibels)
+  const [unwrap, setUnwrap] = useState(initialState.unwrap)
+  const [sampleRate, setSampleRate] = useState(initialState.sampleRate)
+  const [spectralWindow, setSpectralWindow] = useState(initialState.spectralWindow)
+  const [padFactor, setPadFactor] = useState(initialState.padFactor)
+  const [shift, setShift] = useState(initialState.shift)
+  const [pointStyle, setPointStyle] = useState(initialState.pointStyle)
+  const [bins, setBins] = useState(initialState.bins)
+  const [densityScale, setDensityScale] = useState(initialState.densityScale)
+  const [colormap, setColormap] = useState(initialState.colormap)
+  const [contours, setContours] = useState(initialState.contours)
+  const [modulusContours, setModulusContours] = useState(initialState.modulusContours)
+  const [phaseContours, setPhaseContours] = useState(initialState.phaseContours)
+  const [unitCircle, setUnitCircle] = useState(initialState.unitCircle)
+  const [showDiscs, setShowDiscs] = useState(initialState.showDiscs)
+  const [windowSize, setWindowSize] = useState(initialState.windowSize)
+  const [playbackSpeed, setPlaybackSpeed] = useState(initialState.playbackSpeed)
+  const [view, setView] = useState(initialState.view)
+  // Samples of the trajectory shown so far, null once all of them are
+  const [visibleCount, setVisibleCount] = useState<number | null>(null)
+  const [playing, setPlaying] = useState(false)
+  const [tool, setTool] = useState<Tool>("pan")
+  const [hover, setHover] = useState<{ index: number; position: Point } | null>(null)
+  const [dragPath, setDragPath] = useState<Point[] | null>(null)
+  const [exportOptions, setExportOptions] = useState<ExportOptions | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  // Set by whichever renderer drew the current frame
+  const projectRef = useRef<PointProjector | null>(null)
+  // Spatial index over the current frame, built on first hover or selection
+  const gridRef = useRef<PointGrid | null>(null)
+  // Fractional playback position, advanced every animation frame
+  const playheadRef = useRef(0)
+
+  const autoView = useMemo(
+    () =>
+      complexNumbers.length > 0 || series.length > 0
+        ? fitView(complexNumbers, mean, covariance, overlays, series, unitCircle, showDiscs ? discs : undefined)
+        : null,
+    [complexNumbers, mean, covariance, overlays, series, unitCircle, showDiscs, discs],
+  )
+  const currentView = view ?? autoView
+
+  // The sequence is taken as time samples of the primary dataset
+  const spectrum = useMemo(() => {
+    if (mode !== "spectrum" || complexNumbers.length === 0) return null
+    const rate = Number(sampleRate)
+    const factor = PAD_FACTORS.filter((factor) => factor <= padFactor && complexNumbers.length * factor <= MAX_FFT_LENGTH).pop() ?? 1
+    const result = computeSpectrum(complexNumbers, {
+      sampleRate: Number.isFinite(rate) && rate > 0 ? rate : 1,
+      window: spectralWindow,
+      padFactor: factor,
+      shift,
+    })
+    return { ...result, peaks: findPeaks(result, PEAK_COUNT) }
+  }, [mode, complexNumbers, sampleRate, spectralWindow, padFactor, shift])
 
+  // A new dataset starts from the fitted view again; the one mounted with keeps the initial view
+  const viewDataRef = useRef(complexNumbers)
   useEffect(() => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+    if (viewDataRef.current === complexNumbers) return
+    viewDataRef.current = complexNumbers
+    setView(null)
+    setHover(null)
+    setVisibleCount(null)
+    setPlaying(false)
+  }, [complexNumbers])
 
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
+  const trajectory = mode === "cartesian" && pointStyle === "trajectory"
+  const shownCount = visibleCount ?? complexNumbers.length
+  const windowStart = windowSize > 0 ? Math.max(0, shownCount - windowSize) : 0
+  const moments = useMemo(
+    () => (trajectory ? prefixMoments(complexNumbers, excluded) : null),
+    [trajectory, complexNumbers, excluded],
+  )
+  // Mean and variance of the included samples shown, or of those among the last windowSize of them
+  const running = moments && shownCount > 0 ? moments(windowStart, shownCount) : null
 
-    // Set canvas size
-    const rect = canvas.getBoundingClientRect()
-    canvas.width = rect.width * window.devicePixelRatio
-    canvas.height = rect.height * window.devicePixelRatio
-    ctx.scale(window.devicePixelRatio, window.devicePixelRatio)
+  // Leaving the trajectory style shows every sample again
+  useEffect(() => {
+    if (trajectory) return
+    setVisibleCount(null)
+    setPlaying(false)
+  }, [trajectory])
+
+  // Reveals playbackSpeed samples a second until all are shown
+  useEffect(() => {
+    if (!playing || !trajectory) return
+    let frame = 0
+    let previous = performance.now()
+    const advance = (time: number) => {
+      playheadRef.current += (Math.max(0, time - previous) / 1000) * playbackSpeed
+      previous = time
+      if (playheadRef.current >= complexNumbers.length) {
+        setVisibleCount(null)
+        setPlaying(false)
+        return
+      }
+      setVisibleCount(Math.max(1, Math.floor(playheadRef.current)))
+      frame = requestAnimationFrame(advance)
+    }
+    frame = requestAnimationFrame(advance)
+    return () => cancelAnimationFrame(frame)
+  }, [playing, trajectory, playbackSpeed, complexNumbers])
+
+  const togglePlayback = () => {
+    if (playing) {
+      setPlaying(false)
+      return
+    }
+    // Once every sample is shown, play starts over from the first
+    playheadRef.current = visibleCount ?? 1
+    setVisibleCount(playheadRef.current)
+    setPlaying(true)
+  }
+
+  const scrub = (count: number) => {
+    playheadRef.current = count
+    setVisibleCount(count >= complexNumbers.length ? null : count)
+  }
+
+  const plotState = useMemo(
+    (): PlotState => ({
+      mode,
+      overlays,
+      decibels,
+      unwrap,
+      sampleRate,
+      spectralWindow,
+      padFactor,
+      shift,
+      pointStyle,
+      bins,
+      densityScale,
+      colormap,
+      contours,
+      modulusContours,
+      phaseContours,
+      unitCircle,
+      showDiscs,
+      windowSize,
+      playbackSpeed,
+      view,
+    }),
+    [
+      mode,
+      overlays,
+      decibels,
+      unwrap,
+      sampleRate,
+      spectralWindow,
+      padFactor,
+      shift,
+      pointStyle,
+      bins,
+      densityScale,
+      colormap,
+      contours,
+      modulusContours,
+      phaseContours,
+      unitCircle,
+      showDiscs,
+      windowSize,
+      playbackSpeed,
+      view,
+    ],
+  )
+
+  useEffect(() => {
+    onStateChange?.(plotState)
+  }, [plotState])
+
+  const toggleOverlay = (key: OverlayKey) => {
+    setOverlays((current) => ({ ...current, [key]: !current[key] }))
+  }
 
-    const width = rect.width
-    const height = rect.height
-    const padding = 40
+  /**
+   * One frame of the current mode at width × height CSS pixels, on the
+   * canvas or on an export context. Returns where each point was drawn, or
+   * null when there was nothing to draw.
+   */
+  const renderPlot = (ctx: PlotContext, width: number, height: number): PointProjector | null => {
+    const padding = PLOT_PADDING
 
     // Clear canvas
     ctx.fillStyle = "#ffffff"
     ctx.fillRect(0, 0, width, height)
 
-    if (complexNumbers.length === 0) return
+    if ((complexNumbers.length === 0 && series.length === 0) || !currentView) return null
 
-    // Find bounds
-    const realValues = complexNumbers.map((n) => n.real)
-    const imagValues = complexNumbers.map((n) => n.imag)
+    const drawLegend = () => {
+      if (series.length > 0) drawSeriesLegend(ctx, width - padding, [{ name, color }, ...series])
+    }
 
-    const minReal = Math.min(...realValues)
-    const maxReal = Math.max(...realValues)
-    const minImag = Math.min(...imagValues)
-    const maxImag = Math.max(...imagValues)
+    if (mode === "polar") {
+      const project = drawPolarChart({
+        ctx,
+        width,
+        height,
+        complexNumbers,
+        mean,
+        selection,
+        color,
+        series,
+        format: numberFormat,
+      })
+      drawLegend()
+      return project
+    }
+    if (mode === "magnitudePhase") {
+      const project = drawMagnitudePhase(
+        { ctx, width, height, complexNumbers, mean, selection, color, series, format: numberFormat },
+        { decibels, unwrap },
+      )
+      drawLegend()
+      return project
+    }
+    if (mode === "spectrum") {
+      if (!spectrum) return null
+      return drawSpectrum({ ctx, width, height, complexNumbers, color, format: numberFormat }, spectrum, {
+        decibels,
+        peaks: spectrum.peaks,
+      })
+    }
 
-    // Add some padding to bounds
-    const realRange = maxReal - minReal || 1
-    const imagRange = maxImag - minImag || 1
-    const realPadding = realRange * 0.1
-    const imagPadding = imagRange * 0.1
+    // Overlay ellipses in data coordinates
+    const sigmaEllipses: Array<{ k: number; ellipse: Ellipse }> = []
+    let meanRegion: Ellipse | null = null
+    if (mean && covariance && mode === "cartesian") {
+      for (const k of [1, 2, 3]) {
+        if (overlays[`sigma${k}` as OverlayKey]) {
+          sigmaEllipses.push({ k, ellipse: covarianceEllipse(mean, covariance, k) })
+        }
+      }
+      if (overlays.meanRegion && complexNumbers.length > 1) {
+        // Covariance of the sample mean, with the n/(n-1) correction folded in
+        const n = complexNumbers.length
+        const meanCovariance = covariance.map((row) => row.map((value) => value / (n - 1))) as Matrix2
+        meanRegion = covarianceEllipse(mean, meanCovariance, chiSquare2Radius(MEAN_CONFIDENCE))
+      }
+    }
 
-    const plotMinReal = minReal - realPadding
-    const plotMaxReal = maxReal + realPadding
-    const plotMinImag = minImag - imagPadding
-    const plotMaxImag = maxImag + imagPadding
+    const { minReal: plotMinReal, maxReal: plotMaxReal, minImag: plotMinImag, maxImag: plotMaxImag } = currentView
 
     // Coordinate transformation functions
-    const realToX = (real: number) =>
-      padding + ((real - plotMinReal) / (plotMaxReal - plotMinReal)) * (width - 2 * padding)
+    const { realToX, imagToY, xToReal, yToImag } = makeTransform(currentView, width, height)
+    const toData = (x: number, y: number) => ({ real: xToReal(x), imag: yToImag(y) })
+    const plotArea = { x: padding, y: padding, width: width - 2 * padding, height: height - 2 * padding }
 
-    const imagToY = (imag: number) =>
-      height - padding - ((imag - plotMinImag) / (plotMaxImag - plotMinImag)) * (height - 2 * padding)
+    // f(z) beneath the grid, so that the grid still reads on top of the colours
+    if (mode === "domain" && domainFunction) {
+      drawDomainColoring(ctx, plotArea, toData, domainFunction, { modulusContours, phaseContours })
+    }
 
     // Draw grid
     ctx.strokeStyle = "#e5e7eb"
@@ -114,38 +646,272 @@ export default function ComplexPlot({ complexNumbers, mean }: ComplexPlotProps)
       ctx.stroke()
     }
 
-    // Draw axis labels
+    // Draw axis labels, pinned to the plot edge when an axis is scrolled out of view
+    const labelY = Math.min(Math.max(realAxisY, padding), height - padding)
+    const labelX = Math.min(Math.max(imagAxisX, padding), width - padding)
     ctx.fillStyle = "#374151"
     ctx.font = "12px sans-serif"
     ctx.textAlign = "center"
-    ctx.fillText("Real", width - 20, realAxisY - 5)
+    ctx.fillText("Real", width - 20, labelY - 5)
     ctx.save()
-    ctx.translate(imagAxisX + 20, 30)
+    ctx.translate(labelX + 20, 30)
     ctx.rotate(-Math.PI / 2)
     ctx.fillText("Imaginary", 0, 0)
     ctx.restore()
 
-    // Draw complex numbers as points
-    complexNumbers.forEach((num) => {
-      const x = realToX(num.real)
-      const y = imagToY(num.imag)
+    // Everything in data coordinates is clipped to the plot area
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(padding, padding, width - 2 * padding, height - 2 * padding)
+    ctx.clip()
+
+    // Constellation decision regions beneath everything drawn from the data
+    if (mode === "cartesian" && idealSymbols && idealSymbols.length > 0) {
+      drawDecisionRegions(ctx, plotArea, toData, idealSymbols)
+    }
 
-      // Point
-      ctx.fillStyle = "#3b82f6"
+    if (unitCircle) {
+      ctx.strokeStyle = "#6b7280"
+      ctx.lineWidth = 1
+      ctx.setLineDash([4, 4])
       ctx.beginPath()
-      ctx.arc(x, y, 4, 0, 2 * Math.PI)
-      ctx.fill()
+      ctx.ellipse(realToX(0), imagToY(0), realToX(1) - realToX(0), imagToY(0) - imagToY(1), 0, 0, 2 * Math.PI)
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
 
-      // Point border
-      ctx.strokeStyle = "#1e40af"
+    if (showDiscs && discs) {
+      ctx.fillStyle = "rgba(20, 184, 166, 0.08)"
+      ctx.strokeStyle = "#0d9488"
       ctx.lineWidth = 1
+      for (const { center, radius } of discs) {
+        ctx.beginPath()
+        ctx.ellipse(
+          realToX(center.real),
+          imagToY(center.imag),
+          Math.max(realToX(radius) - realToX(0), 0.5),
+          Math.max(imagToY(0) - imagToY(radius), 0.5),
+          0,
+          0,
+          2 * Math.PI,
+        )
+        ctx.fill()
+        ctx.stroke()
+      }
+    }
+
+    if (links && links.length > 0) {
+      drawLinks(ctx, links, (num) => ({ x: realToX(num.real), y: imagToY(num.imag) }))
+    }
+
+    // Comparison datasets beneath the primary one
+    for (const other of series) {
+      drawSeriesPoints(ctx, width, height, other, (num) => ({ x: realToX(num.real), y: imagToY(num.imag) }))
+    }
+
+    // Draw complex numbers as a count heatmap, or as points
+    let heatmapMax: number | null = null
+    if (mode === "cartesian" && pointStyle === "density") {
+      // Rows follow the aspect ratio so that cells are square on screen
+      const rows = Math.max(1, Math.round((bins * plotArea.height) / plotArea.width))
+      const histogram = histogram2d(complexNumbers, currentView, bins, rows)
+      drawHeatmap(ctx, histogram, plotArea, colormap, densityScale)
+      heatmapMax = histogram.max
+    } else if (trajectory) {
+      drawTrajectory(ctx, complexNumbers, (num) => ({ x: realToX(num.real), y: imagToY(num.imag) }), {
+        colormap,
+        count: shownCount,
+        windowStart,
+      })
+      ctx.strokeStyle = EXCLUDED_COLOR
+      ctx.lineWidth = 1.5
+      ctx.beginPath()
+      excluded?.forEach((index) => {
+        if (index >= shownCount) return
+        const x = realToX(complexNumbers[index].real)
+        const y = imagToY(complexNumbers[index].imag)
+        ctx.moveTo(x + 4, y)
+        ctx.arc(x, y, 4, 0, 2 * Math.PI)
+      })
       ctx.stroke()
+    } else if (complexNumbers.length > LARGE_DATA_THRESHOLD) {
+      const position = (index: number) => ({ x: realToX(complexNumbers[index].real), y: imagToY(complexNumbers[index].imag) })
+      rasterizePoints(
+        ctx,
+        width,
+        height,
+        complexNumbers.length,
+        position,
+        (index) => (selection?.has(index) ?? false) || (excluded?.has(index) ?? false),
+        color,
+      )
+      if (excluded && excluded.size > 0) {
+        const indices = [...excluded]
+        rasterizePoints(ctx, width, height, indices.length, (i) => position(indices[i]), undefined, EXCLUDED_COLOR)
+      }
+    } else {
+      complexNumbers.forEach((num, index) => {
+        if (selection?.has(index)) return
+        const x = realToX(num.real)
+        const y = imagToY(num.imag)
+        if (excluded?.has(index)) {
+          ctx.strokeStyle = EXCLUDED_COLOR
+          ctx.lineWidth = 1.5
+          ctx.beginPath()
+          ctx.arc(x, y, 4, 0, 2 * Math.PI)
+          ctx.stroke()
+          return
+        }
+        const kind = rootKinds?.[index]
+        if (kind) {
+          drawRootMarker(ctx, { x, y }, kind, color)
+          return
+        }
+
+        // Point
+        ctx.fillStyle = color
+        ctx.beginPath()
+        ctx.arc(x, y, 4, 0, 2 * Math.PI)
+        ctx.fill()
+
+        // Point border
+        ctx.strokeStyle = darken(color)
+        ctx.lineWidth = 1
+        ctx.stroke()
+      })
+    }
+
+    // Outliers ringed, or for large data overdrawn, on top of the points
+    if (mode === "cartesian" && flagged && flagged.size > 0) {
+      if (flagged.size > LARGE_DATA_THRESHOLD) {
+        const indices = [...flagged]
+        rasterizePoints(
+          ctx,
+          width,
+          height,
+          indices.length,
+          (i) => ({ x: realToX(complexNumbers[indices[i]].real), y: imagToY(complexNumbers[indices[i]].imag) }),
+          undefined,
+          OUTLIER_COLOR,
+        )
+      } else {
+        ctx.strokeStyle = OUTLIER_COLOR
+        ctx.lineWidth = 1.5
+        ctx.beginPath()
+        flagged.forEach((index) => {
+          const num = complexNumbers[index]
+          if (!num) return
+          const x = realToX(num.real)
+          const y = imagToY(num.imag)
+          ctx.moveTo(x + 7, y)
+          ctx.arc(x, y, 7, 0, 2 * Math.PI)
+        })
+        ctx.stroke()
+      }
+    }
+
+    // Selected points on top of the rest
+    selection?.forEach((index) => {
+      const num = complexNumbers[index]
+      if (!num) return
+      ctx.fillStyle = "#f59e0b"
+      ctx.beginPath()
+      ctx.arc(realToX(num.real), imagToY(num.imag), 5, 0, 2 * Math.PI)
+      ctx.fill()
+      ctx.strokeStyle = "#b45309"
+      ctx.lineWidth = 1.5
+      ctx.stroke()
+    })
+
+    if (mode === "cartesian" && idealSymbols) {
+      drawIdealPoints(ctx, idealSymbols.map((symbol) => ({ x: realToX(symbol.real), y: imagToY(symbol.imag) })))
+    }
+
+    // Draw kernel density contours
+    if (mode === "cartesian" && contours && covariance && complexNumbers.length > 1) {
+      const bandwidth: [number, number] = [
+        scottBandwidth(Math.sqrt(covariance[0][0]), complexNumbers.length),
+        scottBandwidth(Math.sqrt(covariance[1][1]), complexNumbers.length),
+      ]
+      const density = kernelDensity(complexNumbers, currentView, bandwidth)
+      ctx.strokeStyle = CONTOUR_COLOR
+      ctx.lineWidth = 1.25
+      ctx.beginPath()
+      for (const level of CONTOUR_LEVELS) {
+        for (const [from, to] of contourSegments(density, level * density.max)) {
+          ctx.moveTo(realToX(from.real), imagToY(from.imag))
+          ctx.lineTo(realToX(to.real), imagToY(to.imag))
+        }
+      }
+      ctx.stroke()
+    }
+
+    // Draw confidence ellipses
+    const strokePath = (points: ComplexNumber[]) => {
+      ctx.beginPath()
+      points.forEach((point, index) => {
+        const x = realToX(point.real)
+        const y = imagToY(point.imag)
+        if (index === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      })
+      ctx.stroke()
+    }
+
+    ctx.font = "11px sans-serif"
+    ctx.textAlign = "left"
+    sigmaEllipses.forEach(({ k, ellipse }) => {
+      const color = SIGMA_COLORS[k - 1]
+      ctx.strokeStyle = color
+      ctx.lineWidth = 1.5
+      ctx.setLineDash([6, 4])
+      const points = ellipsePoints(ellipse)
+      strokePath(points)
+      ctx.setLineDash([])
+
+      // Label at the topmost point of the outline
+      const top = points.reduce((best, point) => (point.imag > best.imag ? point : best), points[0])
+      ctx.fillStyle = color
+      ctx.fillText(`${k}σ`, realToX(top.real) + 4, imagToY(top.imag) - 4)
     })
 
-    // Draw mean if provided
-    if (mean) {
-      const meanX = realToX(mean.real)
-      const meanY = imagToY(mean.imag)
+    // Draw principal axes through the mean, out to 3σ
+    if (overlays.axes && mean && covariance) {
+      const { eigenvalues, angle } = principalAxes(covariance)
+      ctx.strokeStyle = "#059669"
+      ctx.lineWidth = 1.5
+      eigenvalues.forEach((eigenvalue, index) => {
+        const direction = angle + (index * Math.PI) / 2
+        const length = 3 * Math.sqrt(eigenvalue)
+        const dx = length * Math.cos(direction)
+        const dy = length * Math.sin(direction)
+        strokePath([
+          { real: mean.real - dx, imag: mean.imag - dy },
+          { real: mean.real + dx, imag: mean.imag + dy },
+        ])
+      })
+    }
+
+    // Draw confidence region of the mean
+    if (meanRegion) {
+      const points = ellipsePoints(meanRegion)
+      ctx.fillStyle = "rgba(239, 68, 68, 0.15)"
+      ctx.strokeStyle = "#ef4444"
+      ctx.lineWidth = 1
+      strokePath(points)
+      ctx.fill()
+    }
+
+    // Means of the comparison datasets
+    for (const other of series) {
+      if (other.mean) drawSeriesMean(ctx, { x: realToX(other.mean.real), y: imagToY(other.mean.imag) }, other.color)
+    }
+
+    // Draw mean if provided; a trajectory shows the mean of the samples played so far
+    const shownMean = trajectory ? running?.mean : mean
+    if (shownMean) {
+      const meanX = realToX(shownMean.real)
+      const meanY = imagToY(shownMean.imag)
 
       // Mean point (larger, different color)
       ctx.fillStyle = "#ef4444"
@@ -164,6 +930,14 @@ export default function ComplexPlot({ complexNumbers, mean }: ComplexPlotProps)
       ctx.fillText("Mean", meanX + 10, meanY - 10)
     }
 
+    ctx.restore()
+
+    if (heatmapMax !== null) drawColorbar(ctx, width - padding, padding, heatmapMax, colormap, densityScale)
+    if (trajectory && complexNumbers.length > 0) {
+      drawIndexColorbar(ctx, width - padding, padding, complexNumbers.length, colormap)
+    }
+    drawLegend()
+
     // Draw scale labels
     ctx.fillStyle = "#6b7280"
     ctx.font = "10px sans-serif"
@@ -173,7 +947,7 @@ export default function ComplexPlot({ complexNumbers, mean }: ComplexPlotProps)
     for (let i = 0; i <= 10; i += 2) {
       const real = plotMinReal + i * realStep
       const x = realToX(real)
-      ctx.fillText(real.toFixed(1), x, height - 10)
+      ctx.fillText(formatTick(real, 2 * realStep, numberFormat), x, height - 10)
     }
 
     // Imaginary axis labels
@@ -181,11 +955,158 @@ export default function ComplexPlot({ complexNumbers, mean }: ComplexPlotProps)
     for (let i = 0; i <= 10; i += 2) {
       const imag = plotMinImag + i * imagStep
       const y = imagToY(imag)
-      if (Math.abs(imag) > 0.01) {
-        ctx.fillText(imag.toFixed(1) + "i", padding - 5, y + 3)
+      // Zero, up to rounding in the step sum, is left to the real axis labels
+      if (Math.abs(imag) > 1e-9 * imagStep) {
+        ctx.fillText(formatTick(imag, 2 * imagStep, numberFormat) + numberFormat.imaginaryUnit, padding - 5, y + 3)
       }
     }
-  }, [complexNumbers, mean])
+
+    // Samples a trajectory has not reached yet cannot be hovered or selected
+    return (num, index) => (trajectory && index >= shownCount ? [] : [{ x: realToX(num.real), y: imagToY(num.imag) }])
+  }
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Set canvas size
+    const rect = canvas.getBoundingClientRect()
+    canvas.width = rect.width * window.devicePixelRatio
+    canvas.height = rect.height * window.devicePixelRatio
+    ctx.scale(window.devicePixelRatio, window.devicePixelRatio)
+
+    projectRef.current = renderPlot(ctx, rect.width, rect.height)
+    gridRef.current = null
+  }, [
+    complexNumbers,
+    mean,
+    covariance,
+    overlays,
+    currentView,
+    selection,
+    mode,
+    decibels,
+    unwrap,
+    spectrum,
+    pointStyle,
+    bins,
+    densityScale,
+    colormap,
+    contours,
+    name,
+    color,
+    series,
+    idealSymbols,
+    links,
+    domainFunction,
+    modulusContours,
+    phaseContours,
+    rootKinds,
+    unitCircle,
+    discs,
+    showDiscs,
+    excluded,
+    flagged,
+    numberFormat,
+    shownCount,
+    windowStart,
+  ])
+
+  // Wheel zoom around the cursor. React's onWheel is passive, so the listener
+  // is attached by hand to be able to stop the page from scrolling.
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !currentView || !isPlanar(mode)) return
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = canvas.getBoundingClientRect()
+      const { xToReal, yToImag } = makeTransform(currentView, rect.width, rect.height)
+      const anchor = { real: xToReal(e.clientX - rect.left), imag: yToImag(e.clientY - rect.top) }
+      setView(zoomView(currentView, anchor, Math.exp(e.deltaY * ZOOM_SENSITIVITY)))
+    }
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false })
+    return () => canvas.removeEventListener("wheel", handleWheel)
+  }, [currentView, mode])
+
+  const pointerPosition = (e: MouseEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const pointGrid = (): PointGrid | null => {
+    const project = projectRef.current
+    const canvas = canvasRef.current
+    if (!project || !canvas) return null
+    if (!gridRef.current) {
+      const rect = canvas.getBoundingClientRect()
+      gridRef.current = new PointGrid(project, complexNumbers, rect.width, rect.height)
+    }
+    return gridRef.current
+  }
+
+  /** Index and pixel position of the closest point within the hover radius */
+  const nearestPoint = (position: Point): { index: number; position: Point } | null =>
+    pointGrid()?.nearest(position, HOVER_RADIUS) ?? null
+
+  const handleMouseDown = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (!currentView || e.button !== 0) return
+    const start = pointerPosition(e)
+    dragRef.current = { start, startView: currentView, moved: false, path: [start] }
+  }
+
+  const handleMouseMove = (e: MouseEvent<HTMLCanvasElement>) => {
+    const position = pointerPosition(e)
+    const drag = dragRef.current
+
+    if (!drag) {
+      setHover(nearestPoint(position))
+      return
+    }
+
+    if (!drag.moved && Math.hypot(position.x - drag.start.x, position.y - drag.start.y) < CLICK_TOLERANCE) return
+    drag.moved = true
+    setHover(null)
+
+    if (tool === "pan") {
+      if (!isPlanar(mode)) return
+      const rect = e.currentTarget.getBoundingClientRect()
+      setView(panView(drag.startView, position.x - drag.start.x, position.y - drag.start.y, rect.width, rect.height))
+    } else if (tool === "box") {
+      const { start } = drag
+      drag.path = [start, { x: position.x, y: start.y }, position, { x: start.x, y: position.y }]
+      setDragPath(drag.path)
+    } else {
+      drag.path = [...drag.path, position]
+      setDragPath(drag.path)
+    }
+  }
+
+  const handleMouseUp = (e: MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    setDragPath(null)
+    if (!drag || !onSelectionChange) return
+
+    // A click selects the point under the cursor, or clears the selection
+    if (!drag.moved) {
+      const nearest = nearestPoint(pointerPosition(e))
+      onSelectionChange(new Set(nearest ? [nearest.index] : []))
+      return
+    }
+    if (tool === "pan" || drag.path.length < 3) return
+
+    const grid = pointGrid()
+    if (!grid) return
+    onSelectionChange(grid.inPolygon(drag.path, pointInPolygon))
+  }
+
+  const plotFileName = (extension: string) =>
+    `${mode === "domain" ? "domain_coloring" : "complex_plot"}_${dateStamp()}.${extension}`
 
   const exportPNG = () => {
     const canvas = canvasRef.current
@@ -193,7 +1114,7 @@ export default function ComplexPlot({ complexNumbers, mean }: ComplexPlotProps)
 
     try {
       const link = document.createElement("a")
-      link.download = `complex_plot_${new Date().toISOString().slice(0, 10)}.png`
+      link.download = plotFileName("png")
       link.href = canvas.toDataURL("image/png")
       link.click()
 
@@ -203,17 +1124,534 @@ export default function ComplexPlot({ complexNumbers, mean }: ComplexPlotProps)
     }
   }
 
+  const exportSpectrum = () => {
+    if (!spectrum) return
+    // Decibels floored as on the plot; a phase masked below the floor is left empty
+    const decibels = magnitudeToDecibels(spectrum.magnitudes)
+    const rows = spectrum.frequencies.map((frequency, index) => {
+      const phase = spectrum.phases[index]
+      return [frequency, spectrum.magnitudes[index], decibels[index], Number.isNaN(phase) ? "" : phase].join(",")
+    })
+    const csv = ["frequency_hz,magnitude,magnitude_db,phase_rad", ...rows].join("\n")
+    downloadBlob(new Blob([csv], { type: "text/csv" }), `spectrum_${dateStamp()}.csv`)
+    toast.success("频谱数据已下载")
+  }
+
+  const openExportOptions = () => {
+    if (exportOptions) {
+      setExportOptions(null)
+      return
+    }
+    // Starts from the size the plot has on screen
+    const rect = canvasRef.current?.getBoundingClientRect()
+    const toMm = (pixels: number) => Math.round((pixels / CSS_DPI) * 25.4)
+    setExportOptions({ widthMm: toMm(rect?.width ?? 800), heightMm: toMm(rect?.height ?? 600), dpi: 300 })
+  }
+
+  /** Plot size in CSS pixels and the device pixels per CSS pixel of an export */
+  const exportGeometry = ({ widthMm, heightMm, dpi }: ExportOptions) => {
+    const width = (widthMm / 25.4) * CSS_DPI
+    const height = (heightMm / 25.4) * CSS_DPI
+    const scale = dpi / CSS_DPI
+    return { width, height, scale, pixels: width * height * scale * scale }
+  }
+
+  const exportSized = async (kind: "png" | "svg" | "pdf") => {
+    if (!exportOptions) return
+    const { width, height, scale, pixels } = exportGeometry(exportOptions)
+    if (pixels > MAX_EXPORT_PIXELS) {
+      toast.error("尺寸与 DPI 过大，请减小后重试")
+      return
+    }
+
+    try {
+      if (kind === "png") {
+        const canvas = document.createElement("canvas")
+        canvas.width = Math.round(width * scale)
+        canvas.height = Math.round(height * scale)
+        const ctx = canvas.getContext("2d")
+        if (!ctx) throw new Error("无法创建画布")
+        ctx.scale(scale, scale)
+        renderPlot(ctx, width, height)
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+        if (!blob) throw new Error("无法编码 PNG")
+        downloadBlob(blob, plotFileName("png"))
+      } else {
+        const context = new VectorContext(width * scale, height * scale)
+        context.scale(scale, scale)
+        renderPlot(context, width, height)
+        const blob =
+          kind === "svg"
+            ? new Blob([toSvg(context, exportOptions)], { type: "image/svg+xml" })
+            : await toPdf(context, exportOptions)
+        downloadBlob(blob, plotFileName(kind))
+      }
+      toast.success(`${kind.toUpperCase()} 已下载`)
+    } catch (error) {
+      toast.error(`导出失败：${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const hoverSource = hover ? sources?.[hover.index] : undefined
+
+  // Shared by the density heatmap and the trajectory
+  const colormapSelect = (
+    <label className="flex items-center gap-1">
+      色图
+      <select value={colormap} onChange={(e) => setColormap(e.target.value as ColormapName)} className={selectClassName}>
+        {COLORMAPS.map(({ key, label }) => (
+          <option key={key} value={key}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
-        <div className="text-sm text-gray-600">数据点: {complexNumbers.length} 个</div>
-        <Button variant="outline" size="sm" onClick={exportPNG} className="flex items-center gap-2">
-          <Download className="h-4 w-4" />
-          导出PNG
-        </Button>
+        <div className="flex items-center gap-3 text-sm text-gray-600">
+          <span>数据点: {complexNumbers.length} 个</span>
+          {selection && selection.size > 0 && <span className="text-amber-600">已选 {selection.size} 个</span>}
+          {mode === "spectrum" && spectrum && spectrum.peaks.length > 0 && (
+            <span className="font-mono text-xs">峰值: {spectrum.peaks.map((peak) => formatFrequency(peak.frequency)).join(", ")}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1">
+            {MODES.filter(({ key }) => key !== "domain" || domainFunction !== undefined).map(({ key, label }) => (
+              <Button
+                key={key}
+                variant={mode === key ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setMode(key)
+                  // Panning only applies to the views of the complex plane
+                  if (!isPlanar(key) && tool === "pan") setTool("box")
+                }}
+                className="h-8 px-2 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={exportPNG} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            导出PNG
+          </Button>
+          <Button
+            variant={exportOptions ? "default" : "outline"}
+            size="sm"
+            onClick={openExportOptions}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            按尺寸导出
+          </Button>
+          {mode === "spectrum" && (
+            <Button variant="outline" size="sm" onClick={exportSpectrum} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              导出频谱CSV
+            </Button>
+          )}
+        </div>
       </div>
-      <div className="w-full h-[600px] bg-gray-50 rounded-lg overflow-hidden">
-        <canvas ref={canvasRef} className="w-full h-full" style={{ width: "100%", height: "100%" }} />
+      {exportOptions && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          {(["widthMm", "heightMm"] as const).map((key) => (
+            <label key={key} className="flex items-center gap-1">
+              {key === "widthMm" ? "宽" : "高"}
+              <input
+                type="number"
+                min={10}
+                max={2000}
+                value={exportOptions[key]}
+                onChange={(e) => {
+                  const value = Number(e.target.value)
+                  if (value > 0) setExportOptions({ ...exportOptions, [key]: value })
+                }}
+                className="h-7 w-16 rounded-md border border-input bg-background px-2 text-xs"
+              />
+              mm
+            </label>
+          ))}
+          <label className="flex items-center gap-1">
+            DPI
+            <select
+              value={exportOptions.dpi}
+              onChange={(e) => setExportOptions({ ...exportOptions, dpi: Number(e.target.value) })}
+              className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+            >
+              {EXPORT_DPIS.map((dpi) => (
+                <option key={dpi} value={dpi}>
+                  {dpi}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span className="text-gray-500">
+            {(() => {
+              const { width, height, scale } = exportGeometry(exportOptions)
+              return `${Math.round(width * scale)} × ${Math.round(height * scale)} 像素`
+            })()}
+          </span>
+          {(["png", "svg", "pdf"] as const).map((kind) => (
+            <Button key={kind} variant="outline" size="sm" onClick={() => exportSized(kind)} className="h-7 px-2 text-xs">
+              {kind.toUpperCase()}
+            </Button>
+          ))}
+          <span className="text-gray-500">SVG/PDF 中的线条与文字为矢量，热图与域着色按 DPI 嵌入位图</span>
+        </div>
+      )}
+      <div className="flex justify-between items-center gap-2">
+        <div className="flex items-center gap-1">
+          {TOOLS.filter(({ key }) => mode !== "spectrum" && (isPlanar(mode) || key !== "pan")).map(({ key, label, icon: Icon }) => (
+            <Button
+              key={key}
+              variant={tool === key ? "default" : "outline"}
+              size="sm"
+              title={label}
+              onClick={() => setTool(key)}
+              className="h-8 px-2 text-xs"
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+          {isPlanar(mode) && (
+            <Button variant="outline" size="sm" title="重置视图" onClick={() => setView(null)} className="h-8 px-2 text-xs">
+              <RotateCcw className="h-4 w-4" />
+              重置视图
+            </Button>
+          )}
+          {isPlanar(mode) && (
+            <Button
+              variant={unitCircle ? "default" : "outline"}
+              size="sm"
+              title="|z| = 1"
+              onClick={() => setUnitCircle(!unitCircle)}
+              className="h-8 px-2 text-xs"
+            >
+              单位圆
+            </Button>
+          )}
+          {isPlanar(mode) && discs && (
+            <Button
+              variant={showDiscs ? "default" : "outline"}
+              size="sm"
+              title="每行的对角元为圆心、其余元素模之和为半径；特征值都落在这些圆盘的并集内"
+              onClick={() => setShowDiscs(!showDiscs)}
+              className="h-8 px-2 text-xs"
+            >
+              Gershgorin 圆盘
+            </Button>
+          )}
+        </div>
+        {mode === "cartesian" && mean && covariance && (
+          <div className="flex items-center gap-1">
+            {OVERLAYS.map(({ key, label, title }) => (
+              <Button
+                key={key}
+                variant={overlays[key] ? "default" : "outline"}
+                size="sm"
+                title={title}
+                onClick={() => toggleOverlay(key)}
+                className="h-8 px-2 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        )}
+        {mode === "spectrum" && (
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            <label className="flex items-center gap-1">
+              采样率
+              <input
+                type="number"
+                min={0}
+                value={sampleRate}
+                onChange={(e) => setSampleRate(e.target.value)}
+                className="h-8 w-24 rounded-md border border-input bg-background px-2 text-xs"
+              />
+              Hz
+            </label>
+            <label className="flex items-center gap-1">
+              窗函数
+              <select
+                value={spectralWindow}
+                onChange={(e) => setSpectralWindow(e.target.value as WindowKind)}
+                className={selectClassName}
+              >
+                {WINDOWS.map(({ key, label }) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              补零
+              <select value={padFactor} onChange={(e) => setPadFactor(Number(e.target.value))} className={selectClassName}>
+                {PAD_FACTORS.map((factor) => (
+                  <option key={factor} value={factor}>
+                    {factor}×
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button
+              variant={shift ? "default" : "outline"}
+              size="sm"
+              title="把零频移到中间，负频率在左"
+              onClick={() => setShift(!shift)}
+              className="h-8 px-2 text-xs"
+            >
+              fftshift
+            </Button>
+            <Button
+              variant={decibels ? "default" : "outline"}
+              size="sm"
+              onClick={() => setDecibels(!decibels)}
+              className="h-8 px-2 text-xs"
+            >
+              dB 幅度
+            </Button>
+          </div>
+        )}
+        {mode === "domain" && (
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            {domainFunction ? (
+              <span>色相为 arg f(z)，亮度为 |f(z)|：零点黑，极点白</span>
+            ) : (
+              <span className="text-red-600">f(z) 表达式有误，请在函数变换中修改</span>
+            )}
+            <Button
+              variant={modulusContours ? "default" : "outline"}
+              size="sm"
+              title="|f(z)| 为 2 的整数次幂处"
+              onClick={() => setModulusContours(!modulusContours)}
+              className="h-8 px-2 text-xs"
+            >
+              模等高线
+            </Button>
+            <Button
+              variant={phaseContours ? "default" : "outline"}
+              size="sm"
+              title="arg f(z) 为 30° 整数倍处"
+              onClick={() => setPhaseContours(!phaseContours)}
+              className="h-8 px-2 text-xs"
+            >
+              辐角等高线
+            </Button>
+          </div>
+        )}
+        {mode === "magnitudePhase" && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant={decibels ? "default" : "outline"}
+              size="sm"
+              onClick={() => setDecibels(!decibels)}
+              className="h-8 px-2 text-xs"
+            >
+              dB 幅度
+            </Button>
+            <Button
+              variant={unwrap ? "default" : "outline"}
+              size="sm"
+              onClick={() => setUnwrap(!unwrap)}
+              className="h-8 px-2 text-xs"
+            >
+              相位展开
+            </Button>
+          </div>
+        )}
+      </div>
+      {mode === "cartesian" && (
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <div className="flex items-center gap-1">
+            <Button
+              variant={pointStyle === "scatter" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setPointStyle("scatter")}
+              className="h-8 px-2 text-xs"
+            >
+              散点
+            </Button>
+            <Button
+              variant={pointStyle === "density" ? "default" : "outline"}
+              size="sm"
+              title="按网格统计点数的二维直方图"
+              onClick={() => setPointStyle("density")}
+              className="h-8 px-2 text-xs"
+            >
+              密度图
+            </Button>
+            <Button
+              variant={pointStyle === "trajectory" ? "default" : "outline"}
+              size="sm"
+              title="按输入顺序连线，颜色表示序号，可逐点播放"
+              onClick={() => setPointStyle("trajectory")}
+              className="h-8 px-2 text-xs"
+            >
+              轨迹
+            </Button>
+          </div>
+          {pointStyle === "trajectory" && (
+            <>
+              {colormapSelect}
+              <label className="flex items-center gap-1" title="只统计最近 N 个点，更早的点淡化显示；0 为从起点累计">
+                窗口
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={windowSize}
+                  onChange={(e) => {
+                    const value = Math.floor(Number(e.target.value))
+                    if (value >= 0) setWindowSize(value)
+                  }}
+                  className="h-8 w-20 rounded-md border border-input bg-background px-2 text-xs"
+                />
+                点
+              </label>
+              <label className="flex items-center gap-1">
+                速度
+                <select
+                  value={playbackSpeed}
+                  onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+                  className={selectClassName}
+                >
+                  {PLAYBACK_SPEEDS.map((speed) => (
+                    <option key={speed} value={speed}>
+                      {speed} 点/秒
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          {pointStyle === "density" && (
+            <>
+              <label className="flex items-center gap-1">
+                网格
+                <select value={bins} onChange={(e) => setBins(Number(e.target.value))} className={selectClassName}>
+                  {BIN_COUNTS.map((count) => (
+                    <option key={count} value={count}>
+                      {count} 列
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant={densityScale === "linear" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setDensityScale("linear")}
+                  className="h-8 px-2 text-xs"
+                >
+                  线性
+                </Button>
+                <Button
+                  variant={densityScale === "log" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setDensityScale("log")}
+                  className="h-8 px-2 text-xs"
+                >
+                  对数
+                </Button>
+              </div>
+              {colormapSelect}
+            </>
+          )}
+          {covariance && (
+            <Button
+              variant={contours ? "default" : "outline"}
+              size="sm"
+              title="核密度估计（Scott 带宽）在峰值 20%/40%/60%/80% 处的等高线"
+              onClick={() => setContours(!contours)}
+              className="h-8 px-2 text-xs"
+            >
+              密度等高线
+            </Button>
+          )}
+        </div>
+      )}
+      {trajectory && complexNumbers.length > 1 && (
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          <Button variant="outline" size="sm" onClick={togglePlayback} className="h-8 px-2 text-xs">
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            {playing ? "暂停" : "播放"}
+          </Button>
+          <input
+            type="range"
+            min={1}
+            max={complexNumbers.length}
+            value={shownCount}
+            onChange={(e) => scrub(Number(e.target.value))}
+            className="flex-1"
+          />
+          <span className="font-mono w-24 text-right">
+            {shownCount} / {complexNumbers.length}
+          </span>
+          {running && (
+            <span className="font-mono text-blue-900 whitespace-nowrap">
+              <span className="font-sans text-gray-600">{windowSize > 0 ? `最近 ${running.count} 点` : `前 ${running.count} 点`}</span>{" "}
+              均值 {formatComplexNumber(running.mean, numberFormat)} · 方差 {formatReal(running.variance, numberFormat)}
+            </span>
+          )}
+        </div>
+      )}
+      <div className="relative w-full h-[600px] bg-gray-50 rounded-lg overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          className={`w-full h-full ${tool === "pan" && isPlanar(mode) ? "cursor-grab active:cursor-grabbing" : "cursor-crosshair"}`}
+          style={{ width: "100%", height: "100%" }}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => {
+            dragRef.current = null
+            setDragPath(null)
+            setHover(null)
+          }}
+        />
+
+        {dragPath && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none">
+            <polygon
+              points={dragPath.map((point) => `${point.x},${point.y}`).join(" ")}
+              fill="rgba(245, 158, 11, 0.12)"
+              stroke="#f59e0b"
+              strokeDasharray="4 3"
+            />
+          </svg>
+        )}
+
+        {hover && (
+          <>
+            <div
+              className="absolute h-3.5 w-3.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-amber-500 pointer-events-none"
+              style={{ left: hover.position.x, top: hover.position.y }}
+            />
+            <div
+              className="absolute z-10 rounded-md bg-gray-900/90 px-2 py-1 text-xs text-white shadow-lg pointer-events-none whitespace-nowrap"
+              style={{ left: hover.position.x + 12, top: hover.position.y + 12 }}
+            >
+              <div className="font-mono">{formatComplexNumber(complexNumbers[hover.index], numberFormat)}</div>
+              <div className="text-gray-300">
+                #{hover.index + 1}
+                {hoverSource && ` · 第 ${hoverSource.line} 行第 ${hoverSource.column} 列`}
+              </div>
+              {(excluded?.has(hover.index) || flagged?.has(hover.index)) && (
+                <div className="text-red-300">
+                  {[flagged?.has(hover.index) && "异常值", excluded?.has(hover.index) && "已排除"].filter(Boolean).join(" · ")}
+                </div>
+              )}
+            </div>
+          </>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,173 @@
+import { Button } from "./ui/button"
+import { Textarea } from "./ui/textarea"
+import type { ComplexNumber } from "../lib/complex"
+import { CONSTELLATIONS, type ConstellationAnalysis, type ConstellationKind } from "../lib/constellation"
+import { type NumberFormat, formatAngle, formatComplexNumber, formatReal } from "../lib/format"
+
+export interface ConstellationSettings {
+  enabled: boolean
+  kind: ConstellationKind
+  /** Point list for the custom constellation, in any input format */
+  customPoints: string
+  correct: boolean
+  /** Series holding the known transmitted symbols */
+  transmittedId: number | null
+}
+
+export const defaultConstellationSettings: ConstellationSettings = {
+  enabled: false,
+  kind: "qpsk",
+  customPoints: "",
+  correct: true,
+  transmittedId: null,
+}
+
+interface ConstellationPanelProps {
+  settings: ConstellationSettings
+  onChange: (patch: Partial<ConstellationSettings>) => void
+  /** Other analysed series that can serve as the transmitted sequence */
+  candidates: Array<{ id: number; name: string; count: number }>
+  sampleCount: number
+  result: { symbols: ComplexNumber[]; analysis: ConstellationAnalysis } | null
+  numberFormat: NumberFormat
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`
+const decibels = (fraction: number) => `${(20 * Math.log10(fraction)).toFixed(2)} dB`
+
+/**
+ * Reference constellation choice and the resulting error metrics for the
+ * active series. The decision regions themselves are drawn by ComplexPlot.
+ */
+export default function ConstellationPanel({
+  settings,
+  onChange,
+  candidates,
+  sampleCount,
+  result,
+  numberFormat,
+}: ConstellationPanelProps) {
+  const transmitted = candidates.find((candidate) => candidate.id === settings.transmittedId)
+  const analysis = result?.analysis
+
+  const metrics: Array<[string, string]> = analysis
+    ? [
+        ["增益", formatReal(Math.hypot(analysis.gain.real, analysis.gain.imag), numberFormat)],
+        ["相位偏移", formatAngle(Math.atan2(analysis.gain.imag, analysis.gain.real), numberFormat)],
+        ["EVM (RMS)", `${percent(analysis.evmRms)} / ${decibels(analysis.evmRms)}`],
+        ["EVM (峰值)", percent(analysis.evmPeak)],
+        ["MER / SNR 估计", `${analysis.merDb.toFixed(2)} dB`],
+        [
+          "误符号数",
+          analysis.symbolErrors === null
+            ? "—"
+            : `${analysis.symbolErrors} / ${sampleCount}（SER ${(analysis.symbolErrors / sampleCount).toExponential(2)}）`,
+        ],
+      ]
+    : []
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1.5 cursor-pointer select-none font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          星座分析
+        </label>
+        {settings.enabled && (
+          <>
+            <div className="flex items-center gap-1">
+              {CONSTELLATIONS.map(({ key, label }) => (
+                <Button
+                  key={key}
+                  variant={settings.kind === key ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => onChange({ kind: key })}
+                  className="h-7 px-2 text-xs"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <label className="flex items-center gap-1.5 cursor-pointer select-none text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={settings.correct}
+                onChange={(e) => onChange({ correct: e.target.checked })}
+                className="accent-blue-600"
+              />
+              估计并校正增益/相位
+            </label>
+            <label className="flex items-center gap-1.5 text-xs text-gray-600">
+              已知发送序列
+              <select
+                value={settings.transmittedId ?? ""}
+                onChange={(e) => onChange({ transmittedId: e.target.value ? Number(e.target.value) : null })}
+                className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+              >
+                <option value="">无</option>
+                {candidates.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.name}（{candidate.count}）
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {settings.enabled && settings.kind === "custom" && (
+        <Textarea
+          value={settings.customPoints}
+          onChange={(e) => onChange({ customPoints: e.target.value })}
+          placeholder="理想星座点，例如：1+1i, -1+1i, -1-1i, 1-1i"
+          className="h-16 text-xs font-mono resize-none"
+        />
+      )}
+
+      {settings.enabled && !result && (
+        <div className="text-xs text-gray-500">
+          {settings.kind === "custom" ? "请输入至少一个有效的星座点" : "计算当前数据集后显示星座分析"}
+        </div>
+      )}
+
+      {settings.enabled && transmitted && transmitted.count !== sampleCount && (
+        <div className="text-xs text-amber-700">
+          发送序列长度 {transmitted.count} 与接收序列长度 {sampleCount} 不一致，无法统计误符号
+        </div>
+      )}
+
+      {analysis && result && (
+        <div className="grid grid-cols-3 gap-4">
+          <dl className="col-span-1 space-y-1">
+            {metrics.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-3 text-xs">
+                <dt className="text-gray-600 flex-shrink-0">{label}</dt>
+                <dd className="font-mono text-blue-900 text-right">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="col-span-2">
+            <div className="text-xs text-gray-600 mb-1">各符号判决计数</div>
+            <div className="flex flex-wrap gap-1 max-h-28 overflow-y-auto">
+              {analysis.counts.map((count, index) => (
+                <span
+                  key={index}
+                  title={formatComplexNumber(result.symbols[index], numberFormat)}
+                  className="px-1.5 py-0.5 rounded bg-gray-100 text-[11px] font-mono text-gray-700"
+                >
+                  S{index}: {count}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,344 @@
+import { useMemo, useState } from "react"
+import { Button } from "./ui/button"
+import type { ComplexNumber } from "../lib/complex"
+import type { ParsedEntry } from "../lib/complex-parser"
+import { type NumberFormat, formatReal } from "../lib/format"
+
+interface DataTableProps {
+  complexNumbers: ComplexNumber[]
+  /** Where each number came from in the input; empty when there is no input text behind them */
+  sources: ParsedEntry[]
+  mean: ComplexNumber | undefined
+  /** Also sets the unit of the argument column */
+  numberFormat: NumberFormat
+  selection: ReadonlySet<number>
+  excluded: ReadonlySet<number>
+  onSelect: (index: number) => void
+  /** Includes or excludes one point from the statistics */
+  onToggleExcluded: (index: number) => void
+  /** Replaces the input text of one entry; absent while the numbers cannot be edited */
+  onEdit?: (index: number, text: string) => void
+}
+
+type ColumnKey = "index" | "line" | "real" | "imag" | "modulus" | "argument" | "distance"
+
+interface Column {
+  key: ColumnKey
+  label: string
+  /** Edits real and imag in cartesian form, modulus and argument in polar form */
+  editable: boolean
+}
+
+const PAGE_SIZES = [25, 50, 100, 200]
+
+const inputClassName = "h-7 w-24 rounded-md border border-input bg-background px-2 text-xs"
+
+interface CellContext {
+  complexNumbers: ComplexNumber[]
+  sources: ParsedEntry[]
+  mean: ComplexNumber | undefined
+  /** Radians to the displayed angle unit */
+  angleScale: number
+}
+
+/** The number behind a cell; NaN when there is none, as for a missing source line */
+function cellValue({ complexNumbers, sources, mean, angleScale }: CellContext, index: number, key: ColumnKey): number {
+  const num = complexNumbers[index]
+  switch (key) {
+    case "index":
+      return index + 1
+    case "line":
+      return sources[index]?.line ?? NaN
+    case "real":
+      return num.real
+    case "imag":
+      return num.imag
+    case "modulus":
+      return Math.hypot(num.real, num.imag)
+    case "argument":
+      return Math.atan2(num.imag, num.real) * angleScale
+    case "distance":
+      return mean ? Math.hypot(num.real - mean.real, num.imag - mean.imag) : NaN
+  }
+}
+
+/** An empty or unreadable bound does not filter */
+function parseBound(text: string, fallback: number): number {
+  const bound = Number(text)
+  return text.trim() === "" || Number.isNaN(bound) ? fallback : bound
+}
+
+/**
+ * The analysed numbers one per row, sortable by any column, filtered by a
+ * range on one column and paged. Clicking a row selects the point on the
+ * plot; double-clicking a value edits it in the input text, and the
+ * checkbox in front includes or excludes the point.
+ */
+export default function DataTable({
+  complexNumbers,
+  sources,
+  mean,
+  numberFormat,
+  selection,
+  excluded,
+  onSelect,
+  onToggleExcluded,
+  onEdit,
+}: DataTableProps) {
+  const [sort, setSort] = useState<{ key: ColumnKey; descending: boolean }>({ key: "index", descending: false })
+  const [filterKey, setFilterKey] = useState<ColumnKey>("modulus")
+  const [filterMin, setFilterMin] = useState("")
+  const [filterMax, setFilterMax] = useState("")
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[1])
+  const [page, setPage] = useState(0)
+  const [editing, setEditing] = useState<{ index: number; key: ColumnKey; text: string } | null>(null)
+
+  const unit = numberFormat.angleUnit
+  const columns: Column[] = [
+    { key: "index", label: "#", editable: false },
+    { key: "line", label: "行", editable: false },
+    { key: "real", label: "实部", editable: true },
+    { key: "imag", label: "虚部", editable: true },
+    { key: "modulus", label: "模", editable: true },
+    { key: "argument", label: unit === "deg" ? "辐角 (°)" : "辐角 (rad)", editable: true },
+    { key: "distance", label: "到均值距离", editable: false },
+  ]
+
+  const angleScale = unit === "deg" ? 180 / Math.PI : 1
+  const value = (index: number, key: ColumnKey) => cellValue({ complexNumbers, sources, mean, angleScale }, index, key)
+
+  // Filtered, then sorted with the index breaking ties so that equal values keep their order
+  const rows = useMemo(() => {
+    const context = { complexNumbers, sources, mean, angleScale }
+    const min = parseBound(filterMin, -Infinity)
+    const max = parseBound(filterMax, Infinity)
+    const filtering = min > -Infinity || max < Infinity
+    const indices: number[] = []
+    for (let index = 0; index < complexNumbers.length; index++) {
+      const v = filtering ? cellValue(context, index, filterKey) : 0
+      if (v >= min && v <= max) indices.push(index)
+    }
+    if (sort.key === "index") return sort.descending ? indices.reverse() : indices
+
+    const keys = new Float64Array(complexNumbers.length)
+    for (const index of indices) keys[index] = cellValue(context, index, sort.key)
+    const direction = sort.descending ? -1 : 1
+    // NaN (no source line, no mean) sorts last either way
+    return indices.sort((a, b) => {
+      const ka = keys[a]
+      const kb = keys[b]
+      if (Number.isNaN(ka) || Number.isNaN(kb)) return Number.isNaN(ka) ? (Number.isNaN(kb) ? a - b : 1) : -1
+      return ka === kb ? a - b : (ka - kb) * direction
+    })
+  }, [complexNumbers, sources, mean, angleScale, sort, filterKey, filterMin, filterMax])
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize))
+  const currentPage = Math.min(page, pageCount - 1)
+  const visible = rows.slice(currentPage * pageSize, (currentPage + 1) * pageSize)
+  const filterInvalid = [filterMin, filterMax].some((text) => text.trim() !== "" && Number.isNaN(Number(text)))
+
+  const toggleSort = (key: ColumnKey) => {
+    setSort((current) => ({ key, descending: current.key === key ? !current.descending : false }))
+    setPage(0)
+  }
+
+  const commitEdit = () => {
+    if (!editing || !onEdit) return
+    const { index, key, text } = editing
+    setEditing(null)
+    const entered = Number(text)
+    if (text.trim() === "" || !Number.isFinite(entered) || entered === value(index, key)) return
+
+    const num = complexNumbers[index]
+    const modulus = Math.hypot(num.real, num.imag)
+    if (key === "real" || key === "imag") {
+      const next = key === "real" ? { real: entered, imag: num.imag } : { real: num.real, imag: entered }
+      onEdit(index, `${next.real}${next.imag < 0 ? "-" : "+"}${Math.abs(next.imag)}i`)
+      return
+    }
+    if (key === "modulus" && entered < 0) return
+    // Polar edits are written with an explicit unit, whatever the input's default
+    const polar =
+      key === "modulus"
+        ? { modulus: entered, argument: Math.atan2(num.imag, num.real) * angleScale }
+        : { modulus, argument: entered }
+    onEdit(index, `${polar.modulus}∠${polar.argument}${unit === "deg" ? "°" : "rad"}`)
+  }
+
+  const formatCell = (index: number, key: ColumnKey) => {
+    const v = value(index, key)
+    if (Number.isNaN(v)) return "—"
+    return key === "index" || key === "line" ? String(v) : formatReal(v, numberFormat)
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-700">数据表</span>
+        <span className="text-xs text-gray-500">
+          {rows.length === complexNumbers.length ? `${rows.length} 行` : `${rows.length} / ${complexNumbers.length} 行`}
+        </span>
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          筛选
+          <select
+            value={filterKey}
+            onChange={(e) => {
+              setFilterKey(e.target.value as ColumnKey)
+              setPage(0)
+            }}
+            className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+          >
+            {columns.map((column) => (
+              <option key={column.key} value={column.key}>
+                {column.label}
+              </option>
+            ))}
+          </select>
+          <input
+            placeholder="最小"
+            value={filterMin}
+            onChange={(e) => {
+              setFilterMin(e.target.value)
+              setPage(0)
+            }}
+            className={`${inputClassName} ${filterInvalid ? "border-red-400" : ""}`}
+          />
+          –
+          <input
+            placeholder="最大"
+            value={filterMax}
+            onChange={(e) => {
+              setFilterMax(e.target.value)
+              setPage(0)
+            }}
+            className={`${inputClassName} ${filterInvalid ? "border-red-400" : ""}`}
+          />
+        </label>
+        <span className="ml-auto text-xs text-gray-500">{onEdit ? "双击数值编辑，回车确认" : "输入已修改或不是数据模式，不能编辑"}</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-600">
+              <th className="font-normal px-2 py-1 text-left whitespace-nowrap">包含</th>
+              {columns.map((column) => (
+                <th
+                  key={column.key}
+                  onClick={() => toggleSort(column.key)}
+                  className={`font-normal px-2 py-1 cursor-pointer select-none whitespace-nowrap hover:text-blue-700 ${column.key === "index" || column.key === "line" ? "text-left" : "text-right"}`}
+                >
+                  {column.label}
+                  {sort.key === column.key && (sort.descending ? " ▼" : " ▲")}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="font-mono text-blue-900">
+            {visible.map((index) => (
+              <tr
+                key={index}
+                onClick={() => onSelect(index)}
+                className={`border-t border-blue-100 cursor-pointer ${selection.has(index) ? "bg-amber-100" : "hover:bg-blue-50"} ${excluded.has(index) ? "text-gray-400" : ""}`}
+              >
+                <td className="px-2 py-0.5">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.has(index)}
+                    onChange={() => onToggleExcluded(index)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="accent-blue-600"
+                    aria-label={`包含第 ${index + 1} 个点`}
+                  />
+                </td>
+                {columns.map((column) => (
+                  <td
+                    key={column.key}
+                    onDoubleClick={
+                      onEdit && column.editable
+                        ? () => setEditing({ index, key: column.key, text: String(value(index, column.key)) })
+                        : undefined
+                    }
+                    className={`px-2 py-0.5 whitespace-nowrap ${column.key === "index" || column.key === "line" ? "text-left text-gray-500" : "text-right"}`}
+                  >
+                    {editing?.index === index && editing.key === column.key ? (
+                      <input
+                        autoFocus
+                        value={editing.text}
+                        onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                        onBlur={() => setEditing(null)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitEdit()
+                          if (e.key === "Escape") setEditing(null)
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="h-6 w-28 rounded border border-blue-400 bg-white px-1 text-right text-xs"
+                      />
+                    ) : (
+                      formatCell(index, column.key)
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          每页
+          <select
+            value={pageSize}
+            onChange={(e) => {
+              setPageSize(Number(e.target.value))
+              setPage(0)
+            }}
+            className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="outline" size="sm" disabled={currentPage === 0} onClick={() => setPage(0)} className="h-7 px-2 text-xs">
+            首页
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage === 0}
+            onClick={() => setPage(currentPage - 1)}
+            className="h-7 px-2 text-xs"
+          >
+            上一页
+          </Button>
+          <span className="px-2">
+            {currentPage + 1} / {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage >= pageCount - 1}
+            onClick={() => setPage(currentPage + 1)}
+            className="h-7 px-2 text-xs"
+          >
+            下一页
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage >= pageCount - 1}
+            onClick={() => setPage(pageCount - 1)}
+            className="h-7 px-2 text-xs"
+          >
+            末页
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
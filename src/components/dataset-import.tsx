@@ -0,0 +1,234 @@
+import { useRef, useState, type DragEvent, type ReactNode } from "react"
+import { Button } from "./ui/button"
+import { FileUp, Upload } from "lucide-react"
+import { toast } from 'sonner'
+import type { AngleUnit } from "../lib/complex"
+import {
+  type ColumnMapping,
+  type DelimitedTable,
+  type ImportedData,
+  DatasetImportError,
+  applyColumnMapping,
+  defaultColumnMapping,
+  detectFormat,
+  parseDelimited,
+  parseJsonDataset,
+  parseNpy,
+} from "../lib/dataset-import"
+
+interface DatasetImportProps {
+  label: ReactNode
+  onImport: (data: ImportedData, fileName: string) => void
+  children: ReactNode
+}
+
+interface PendingTable {
+  table: DelimitedTable
+  fileName: string
+  mapping: ColumnMapping
+}
+
+const selectClassName = "h-8 rounded-md border border-input bg-background px-2 text-sm"
+
+/**
+ * Drop zone and file picker around the data input. CSV/TSV files with more
+ * than one column stop at a column-mapping step before being handed over.
+ */
+export default function DatasetImport({ label, onImport, children }: DatasetImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [dragging, setDragging] = useState(false)
+  const [pending, setPending] = useState<PendingTable | null>(null)
+
+  const handleFile = async (file: File) => {
+    try {
+      const format = detectFormat(file.name)
+      if (format === "npy") {
+        onImport(parseNpy(await file.arrayBuffer()), file.name)
+      } else if (format === "json") {
+        onImport(parseJsonDataset(await file.text()), file.name)
+      } else {
+        const table = parseDelimited(await file.text(), file.name)
+        if (table.headers.length === 1) {
+          onImport(applyColumnMapping(table, { kind: "complex", column: 0 }), file.name)
+        } else {
+          setPending({ table, fileName: file.name, mapping: defaultColumnMapping(table) })
+        }
+      }
+    } catch (error) {
+      toast.error(error instanceof DatasetImportError ? error.message : "无法读取文件，请重试")
+    }
+  }
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    const file = e.dataTransfer.files[0]
+    if (file) handleFile(file)
+  }
+
+  const confirmMapping = () => {
+    if (!pending) return
+    onImport(applyColumnMapping(pending.table, pending.mapping), pending.fileName)
+    setPending(null)
+  }
+
+  const setMapping = (mapping: ColumnMapping) => {
+    setPending((current) => (current ? { ...current, mapping } : current))
+  }
+
+  const changeKind = (kind: ColumnMapping["kind"]) => {
+    if (kind === "cartesian") setMapping({ kind, real: 0, imag: 1 })
+    if (kind === "polar") setMapping({ kind, magnitude: 0, phase: 1, angleUnit: "deg" })
+    if (kind === "complex") setMapping({ kind, column: 0 })
+  }
+
+  const columnSelect = (value: number, onChange: (column: number) => void) => (
+    <select value={value} onChange={(e) => onChange(Number(e.target.value))} className={selectClassName}>
+      {pending?.table.headers.map((header, index) => (
+        <option key={index} value={index}>
+          {header}
+        </option>
+      ))}
+    </select>
+  )
+
+  const mapping = pending?.mapping
+  const selectedColumns = !mapping
+    ? []
+    : mapping.kind === "cartesian"
+      ? [mapping.real, mapping.imag]
+      : mapping.kind === "polar"
+        ? [mapping.magnitude, mapping.phase]
+        : [mapping.column]
+
+  return (
+    <div
+      className="relative flex-1 flex flex-col"
+      onDragOver={(e) => {
+        e.preventDefault()
+        setDragging(true)
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false)
+      }}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center justify-between mb-2">
+        {label}
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="h-7 px-3 text-xs">
+          <FileUp className="h-4 w-4" />
+          导入文件
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,.npy"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+            e.target.value = ""
+          }}
+        />
+      </div>
+
+      {children}
+
+      {dragging && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-blue-400 bg-blue-50/90 text-blue-700 pointer-events-none">
+          <Upload className="h-8 w-8" />
+          <span className="text-sm font-medium">释放以导入 CSV / TSV / JSON / .npy 文件</span>
+        </div>
+      )}
+
+      {pending && mapping && (
+        <div className="absolute inset-0 z-10 flex flex-col gap-3 rounded-lg border border-blue-200 bg-white/95 p-4 text-sm overflow-auto">
+          <div className="font-semibold text-gray-800">
+            列映射：<span className="font-mono">{pending.fileName}</span>（{pending.table.rows.length} 行）
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-gray-600">列含义：</span>
+            <select
+              value={mapping.kind}
+              onChange={(e) => changeKind(e.target.value as ColumnMapping["kind"])}
+              className={selectClassName}
+            >
+              <option value="cartesian">实部 + 虚部</option>
+              <option value="polar">模 + 相位</option>
+              <option value="complex">单列复数字符串</option>
+            </select>
+
+            {mapping.kind === "cartesian" && (
+              <>
+                <span className="text-gray-600">实部</span>
+                {columnSelect(mapping.real, (real) => setMapping({ ...mapping, real }))}
+                <span className="text-gray-600">虚部</span>
+                {columnSelect(mapping.imag, (imag) => setMapping({ ...mapping, imag }))}
+              </>
+            )}
+            {mapping.kind === "polar" && (
+              <>
+                <span className="text-gray-600">模</span>
+                {columnSelect(mapping.magnitude, (magnitude) => setMapping({ ...mapping, magnitude }))}
+                <span className="text-gray-600">相位</span>
+                {columnSelect(mapping.phase, (phase) => setMapping({ ...mapping, phase }))}
+                <select
+                  value={mapping.angleUnit}
+                  onChange={(e) => setMapping({ ...mapping, angleUnit: e.target.value as AngleUnit })}
+                  className={selectClassName}
+                >
+                  <option value="deg">角度 (°)</option>
+                  <option value="rad">弧度 (rad)</option>
+                </select>
+              </>
+            )}
+            {mapping.kind === "complex" && (
+              <>
+                <span className="text-gray-600">列</span>
+                {columnSelect(mapping.column, (column) => setMapping({ ...mapping, column }))}
+              </>
+            )}
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-auto rounded-md border">
+            <table className="w-full text-xs font-mono">
+              <thead className="bg-gray-50">
+                <tr>
+                  {pending.table.headers.map((header, index) => (
+                    <th
+                      key={index}
+                      className={`px-2 py-1 text-left font-semibold ${selectedColumns.includes(index) ? "bg-blue-100 text-blue-800" : "text-gray-600"}`}
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pending.table.rows.slice(0, 5).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t">
+                    {pending.table.headers.map((_, index) => (
+                      <td key={index} className={`px-2 py-1 ${selectedColumns.includes(index) ? "bg-blue-50" : ""}`}>
+                        {row[index]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={() => setPending(null)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={confirmMapping} className="bg-blue-600 hover:bg-blue-700 text-white">
+              导入
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
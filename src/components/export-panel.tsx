@@ -0,0 +1,72 @@
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { toast } from "sonner"
+import type { AngleUnit, ComplexNumber } from "../lib/complex"
+import { dateStamp, downloadBlob } from "../lib/export"
+import {
+  type ResultGroup,
+  numbersToCsv,
+  numbersToJson,
+  resultsToLatex,
+  resultsToMarkdown,
+  statisticsToJson,
+} from "../lib/report"
+import type { Statistics } from "../lib/statistics"
+
+interface ExportPanelProps {
+  name: string
+  numbers: ComplexNumber[]
+  statistics: Statistics
+  /** The results as shown, already formatted */
+  groups: ResultGroup[]
+  angleUnit: AngleUnit
+}
+
+const buttonClassName = "h-7 px-2 rounded-md border border-input bg-background text-xs hover:bg-gray-50"
+
+/** Downloads of the parsed data and the statistics, and table snippets of the results for reports */
+export default function ExportPanel({ name, numbers, statistics, groups, angleUnit }: ExportPanelProps) {
+  const [polar, setPolar] = useState(false)
+
+  const download = (text: string, type: string, kind: string, extension: string) =>
+    downloadBlob(new Blob([text], { type }), `complex_${kind}_${dateStamp()}.${extension}`)
+
+  const copy = (text: string, label: string) => {
+    navigator.clipboard.writeText(text)
+    toast.success(`${label} 表格已复制到剪贴板`)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 gap-y-1.5 text-xs text-gray-600 flex-shrink-0">
+      <Download className="h-3.5 w-3.5 text-gray-500" />
+      <button
+        onClick={() => download(numbersToCsv(numbers, { polar, angleUnit }), "text/csv", "data", "csv")}
+        className={buttonClassName}
+      >
+        数据 CSV
+      </button>
+      <button
+        onClick={() => download(numbersToJson(numbers, { polar, angleUnit }), "application/json", "data", "json")}
+        className={buttonClassName}
+      >
+        数据 JSON
+      </button>
+      <label className="flex items-center gap-1" title={`附加模与辐角（${angleUnit === "deg" ? "度" : "弧度"}）列`}>
+        <input type="checkbox" checked={polar} onChange={(e) => setPolar(e.target.checked)} />
+        含模/辐角
+      </label>
+      <button
+        onClick={() => download(statisticsToJson(name, statistics), "application/json", "statistics", "json")}
+        className={buttonClassName}
+      >
+        统计 JSON
+      </button>
+      <button onClick={() => copy(resultsToLatex(groups), "LaTeX")} className={buttonClassName}>
+        LaTeX
+      </button>
+      <button onClick={() => copy(resultsToMarkdown(groups), "Markdown")} className={buttonClassName}>
+        Markdown
+      </button>
+    </div>
+  )
+}
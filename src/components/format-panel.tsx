@@ -0,0 +1,76 @@
+import { type NumberFormat, MAX_PRECISION } from "../lib/format"
+
+interface FormatPanelProps {
+  format: NumberFormat
+  onChange: (patch: Partial<NumberFormat>) => void
+}
+
+const selectClassName = "h-7 rounded-md border border-input bg-background px-2 text-xs"
+
+/** The one number format shared by the results, the tables, copied text and the plot labels */
+export default function FormatPanel({ format, onChange }: FormatPanelProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1.5 text-xs text-gray-600">
+      <label className="flex items-center gap-1">
+        小数位
+        <input
+          type="number"
+          min={0}
+          max={MAX_PRECISION}
+          value={format.precision}
+          onChange={(e) => {
+            const value = Number(e.target.value)
+            if (Number.isInteger(value) && value >= 0 && value <= MAX_PRECISION) onChange({ precision: value })
+          }}
+          className="h-7 w-14 rounded-md border border-input bg-background px-2 text-xs"
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        记数法
+        <select
+          value={format.notation}
+          onChange={(e) => onChange({ notation: e.target.value as NumberFormat["notation"] })}
+          className={selectClassName}
+        >
+          <option value="fixed">定点</option>
+          <option value="scientific">科学</option>
+          <option value="engineering">工程</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        形式
+        <select
+          value={format.form}
+          onChange={(e) => onChange({ form: e.target.value as NumberFormat["form"] })}
+          className={selectClassName}
+        >
+          <option value="cartesian">a+bi</option>
+          <option value="polar">r∠θ</option>
+          <option value="exponential">r·e^(θi)</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        θ
+        <select
+          value={format.angleUnit}
+          onChange={(e) => onChange({ angleUnit: e.target.value as NumberFormat["angleUnit"] })}
+          className={selectClassName}
+        >
+          <option value="deg">度</option>
+          <option value="rad">弧度</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        虚数单位
+        <select
+          value={format.imaginaryUnit}
+          onChange={(e) => onChange({ imaginaryUnit: e.target.value as NumberFormat["imaginaryUnit"] })}
+          className={selectClassName}
+        >
+          <option value="i">i</option>
+          <option value="j">j</option>
+        </select>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { useCallback, useLayoutEffect, useRef, type ComponentProps, type ReactNode } from "react"
+import { Textarea } from "./ui/textarea"
+import { cn } from "../lib/utils"
+
+export interface TextHighlight {
+  start: number
+  end: number
+  title?: string
+  className?: string
+}
+
+interface HighlightedTextareaProps extends ComponentProps<"textarea"> {
+  value: string
+  highlights: TextHighlight[]
+}
+
+/**
+ * Textarea with a backdrop layer that marks character ranges. The backdrop
+ * repeats the text in a transparent colour so the marks line up under the
+ * real glyphs, and follows the textarea's scroll position.
+ */
+export default function HighlightedTextarea({
+  value,
+  highlights,
+  className,
+  onScroll,
+  ref,
+  ...props
+}: HighlightedTextareaProps) {
+  const backdropRef = useRef<HTMLDivElement>(null)
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+
+  const setTextarea = useCallback(
+    (node: HTMLTextAreaElement | null) => {
+      textareaRef.current = node
+      if (typeof ref === "function") ref(node)
+      else if (ref) ref.current = node
+    },
+    [ref],
+  )
+
+  const syncScroll = () => {
+    if (!backdropRef.current || !textareaRef.current) return
+    backdropRef.current.scrollTop = textareaRef.current.scrollTop
+    backdropRef.current.scrollLeft = textareaRef.current.scrollLeft
+  }
+
+  // Typing or a new set of marks can scroll the textarea, or mount the backdrop, without a scroll event
+  useLayoutEffect(syncScroll, [value, highlights])
+
+  const sorted = [...highlights].sort((a, b) => a.start - b.start)
+  const pieces: ReactNode[] = []
+  let cursor = 0
+  sorted.forEach((highlight, index) => {
+    const start = Math.max(highlight.start, cursor)
+    const end = Math.min(highlight.end, value.length)
+    if (end <= start) return
+    pieces.push(value.slice(cursor, start))
+    pieces.push(
+      <mark key={index} title={highlight.title} className={cn("rounded-sm bg-red-200/80 text-transparent", highlight.className)}>
+        {value.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+  })
+  // A trailing newline needs a following character to occupy a line in the backdrop
+  if (sorted.length > 0) pieces.push(value.slice(cursor) + "\n")
+
+  return (
+    <div className="relative flex-1 flex flex-col min-h-0">
+      {/* Without highlights there is no need to mirror a possibly huge input */}
+      {highlights.length > 0 && (
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={cn(
+            "absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent px-3 py-2 text-base md:text-sm text-transparent pointer-events-none",
+            className,
+          )}
+        >
+          {pieces}
+        </div>
+      )}
+      <Textarea
+        ref={setTextarea}
+        value={value}
+        onScroll={(e) => {
+          syncScroll()
+          onScroll?.(e)
+        }}
+        className={cn("relative", className)}
+        {...props}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { useState } from "react"
+import { RotateCcw, Trash2 } from "lucide-react"
+import { type NumberFormat, formatComplexNumber, formatReal } from "../lib/format"
+import type { InputMode } from "../lib/core"
+import type { HistoryEntry } from "../lib/session"
+import { type Statistics, compareStatistics } from "../lib/statistics"
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]
+  /** Statistics of the active series, to compare a run against */
+  current: Statistics | null
+  numberFormat: NumberFormat
+  onRestore: (entry: HistoryEntry) => void
+  onDelete: (id: number) => void
+  onClear: () => void
+}
+
+const MODE_LABELS: Record<InputMode, string> = {
+  samples: "数据",
+  polynomial: "多项式",
+  matrix: "矩阵",
+}
+
+// Rows of the comparison: the value then, the value now, and how they differ
+const DIFF_ROWS: Array<[string, (stats: Statistics) => number]> = [
+  ["方差", (stats) => stats.variance],
+  ["实部标准差", (stats) => stats.stdReal],
+  ["虚部标准差", (stats) => stats.stdImag],
+  ["相关系数", (stats) => stats.correlation],
+  ["圆度系数", (stats) => stats.circularity],
+  ["平均模", (stats) => stats.modulus.mean],
+]
+
+/** Every 计算 run, newest first; a run can be analysed again or compared with the active series */
+export default function HistoryPanel({ entries, current, numberFormat, onRestore, onDelete, onClear }: HistoryPanelProps) {
+  const [comparedId, setComparedId] = useState<number | null>(null)
+  const compared = entries.find((entry) => entry.id === comparedId)
+
+  const signed = (value: number) => `${value > 0 ? "+" : ""}${formatReal(value, numberFormat)}`
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-gray-700">计算历史</span>
+        <span className="text-xs text-gray-500">{entries.length} 次</span>
+        <button type="button" onClick={onClear} className="ml-auto text-xs text-gray-500 hover:text-red-600 hover:underline">
+          清空历史
+        </button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto rounded-md border border-gray-200">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-gray-50 text-gray-600">
+            <tr>
+              <th className="text-left font-medium px-2 py-1">时间</th>
+              <th className="text-left font-medium px-2 py-1">数据集</th>
+              <th className="text-left font-medium px-2 py-1">模式</th>
+              <th className="text-right font-medium px-2 py-1">点数</th>
+              <th className="text-right font-medium px-2 py-1">均值</th>
+              <th className="text-right font-medium px-2 py-1">方差</th>
+              <th className="px-2 py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr
+                key={entry.id}
+                className={`border-t border-gray-100 ${entry.id === comparedId ? "bg-blue-50" : "hover:bg-gray-50"}`}
+              >
+                <td className="px-2 py-1 text-gray-600 whitespace-nowrap">{new Date(entry.time).toLocaleString()}</td>
+                <td className="px-2 py-1 text-gray-700">{entry.seriesName}</td>
+                <td className="px-2 py-1 text-gray-600">{MODE_LABELS[entry.mode]}</td>
+                <td className="px-2 py-1 text-right font-mono">{entry.statistics.count}</td>
+                <td className="px-2 py-1 text-right font-mono text-blue-900 whitespace-nowrap">
+                  {formatComplexNumber(entry.statistics.mean, numberFormat)}
+                </td>
+                <td className="px-2 py-1 text-right font-mono text-blue-900">{formatReal(entry.statistics.variance, numberFormat)}</td>
+                <td className="px-2 py-1">
+                  <div className="flex items-center justify-end gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setComparedId(entry.id === comparedId ? null : entry.id)}
+                      disabled={!current}
+                      className="px-1.5 rounded text-blue-700 hover:bg-blue-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                    >
+                      对比
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRestore(entry)}
+                      disabled={entry.input === null}
+                      title={entry.input === null ? "输入过大，未保存在历史中" : "把这次的输入放回当前数据集并重新计算"}
+                      className="p-0.5 rounded text-gray-500 hover:text-blue-700 hover:bg-blue-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(entry.id)}
+                      title="删除记录"
+                      className="p-0.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {compared && current && (
+        <div className="p-3 rounded-md bg-blue-50 border border-blue-100">
+          <div className="font-semibold text-blue-700 text-sm mb-1">
+            当前数据集 对 {new Date(compared.time).toLocaleString()} 的 {compared.seriesName}
+          </div>
+          <table className="w-full text-xs">
+            <thead className="text-gray-600">
+              <tr>
+                <th className="text-left font-normal pr-2 py-0.5" />
+                <th className="text-right font-normal px-1 py-0.5">历史</th>
+                <th className="text-right font-normal px-1 py-0.5">当前</th>
+                <th className="text-right font-normal px-1 py-0.5">变化</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-blue-900">
+              <tr className="border-t border-blue-100">
+                <td className="font-sans text-gray-600 pr-2 py-0.5">数量</td>
+                <td className="text-right px-1 py-0.5">{compared.statistics.count}</td>
+                <td className="text-right px-1 py-0.5">{current.count}</td>
+                <td className="text-right px-1 py-0.5">
+                  {`${current.count - compared.statistics.count > 0 ? "+" : ""}${current.count - compared.statistics.count}`}
+                </td>
+              </tr>
+              <tr className="border-t border-blue-100">
+                <td className="font-sans text-gray-600 pr-2 py-0.5">均值</td>
+                <td className="text-right px-1 py-0.5">{formatComplexNumber(compared.statistics.mean, numberFormat)}</td>
+                <td className="text-right px-1 py-0.5">{formatComplexNumber(current.mean, numberFormat)}</td>
+                <td className="text-right px-1 py-0.5">
+                  {formatComplexNumber(compareStatistics(compared.statistics, current).meanDifference, numberFormat)}
+                </td>
+              </tr>
+              {DIFF_ROWS.map(([label, value]) => (
+                <tr key={label} className="border-t border-blue-100">
+                  <td className="font-sans text-gray-600 pr-2 py-0.5">{label}</td>
+                  <td className="text-right px-1 py-0.5">{formatReal(value(compared.statistics), numberFormat)}</td>
+                  <td className="text-right px-1 py-0.5">{formatReal(value(current), numberFormat)}</td>
+                  <td className="text-right px-1 py-0.5">{signed(value(current) - value(compared.statistics))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "./ui/button"
+import { type AnalysisTask, AnalysisCancelledError, startBootstrap } from "../lib/analysis-client"
+import type { AngleUnit, ComplexNumber } from "../lib/complex"
+import { parseComplexInput } from "../lib/complex-parser"
+import { type NumberFormat, formatComplexNumber, formatReal } from "../lib/format"
+import {
+  type BootstrapResult,
+  type Interval,
+  type TestResult,
+  circularityTest,
+  hotellingOneSample,
+  hotellingTwoSample,
+} from "../lib/hypothesis"
+import type { Statistics } from "../lib/statistics"
+
+interface HypothesisTestsProps {
+  statistics: Statistics
+  /** The numbers statistics was computed from, for resampling */
+  numbers: ComplexNumber[]
+  angleUnit: AngleUnit
+  /** Other analysed datasets for the two-sample test */
+  others: Array<{ id: number; name: string; statistics: Statistics }>
+  numberFormat: NumberFormat
+}
+
+const SIGNIFICANCE_LEVELS = [0.01, 0.05, 0.1]
+const BOOTSTRAP_RESAMPLES = 1000
+
+const formatPValue = (p: number) => (p < 1e-4 ? p.toExponential(2) : p.toFixed(4))
+const formatInterval = ({ lower, upper }: Interval, format: NumberFormat) =>
+  `[${formatReal(lower, format)}, ${formatReal(upper, format)}]`
+
+function TestRow({ label, result, alpha, missing }: { label: string; result: TestResult | null; alpha: number; missing: string }) {
+  if (!result) {
+    return (
+      <div className="flex justify-between gap-3 text-xs">
+        <span className="text-gray-600 flex-shrink-0">{label}</span>
+        <span className="text-gray-400">{missing}</span>
+      </div>
+    )
+  }
+  const significant = result.pValue < alpha
+  return (
+    <div className="text-xs">
+      <div className="flex justify-between gap-3">
+        <span className="text-gray-600 flex-shrink-0">{label}</span>
+        <span className={`font-mono ${significant ? "text-red-700" : "text-green-700"}`}>
+          p = {formatPValue(result.pValue)}（{significant ? "拒绝" : "不拒绝"} H₀）
+        </span>
+      </div>
+      <div className="text-right font-mono text-gray-500">
+        {result.statistic.toFixed(3)} → {result.distribution} = {result.distributionValue.toFixed(3)}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Tests built on the Statistics of the active dataset, at one chosen
+ * significance level, plus bootstrap intervals run on demand in the
+ * analysis worker since they resample the data a thousand times.
+ */
+export default function HypothesisTests({ statistics, numbers, angleUnit, others, numberFormat }: HypothesisTestsProps) {
+  const [alpha, setAlpha] = useState(0.05)
+  const [targetText, setTargetText] = useState("0")
+  const [otherId, setOtherId] = useState<number | null>(null)
+  const [bootstrap, setBootstrap] = useState<{ numbers: ComplexNumber[]; result: BootstrapResult } | null>(null)
+  // Percentage of the resamples drawn while a run is going
+  const [bootstrapProgress, setBootstrapProgress] = useState<number | null>(null)
+  const taskRef = useRef<AnalysisTask<BootstrapResult> | null>(null)
+
+  useEffect(() => () => taskRef.current?.cancel(), [])
+
+  const target = useMemo(() => {
+    const parsed = parseComplexInput(targetText, { angleUnit })
+    return parsed.numbers.length === 1 && parsed.rejected.length === 0 ? parsed.numbers[0] : null
+  }, [targetText, angleUnit])
+
+  const other = others.find((item) => item.id === otherId) ?? others[0]
+  const oneSample = target ? hotellingOneSample(statistics, target) : null
+  const twoSample = other ? hotellingTwoSample(statistics, other.statistics) : null
+  const circularity = circularityTest(statistics)
+  // Intervals belong to the numbers they were computed from, and to the level they were computed at
+  const intervals =
+    bootstrap && bootstrap.numbers === numbers && bootstrap.result.confidence === 1 - alpha ? bootstrap.result : null
+
+  const runBootstrap = async () => {
+    if (taskRef.current) {
+      taskRef.current.cancel()
+      return
+    }
+    const task = startBootstrap(numbers, { resamples: BOOTSTRAP_RESAMPLES, confidence: 1 - alpha }, ({ done, total }) =>
+      setBootstrapProgress(Math.round((done / total) * 100)),
+    )
+    taskRef.current = task
+    setBootstrapProgress(0)
+    try {
+      setBootstrap({ numbers, result: await task.promise })
+    } catch (error) {
+      if (!(error instanceof AnalysisCancelledError)) {
+        toast.error(`自举计算失败：${error instanceof Error ? error.message : String(error)}`)
+      }
+    } finally {
+      taskRef.current = null
+      setBootstrapProgress(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-semibold text-blue-700 text-sm">假设检验</span>
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          α
+          <select
+            value={alpha}
+            onChange={(e) => setAlpha(Number(e.target.value))}
+            className="h-6 rounded border border-input bg-background px-1 text-xs"
+          >
+            {SIGNIFICANCE_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="space-y-2">
+        <div className="space-y-1">
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            均值 = z₀
+            <input
+              value={targetText}
+              onChange={(e) => setTargetText(e.target.value)}
+              className={`h-6 w-28 rounded border bg-background px-1 font-mono text-xs ${target ? "border-input" : "border-red-400"}`}
+            />
+          </label>
+          <TestRow
+            label="Hotelling T²"
+            result={oneSample}
+            alpha={alpha}
+            missing={target ? "至少需要 3 个非共线的点" : "z₀ 须为一个复数"}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            与数据集均值相同
+            <select
+              value={other?.id ?? ""}
+              onChange={(e) => setOtherId(Number(e.target.value))}
+              disabled={others.length === 0}
+              className="h-6 max-w-32 rounded border border-input bg-background px-1 text-xs"
+            >
+              {others.length === 0 && <option value="">无其他数据集</option>}
+              {others.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <TestRow
+            label="两样本 T²（等协方差）"
+            result={twoSample}
+            alpha={alpha}
+            missing={other ? "样本太少或协方差奇异" : "—"}
+          />
+        </div>
+
+        <TestRow label="圆性（正常性）GLRT" result={circularity} alpha={alpha} missing="至少需要 2 个不同的点" />
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            <span>自举 {(100 * (1 - alpha)).toFixed(0)}% 置信区间</span>
+            <Button variant="outline" size="sm" onClick={runBootstrap} className="h-6 px-2 text-xs">
+              {bootstrapProgress !== null
+                ? `取消（${bootstrapProgress}%）`
+                : intervals
+                  ? "重新计算"
+                  : `重抽样 ${BOOTSTRAP_RESAMPLES} 次`}
+            </Button>
+          </div>
+          {intervals && (
+            <dl className="space-y-1">
+              {(
+                [
+                  ["Re μ", formatInterval(intervals.meanReal, numberFormat)],
+                  ["Im μ", formatInterval(intervals.meanImag, numberFormat)],
+                  ["方差", formatInterval(intervals.variance, numberFormat)],
+                ] as Array<[string, string]>
+              ).map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-3 text-xs">
+                  <dt className="text-gray-600 flex-shrink-0">{label}</dt>
+                  <dd className="font-mono text-blue-900 text-right">{value}</dd>
+                </div>
+              ))}
+              <div className="text-[11px] text-gray-500 text-right">点估计 {formatComplexNumber(statistics.mean, numberFormat)}</div>
+            </dl>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import type { ComplexNumber } from "../lib/complex"
+import { type NumberFormat, formatComplexNumber } from "../lib/format"
+import type { ComplexMatrix, MatrixAnalysis } from "../lib/matrix"
+
+interface MatrixPanelProps {
+  analysis: MatrixAnalysis
+  numberFormat: NumberFormat
+  /** Index of the eigenvalue in the plotted numbers */
+  onSelect: (index: number) => void
+}
+
+// Larger matrices are shown cut to their top-left corner
+const MAX_DISPLAY = 8
+
+/** A matrix between brackets, cut to MAX_DISPLAY rows and columns */
+function MatrixView({ matrix, numberFormat }: { matrix: ComplexMatrix; numberFormat: NumberFormat }) {
+  const rows = matrix.slice(0, MAX_DISPLAY)
+  const cols = Math.min(matrix[0]?.length ?? 0, MAX_DISPLAY)
+  const clipped = matrix.length > MAX_DISPLAY || (matrix[0]?.length ?? 0) > MAX_DISPLAY
+  return (
+    <div className="inline-block">
+      <div
+        className="inline-grid gap-x-3 gap-y-0.5 border-x-2 border-gray-500 rounded-sm px-2 py-1 font-mono text-xs text-blue-900"
+        style={{ gridTemplateColumns: `repeat(${cols}, auto)` }}
+      >
+        {rows.flatMap((row, i) =>
+          row.slice(0, cols).map((value, j) => (
+            <span key={`${i}-${j}`} className="text-right whitespace-nowrap">
+              {formatComplexNumber(value, numberFormat)}
+            </span>
+          )),
+        )}
+      </div>
+      {clipped && (
+        <div className="text-[11px] text-gray-500 mt-0.5">
+          仅显示左上 {MAX_DISPLAY}×{MAX_DISPLAY}，共 {matrix.length}×{matrix[0].length}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** A vector as one line, cut like the matrices */
+const formatVector = (vector: ComplexNumber[], numberFormat: NumberFormat) =>
+  `[${vector
+    .slice(0, MAX_DISPLAY)
+    .map((value) => formatComplexNumber(value, numberFormat))
+    .join(", ")}${vector.length > MAX_DISPLAY ? ", …" : ""}]`
+
+/**
+ * Results of the matrix mode: the scalar invariants, the matrix and its
+ * inverse, and the eigenpairs with their residuals.
+ */
+export default function MatrixPanel({ analysis, numberFormat, onSelect }: MatrixPanelProps) {
+  const { matrix, rank, determinant, trace, inverse, eigenpairs } = analysis
+  const rows = matrix.length
+  const cols = matrix[0]?.length ?? 0
+
+  const summary: Array<[string, string]> = [
+    ["尺寸", `${rows} × ${cols}`],
+    ["秩", String(rank)],
+    ...(determinant && trace
+      ? ([
+          ["行列式", formatComplexNumber(determinant, numberFormat)],
+          ["迹", formatComplexNumber(trace, numberFormat)],
+        ] as Array<[string, string]>)
+      : []),
+  ]
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-1">
+        <span className="font-medium text-gray-700">矩阵分析</span>
+        {summary.map(([label, value]) => (
+          <span key={label} className="text-xs">
+            <span className="text-gray-600">{label}：</span>
+            <span className="font-mono text-blue-900">{value}</span>
+          </span>
+        ))}
+        {!determinant && <span className="text-xs text-gray-500">非方阵：只计算秩</span>}
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <div>
+          <div className="text-xs text-gray-600 mb-1">A</div>
+          <MatrixView matrix={matrix} numberFormat={numberFormat} />
+        </div>
+        {determinant && (
+          <div>
+            <div className="text-xs text-gray-600 mb-1">A⁻¹</div>
+            {inverse ? <MatrixView matrix={inverse} numberFormat={numberFormat} /> : <div className="text-xs text-amber-700">矩阵奇异，不可逆</div>}
+          </div>
+        )}
+      </div>
+
+      {eigenpairs && (
+        <div>
+          <div className="text-xs text-gray-600 mb-1">特征值与特征向量（单位范数）</div>
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-600 text-left">
+                  <th className="font-normal pr-2">#</th>
+                  <th className="font-normal pr-2">λ</th>
+                  <th className="font-normal pr-2">v</th>
+                  <th className="font-normal text-right">‖Av − λv‖</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-blue-900">
+                {eigenpairs.map((pair, index) => (
+                  <tr
+                    key={index}
+                    onClick={() => onSelect(index)}
+                    className="border-t border-blue-100 cursor-pointer hover:bg-blue-50"
+                  >
+                    <td className="pr-2 py-0.5 text-gray-500">{index + 1}</td>
+                    <td className="pr-2 py-0.5 whitespace-nowrap">{formatComplexNumber(pair.value, numberFormat)}</td>
+                    <td className="pr-2 py-0.5">{formatVector(pair.vector, numberFormat)}</td>
+                    <td className="py-0.5 text-right">{pair.residual.toExponential(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
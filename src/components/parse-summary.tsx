@@ -0,0 +1,48 @@
+import { AlertTriangle, CheckCircle2 } from "lucide-react"
+import type { ParseDiagnostic, ParseResult } from "../lib/complex-parser"
+
+interface ParseSummaryProps {
+  result: ParseResult
+  onSelect?: (diagnostic: ParseDiagnostic) => void
+}
+
+// Listing thousands of rejected tokens is no more useful than the first screenful
+const MAX_LISTED = 50
+
+export default function ParseSummary({ result, onSelect }: ParseSummaryProps) {
+  const parsed = result.entries.length
+  const rejected = result.rejected.length
+  if (parsed === 0 && rejected === 0) return null
+
+  return (
+    <div className="flex-shrink-0 text-xs space-y-1">
+      <div className={`flex items-center gap-1.5 font-medium ${rejected > 0 ? "text-red-600" : "text-green-700"}`}>
+        {rejected > 0 ? <AlertTriangle className="h-3.5 w-3.5" /> : <CheckCircle2 className="h-3.5 w-3.5" />}
+        已解析 {parsed} 个，拒绝 {rejected} 个
+      </div>
+
+      {rejected > 0 && (
+        <ul className="max-h-24 overflow-y-auto rounded-md border border-red-100 bg-red-50/60 divide-y divide-red-100">
+          {result.rejected.slice(0, MAX_LISTED).map((diagnostic) => (
+            <li key={`${diagnostic.line}:${diagnostic.column}`}>
+              <button
+                type="button"
+                onClick={() => onSelect?.(diagnostic)}
+                className="w-full text-left px-2 py-1 hover:bg-red-100/70"
+              >
+                <span className="text-gray-500">
+                  第 {diagnostic.line} 行第 {diagnostic.column} 列
+                </span>{" "}
+                <code className="font-mono text-red-700">{diagnostic.text}</code>
+                <span className="text-gray-700">：{diagnostic.reason}</span>
+              </button>
+            </li>
+          ))}
+          {rejected > MAX_LISTED && (
+            <li className="px-2 py-1 text-gray-500">…还有 {rejected - MAX_LISTED} 个</li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,997 @@
+import { type ComplexNumber, argument, modulus } from "../lib/complex"
+import { type ColormapName, colormapColor, colormapTable, darken } from "../lib/colormap"
+import type { ComplexFunction } from "../lib/complex-expression"
+import type { DensityGrid } from "../lib/density"
+import { type DomainColoringOptions, domainColoring } from "../lib/domain-coloring"
+import { type NumberFormat, defaultNumberFormat, formatFrequency, formatTick } from "../lib/format"
+import { type SpectralPeak, type Spectrum, magnitudeToDecibels, unwrapPhase } from "../lib/signal"
+
+/*
+ * Canvas renderers for the non-Cartesian plot modes. Each one draws a full
+ * frame and returns a projector giving every pixel position at which a data
+ * point was drawn, so hover and selection work the same in all modes.
+ */
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * The part of the canvas API the renderers draw with, met by a real 2D
+ * context and by the VectorContext that records SVG and PDF exports.
+ * Images are only drawn from a canvas, scaled to a given size.
+ */
+export type PlotContext = Pick<
+  CanvasRenderingContext2D,
+  | "fillStyle"
+  | "strokeStyle"
+  | "lineWidth"
+  | "font"
+  | "textAlign"
+  | "imageSmoothingEnabled"
+  | "save"
+  | "restore"
+  | "scale"
+  | "translate"
+  | "rotate"
+  | "getTransform"
+  | "setLineDash"
+  | "beginPath"
+  | "closePath"
+  | "moveTo"
+  | "lineTo"
+  | "rect"
+  | "arc"
+  | "ellipse"
+  | "fill"
+  | "stroke"
+  | "fillRect"
+  | "strokeRect"
+  | "clip"
+  | "fillText"
+  | "measureText"
+> & {
+  drawImage(image: HTMLCanvasElement, dx: number, dy: number, dw: number, dh: number): void
+}
+
+export type PointProjector = (num: ComplexNumber, index: number) => Point[]
+
+/** A further dataset drawn for comparison; it takes no part in hover or selection */
+export interface PlotSeries {
+  name: string
+  color: string
+  complexNumbers: ComplexNumber[]
+  mean?: ComplexNumber
+}
+
+export interface RenderInput {
+  ctx: PlotContext
+  width: number
+  height: number
+  complexNumbers: ComplexNumber[]
+  mean?: ComplexNumber
+  selection?: ReadonlySet<number>
+  /** Colour of the primary dataset */
+  color?: string
+  /** Other datasets, drawn beneath the primary one */
+  series?: PlotSeries[]
+  /** Format of the axis value labels */
+  format?: NumberFormat
+}
+
+const PADDING = 40
+export const POINT_COLOR = "#3b82f6"
+const SELECTED_COLOR = "#f59e0b"
+const SELECTED_BORDER = "#b45309"
+const MEAN_COLOR = "#ef4444"
+// Above this many samples the line plots skip the per-sample markers
+const MARKER_LIMIT = 2000
+// Above this many points, markers are rasterised into one pixel buffer
+export const LARGE_DATA_THRESHOLD = 20000
+
+/** Smallest 1/2/5 × 10^k at or above value */
+function niceCeil(value: number): number {
+  if (value <= 0) return 1
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const step = [1, 2, 5, 10].find((multiple) => multiple * magnitude >= value) ?? 10
+  return step * magnitude
+}
+
+function range(values: number[]): [number, number] {
+  let min = Infinity
+  let max = -Infinity
+  for (const value of values) {
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  const span = max - min || Math.abs(max) || 1
+  return [min - span * 0.1, max + span * 0.1]
+}
+
+/** "#rrggbb" packed as an opaque little-endian RGBA pixel */
+function packColor(hex: string): number {
+  const value = Number.parseInt(hex.slice(1), 16)
+  const r = (value >> 16) & 0xff
+  const g = (value >> 8) & 0xff
+  const b = value & 0xff
+  return ((0xff << 24) | (b << 16) | (g << 8) | r) >>> 0
+}
+
+/**
+ * Draw many points as small squares by writing a pixel buffer once, instead
+ * of building and filling one arc path per point. The buffer is composited
+ * with drawImage so it respects the current clip and what is already drawn.
+ */
+export function rasterizePoints(
+  ctx: PlotContext,
+  width: number,
+  height: number,
+  count: number,
+  position: (index: number) => Point,
+  skip?: (index: number) => boolean,
+  color = POINT_COLOR,
+) {
+  // The context is scaled by devicePixelRatio; the buffer is in device pixels
+  const scale = ctx.getTransform().a
+  const pixelWidth = Math.round(width * scale)
+  const pixelHeight = Math.round(height * scale)
+  const image = new ImageData(pixelWidth, pixelHeight)
+  const pixels = new Uint32Array(image.data.buffer)
+  const packed = packColor(color)
+  const size = Math.max(2, Math.round(2 * scale))
+
+  for (let index = 0; index < count; index++) {
+    if (skip?.(index)) continue
+    const point = position(index)
+    const px = Math.round(point.x * scale) - (size >> 1)
+    const py = Math.round(point.y * scale) - (size >> 1)
+    if (px < 0 || py < 0 || px + size > pixelWidth || py + size > pixelHeight) continue
+    for (let dy = 0; dy < size; dy++) {
+      const row = (py + dy) * pixelWidth + px
+      for (let dx = 0; dx < size; dx++) pixels[row + dx] = packed
+    }
+  }
+
+  const layer = document.createElement("canvas")
+  layer.width = pixelWidth
+  layer.height = pixelHeight
+  layer.getContext("2d")?.putImageData(image, 0, 0)
+  ctx.drawImage(layer, 0, 0, width, height)
+}
+
+/**
+ * Uniform grid over the pixel positions of the drawn points, so hover and
+ * lasso queries touch only nearby points instead of the whole dataset.
+ */
+export class PointGrid {
+  private xs: Float32Array
+  private ys: Float32Array
+  private owners: Int32Array
+  private cellStart: Int32Array
+  private order: Int32Array
+  private cols: number
+  private rows: number
+  private cellSize: number
+
+  constructor(project: PointProjector, complexNumbers: ComplexNumber[], width: number, height: number, cellSize = 16) {
+    const xs: number[] = []
+    const ys: number[] = []
+    const owners: number[] = []
+    complexNumbers.forEach((num, index) => {
+      for (const point of project(num, index)) {
+        if (point.x < 0 || point.y < 0 || point.x >= width || point.y >= height) continue
+        xs.push(point.x)
+        ys.push(point.y)
+        owners.push(index)
+      }
+    })
+
+    this.xs = Float32Array.from(xs)
+    this.ys = Float32Array.from(ys)
+    this.owners = Int32Array.from(owners)
+    this.cellSize = cellSize
+    this.cols = Math.max(1, Math.ceil(width / cellSize))
+    this.rows = Math.max(1, Math.ceil(height / cellSize))
+
+    // Counting sort of positions by cell
+    const cellOf = (i: number) => Math.floor(this.ys[i] / cellSize) * this.cols + Math.floor(this.xs[i] / cellSize)
+    this.cellStart = new Int32Array(this.cols * this.rows + 1)
+    for (let i = 0; i < this.xs.length; i++) this.cellStart[cellOf(i) + 1]++
+    for (let cell = 0; cell < this.cols * this.rows; cell++) this.cellStart[cell + 1] += this.cellStart[cell]
+    const fill = this.cellStart.slice(0, -1)
+    this.order = new Int32Array(this.xs.length)
+    for (let i = 0; i < this.xs.length; i++) this.order[fill[cellOf(i)]++] = i
+  }
+
+  private forEachInRect(minX: number, minY: number, maxX: number, maxY: number, visit: (i: number) => void) {
+    const c0 = Math.max(0, Math.floor(minX / this.cellSize))
+    const c1 = Math.min(this.cols - 1, Math.floor(maxX / this.cellSize))
+    const r0 = Math.max(0, Math.floor(minY / this.cellSize))
+    const r1 = Math.min(this.rows - 1, Math.floor(maxY / this.cellSize))
+    for (let row = r0; row <= r1; row++) {
+      for (let col = c0; col <= c1; col++) {
+        const cell = row * this.cols + col
+        for (let k = this.cellStart[cell]; k < this.cellStart[cell + 1]; k++) visit(this.order[k])
+      }
+    }
+  }
+
+  /** Index and pixel position of the closest point within radius */
+  nearest(target: Point, radius: number): { index: number; position: Point } | null {
+    let best = -1
+    let bestDistance = radius
+    this.forEachInRect(target.x - radius, target.y - radius, target.x + radius, target.y + radius, (i) => {
+      const distance = Math.hypot(this.xs[i] - target.x, this.ys[i] - target.y)
+      if (distance <= bestDistance) {
+        best = i
+        bestDistance = distance
+      }
+    })
+    return best < 0 ? null : { index: this.owners[best], position: { x: this.xs[best], y: this.ys[best] } }
+  }
+
+  /** Indices of points with any drawn position inside the polygon */
+  inPolygon(polygon: Point[], contains: (point: Point, polygon: Point[]) => boolean): Set<number> {
+    const xs = polygon.map((point) => point.x)
+    const ys = polygon.map((point) => point.y)
+    const selected = new Set<number>()
+    this.forEachInRect(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys), (i) => {
+      if (contains({ x: this.xs[i], y: this.ys[i] }, polygon)) selected.add(this.owners[i])
+    })
+    return selected
+  }
+}
+
+export type DensityScale = "linear" | "log"
+
+/** Position of a cell count on the colour scale, in [0, 1] */
+function densityFraction(count: number, max: number, scale: DensityScale): number {
+  if (max <= 0) return 0
+  return scale === "log" ? Math.log1p(count) / Math.log1p(max) : count / max
+}
+
+/**
+ * Paint a count grid into a rectangle of the canvas, one cell per grid value
+ * with row 0 at the bottom. Empty cells stay transparent so the grid shows.
+ */
+export function drawHeatmap(
+  ctx: PlotContext,
+  grid: DensityGrid,
+  area: { x: number; y: number; width: number; height: number },
+  colormap: ColormapName,
+  scale: DensityScale,
+) {
+  const table = colormapTable(colormap)
+  const image = new ImageData(grid.cols, grid.rows)
+  for (let row = 0; row < grid.rows; row++) {
+    const target = (grid.rows - 1 - row) * grid.cols
+    for (let col = 0; col < grid.cols; col++) {
+      const count = grid.values[row * grid.cols + col]
+      if (count <= 0) continue
+      const entry = Math.round(densityFraction(count, grid.max, scale) * 255) * 3
+      const pixel = (target + col) * 4
+      image.data[pixel] = table[entry]
+      image.data[pixel + 1] = table[entry + 1]
+      image.data[pixel + 2] = table[entry + 2]
+      image.data[pixel + 3] = 255
+    }
+  }
+
+  const layer = document.createElement("canvas")
+  layer.width = grid.cols
+  layer.height = grid.rows
+  layer.getContext("2d")?.putImageData(image, 0, 0)
+  ctx.save()
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(layer, area.x, area.y, area.width, area.height)
+  ctx.restore()
+}
+
+/** Vertical colour scale with a title and labels at its top, middle and bottom, anchored at its top-right corner */
+function drawColorScale(
+  ctx: PlotContext,
+  right: number,
+  top: number,
+  colormap: ColormapName,
+  title: string,
+  [high, middle, low]: [string, string, string],
+) {
+  const barWidth = 12
+  const barHeight = 120
+  const x = right - barWidth - 44
+  const y = top + 22
+
+  ctx.fillStyle = "rgba(255, 255, 255, 0.85)"
+  ctx.fillRect(x - 8, top + 4, barWidth + 52, barHeight + 30)
+
+  for (let offset = 0; offset < barHeight; offset++) {
+    ctx.fillStyle = colormapColor(colormap, 1 - offset / (barHeight - 1))
+    ctx.fillRect(x, y + offset, barWidth, 1)
+  }
+  ctx.strokeStyle = "#9ca3af"
+  ctx.lineWidth = 1
+  ctx.strokeRect(x, y, barWidth, barHeight)
+
+  ctx.fillStyle = "#374151"
+  ctx.font = "10px sans-serif"
+  ctx.textAlign = "left"
+  ctx.fillText(title, x - 4, top + 15)
+  ctx.fillText(high, x + barWidth + 4, y + 8)
+  ctx.fillText(middle, x + barWidth + 4, y + barHeight / 2 + 3)
+  ctx.fillText(low, x + barWidth + 4, y + barHeight)
+}
+
+/** Vertical colour legend for a heatmap, anchored at its top-right corner */
+export function drawColorbar(
+  ctx: PlotContext,
+  right: number,
+  top: number,
+  max: number,
+  colormap: ColormapName,
+  scale: DensityScale,
+) {
+  // Counts at the ends and at the middle of the colour scale
+  const middle = scale === "log" ? Math.expm1(Math.log1p(max) / 2) : max / 2
+  drawColorScale(ctx, right, top, colormap, scale === "log" ? "计数 (log)" : "计数", [
+    String(Math.round(max)),
+    String(Math.round(middle)),
+    "0",
+  ])
+}
+
+/** Colour legend of a trajectory: sample numbers, counted from 1 as in the hover readout */
+export function drawIndexColorbar(ctx: PlotContext, right: number, top: number, count: number, colormap: ColormapName) {
+  drawColorScale(ctx, right, top, colormap, "序号", [String(count), String(Math.round((count + 1) / 2)), "1"])
+}
+
+/**
+ * Names and colours of the plotted datasets in one row along the top edge,
+ * right-aligned, so that it is part of the exported image.
+ */
+export function drawSeriesLegend(ctx: PlotContext, right: number, entries: Array<{ name: string; color: string }>) {
+  ctx.font = "11px sans-serif"
+  ctx.textAlign = "left"
+  const widths = entries.map(({ name }) => ctx.measureText(name).width + 24)
+  let x = right - widths.reduce((sum, width) => sum + width, 0)
+  entries.forEach(({ name, color }, index) => {
+    ctx.fillStyle = color
+    ctx.beginPath()
+    ctx.arc(x + 5, 16, 4, 0, 2 * Math.PI)
+    ctx.fill()
+    ctx.strokeStyle = darken(color)
+    ctx.lineWidth = 1
+    ctx.stroke()
+    ctx.fillStyle = "#374151"
+    ctx.fillText(name, x + 13, 20)
+    x += widths[index]
+  })
+}
+
+/** The points of one comparison dataset, rasterised when large */
+export function drawSeriesPoints(
+  ctx: PlotContext,
+  width: number,
+  height: number,
+  { color, complexNumbers }: PlotSeries,
+  project: (num: ComplexNumber) => Point,
+) {
+  if (complexNumbers.length > LARGE_DATA_THRESHOLD) {
+    rasterizePoints(ctx, width, height, complexNumbers.length, (index) => project(complexNumbers[index]), undefined, color)
+  } else {
+    for (const num of complexNumbers) drawMarker(ctx, project(num), false, 3.5, color)
+  }
+}
+
+/** Thin segments joining each point to its image under a transform, in one path */
+export function drawLinks(
+  ctx: PlotContext,
+  links: Array<[ComplexNumber, ComplexNumber]>,
+  project: (num: ComplexNumber) => Point,
+) {
+  ctx.strokeStyle = "rgba(107, 114, 128, 0.35)"
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  for (const [from, to] of links) {
+    const start = project(from)
+    const end = project(to)
+    ctx.moveTo(start.x, start.y)
+    ctx.lineTo(end.x, end.y)
+  }
+  ctx.stroke()
+}
+
+// Trajectory segments are stroked in this many colour steps, one path each
+const TRAJECTORY_STEPS = 64
+// Opacity of the samples before a sliding window
+const FADED_ALPHA = 0.15
+
+export interface TrajectoryOptions {
+  colormap: ColormapName
+  /** Samples drawn so far, from the first */
+  count: number
+  /** Samples before this index are drawn faint, leaving the window bright */
+  windowStart: number
+}
+
+/**
+ * The samples joined in input order, each segment coloured by its index on
+ * the colormap over the whole sequence, so that colours do not shift while
+ * it plays. The first sample is ringed in green and the last one drawn is
+ * marked with a square.
+ */
+export function drawTrajectory(
+  ctx: PlotContext,
+  complexNumbers: ComplexNumber[],
+  project: (num: ComplexNumber) => Point,
+  { colormap, count, windowStart }: TrajectoryOptions,
+) {
+  const last = complexNumbers.length - 1
+  const shown = Math.min(count, complexNumbers.length)
+  if (shown === 0) return
+  const position = (index: number) => (last > 0 ? index / last : 0)
+  const step = (index: number) => Math.round(position(index) * (TRAJECTORY_STEPS - 1))
+
+  // Consecutive segments share a colour step, so a path is stroked whenever the step changes
+  const strokeSegments = (from: number, to: number, alpha: number) => {
+    ctx.lineWidth = 1.5
+    let current = -1
+    for (let index = from; index < to; index++) {
+      if (step(index) !== current) {
+        if (current >= 0) ctx.stroke()
+        current = step(index)
+        ctx.strokeStyle = colormapColor(colormap, current / (TRAJECTORY_STEPS - 1), alpha)
+        ctx.beginPath()
+        const start = project(complexNumbers[index])
+        ctx.moveTo(start.x, start.y)
+      }
+      const end = project(complexNumbers[index + 1])
+      ctx.lineTo(end.x, end.y)
+    }
+    if (current >= 0) ctx.stroke()
+  }
+  const start = Math.min(windowStart, shown - 1)
+  strokeSegments(0, start, FADED_ALPHA)
+  strokeSegments(start, shown - 1, 1)
+
+  if (shown <= MARKER_LIMIT) {
+    for (let index = 0; index < shown; index++) {
+      const point = project(complexNumbers[index])
+      ctx.fillStyle = colormapColor(colormap, position(index), index < start ? FADED_ALPHA : 1)
+      ctx.beginPath()
+      ctx.arc(point.x, point.y, 2.5, 0, 2 * Math.PI)
+      ctx.fill()
+    }
+  }
+
+  ctx.font = "11px sans-serif"
+  ctx.textAlign = "left"
+  const first = project(complexNumbers[0])
+  ctx.strokeStyle = "#16a34a"
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.arc(first.x, first.y, 7, 0, 2 * Math.PI)
+  ctx.stroke()
+  ctx.fillStyle = "#15803d"
+  ctx.fillText("起点", first.x + 10, first.y + 14)
+
+  if (shown > 1) {
+    const end = project(complexNumbers[shown - 1])
+    ctx.fillStyle = "#111827"
+    ctx.fillRect(end.x - 5, end.y - 5, 10, 10)
+    ctx.strokeStyle = "#ffffff"
+    ctx.lineWidth = 1.5
+    ctx.strokeRect(end.x - 5, end.y - 5, 10, 10)
+    ctx.fillStyle = "#111827"
+    ctx.fillText(shown === complexNumbers.length ? "终点" : `#${shown}`, end.x + 10, end.y + 14)
+  }
+}
+
+/** A polynomial zero as a ring and a pole as a cross, the usual pole–zero plot marks */
+export function drawRootMarker(ctx: PlotContext, point: Point, kind: "zero" | "pole", color: string) {
+  const size = 5
+  ctx.strokeStyle = color
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  if (kind === "zero") {
+    ctx.arc(point.x, point.y, size, 0, 2 * Math.PI)
+  } else {
+    ctx.moveTo(point.x - size, point.y - size)
+    ctx.lineTo(point.x + size, point.y + size)
+    ctx.moveTo(point.x + size, point.y - size)
+    ctx.lineTo(point.x - size, point.y + size)
+  }
+  ctx.stroke()
+}
+
+/** Hollow ring marking the mean of a comparison dataset */
+export function drawSeriesMean(ctx: PlotContext, point: Point, color: string) {
+  ctx.strokeStyle = darken(color)
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.arc(point.x, point.y, 6, 0, 2 * Math.PI)
+  ctx.stroke()
+}
+
+// Decision regions are evaluated on blocks of this many pixels
+const REGION_BLOCK = 3
+const REGION_COLORS = ["#dbeafe", "#dcfce7", "#fef3c7", "#fce7f3", "#ede9fe", "#ccfbf1"]
+
+/**
+ * Nearest-symbol regions of a constellation, evaluated in data coordinates
+ * (the axes need not share a scale) and painted with their boundaries.
+ */
+export function drawDecisionRegions(
+  ctx: PlotContext,
+  area: { x: number; y: number; width: number; height: number },
+  toData: (x: number, y: number) => ComplexNumber,
+  symbols: ComplexNumber[],
+) {
+  const cols = Math.ceil(area.width / REGION_BLOCK)
+  const rows = Math.ceil(area.height / REGION_BLOCK)
+  const labels = new Int32Array(cols * rows)
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const z = toData(area.x + (col + 0.5) * REGION_BLOCK, area.y + (row + 0.5) * REGION_BLOCK)
+      let best = 0
+      let bestDistance = Infinity
+      symbols.forEach((symbol, index) => {
+        const distance = (z.real - symbol.real) ** 2 + (z.imag - symbol.imag) ** 2
+        if (distance < bestDistance) {
+          best = index
+          bestDistance = distance
+        }
+      })
+      labels[row * cols + col] = best
+    }
+  }
+
+  const palette = REGION_COLORS.map((hex) => Number.parseInt(hex.slice(1), 16))
+  const boundary = 0x9ca3af
+  const image = new ImageData(cols, rows)
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const label = labels[row * cols + col]
+      const edge =
+        (col + 1 < cols && labels[row * cols + col + 1] !== label) ||
+        (row + 1 < rows && labels[(row + 1) * cols + col] !== label)
+      const color = edge ? boundary : palette[label % palette.length]
+      const pixel = (row * cols + col) * 4
+      image.data[pixel] = (color >> 16) & 0xff
+      image.data[pixel + 1] = (color >> 8) & 0xff
+      image.data[pixel + 2] = color & 0xff
+      image.data[pixel + 3] = edge ? 200 : 110
+    }
+  }
+
+  const layer = document.createElement("canvas")
+  layer.width = cols
+  layer.height = rows
+  layer.getContext("2d")?.putImageData(image, 0, 0)
+  ctx.save()
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(layer, area.x, area.y, cols * REGION_BLOCK, rows * REGION_BLOCK)
+  ctx.restore()
+}
+
+// f(z) is evaluated once per block of this many pixels
+const DOMAIN_BLOCK = 2
+
+/** Domain colouring of f over the plot area, in the data coordinates given by toData */
+export function drawDomainColoring(
+  ctx: PlotContext,
+  area: { x: number; y: number; width: number; height: number },
+  toData: (x: number, y: number) => ComplexNumber,
+  f: ComplexFunction,
+  options: DomainColoringOptions,
+) {
+  const cols = Math.ceil(area.width / DOMAIN_BLOCK)
+  const rows = Math.ceil(area.height / DOMAIN_BLOCK)
+  const image = new ImageData(cols, rows)
+  image.data.set(
+    domainColoring(
+      f,
+      cols,
+      rows,
+      (col, row) => toData(area.x + (col + 0.5) * DOMAIN_BLOCK, area.y + (row + 0.5) * DOMAIN_BLOCK),
+      options,
+    ),
+  )
+
+  const layer = document.createElement("canvas")
+  layer.width = cols
+  layer.height = rows
+  layer.getContext("2d")?.putImageData(image, 0, 0)
+  ctx.save()
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(layer, area.x, area.y, cols * DOMAIN_BLOCK, rows * DOMAIN_BLOCK)
+  ctx.restore()
+}
+
+/** Ideal symbol positions as haloed crosses */
+export function drawIdealPoints(ctx: PlotContext, points: Point[]) {
+  for (const [color, lineWidth] of [
+    ["#ffffff", 4],
+    ["#111827", 2],
+  ] as const) {
+    ctx.strokeStyle = color
+    ctx.lineWidth = lineWidth
+    ctx.beginPath()
+    for (const { x, y } of points) {
+      ctx.moveTo(x - 6, y)
+      ctx.lineTo(x + 6, y)
+      ctx.moveTo(x, y - 6)
+      ctx.lineTo(x, y + 6)
+    }
+    ctx.stroke()
+  }
+}
+
+function drawMarker(ctx: PlotContext, point: Point, selected: boolean, radius = 4, color = POINT_COLOR) {
+  ctx.fillStyle = selected ? SELECTED_COLOR : color
+  ctx.beginPath()
+  ctx.arc(point.x, point.y, selected ? radius + 1 : radius, 0, 2 * Math.PI)
+  ctx.fill()
+  ctx.strokeStyle = selected ? SELECTED_BORDER : darken(color)
+  ctx.lineWidth = selected ? 1.5 : 1
+  ctx.stroke()
+}
+
+function drawMeanMarker(ctx: PlotContext, point: Point) {
+  ctx.fillStyle = MEAN_COLOR
+  ctx.beginPath()
+  ctx.arc(point.x, point.y, 6, 0, 2 * Math.PI)
+  ctx.fill()
+  ctx.strokeStyle = "#dc2626"
+  ctx.lineWidth = 2
+  ctx.stroke()
+
+  ctx.fillStyle = "#dc2626"
+  ctx.font = "bold 12px sans-serif"
+  ctx.textAlign = "left"
+  ctx.fillText("Mean", point.x + 10, point.y - 10)
+}
+
+/** True polar chart: radius is |z|, angle is arg z, with equal scaling on both axes */
+export function drawPolarChart({
+  ctx,
+  width,
+  height,
+  complexNumbers,
+  mean,
+  selection,
+  color = POINT_COLOR,
+  series = [],
+  format = defaultNumberFormat,
+}: RenderInput): PointProjector {
+  const cx = width / 2
+  const cy = height / 2
+  const radius = Math.min(width, height) / 2 - PADDING
+
+  let maxModulus = 0
+  for (const num of complexNumbers) maxModulus = Math.max(maxModulus, modulus(num))
+  for (const other of series) {
+    for (const num of other.complexNumbers) maxModulus = Math.max(maxModulus, modulus(num))
+  }
+  const outer = niceCeil(maxModulus)
+
+  const project = (num: ComplexNumber): Point => {
+    const r = (modulus(num) / outer) * radius
+    const theta = argument(num)
+    return { x: cx + r * Math.cos(theta), y: cy - r * Math.sin(theta) }
+  }
+
+  // Radial gridlines (circles of constant modulus)
+  ctx.strokeStyle = "#e5e7eb"
+  ctx.lineWidth = 1
+  ctx.fillStyle = "#6b7280"
+  ctx.font = "10px sans-serif"
+  ctx.textAlign = "left"
+  for (let ring = 1; ring <= 5; ring++) {
+    const r = (radius * ring) / 5
+    ctx.beginPath()
+    ctx.arc(cx, cy, r, 0, 2 * Math.PI)
+    ctx.stroke()
+    ctx.fillText(formatTick((outer * ring) / 5, outer / 5, format), cx + r + 3, cy - 3)
+  }
+
+  // Angular gridlines every 30°
+  ctx.textAlign = "center"
+  for (let degrees = 0; degrees < 360; degrees += 30) {
+    const theta = (degrees * Math.PI) / 180
+    ctx.strokeStyle = degrees % 90 === 0 ? "#9ca3af" : "#e5e7eb"
+    ctx.beginPath()
+    ctx.moveTo(cx, cy)
+    ctx.lineTo(cx + radius * Math.cos(theta), cy - radius * Math.sin(theta))
+    ctx.stroke()
+    ctx.fillText(`${degrees}°`, cx + (radius + 16) * Math.cos(theta), cy - (radius + 16) * Math.sin(theta) + 3)
+  }
+
+  for (const other of series) drawSeriesPoints(ctx, width, height, other, project)
+
+  if (complexNumbers.length > LARGE_DATA_THRESHOLD) {
+    rasterizePoints(
+      ctx,
+      width,
+      height,
+      complexNumbers.length,
+      (index) => project(complexNumbers[index]),
+      (index) => selection?.has(index) ?? false,
+      color,
+    )
+  } else {
+    complexNumbers.forEach((num, index) => {
+      if (!selection?.has(index)) drawMarker(ctx, project(num), false, 4, color)
+    })
+  }
+  selection?.forEach((index) => {
+    const num = complexNumbers[index]
+    if (num) drawMarker(ctx, project(num), true)
+  })
+
+  for (const other of series) {
+    if (other.mean) drawSeriesMean(ctx, project(other.mean), other.color)
+  }
+  if (mean) drawMeanMarker(ctx, project(mean))
+
+  return (num) => [project(num)]
+}
+
+export interface MagnitudePhaseOptions {
+  decibels: boolean
+  unwrap: boolean
+}
+
+/**
+ * Line through values[i] at indexToX(i). When there are more values than
+ * pixel columns it becomes a min/max envelope per column, which keeps long
+ * traces cheap and faithful. NaN values leave gaps.
+ */
+function strokeTrace(
+  ctx: PlotContext,
+  values: number[],
+  indexToX: (index: number) => number,
+  valueToY: (value: number) => number,
+  color: string,
+  lineWidth: number,
+) {
+  ctx.strokeStyle = color
+  ctx.lineWidth = lineWidth
+  ctx.beginPath()
+  const start = indexToX(0)
+  const span = indexToX(values.length - 1) - start
+  if (values.length > span * 2) {
+    const columns = Math.ceil(span)
+    for (let column = 0; column < columns; column++) {
+      const from = Math.floor((column / columns) * values.length)
+      const to = Math.max(from + 1, Math.floor(((column + 1) / columns) * values.length))
+      let lo = Infinity
+      let hi = -Infinity
+      for (let index = from; index < to; index++) {
+        if (Number.isNaN(values[index])) continue
+        lo = Math.min(lo, values[index])
+        hi = Math.max(hi, values[index])
+      }
+      if (lo > hi) continue
+      const x = start + column + 0.5
+      ctx.moveTo(x, valueToY(hi))
+      ctx.lineTo(x, Math.max(valueToY(lo), valueToY(hi) + 1))
+    }
+  } else {
+    let drawing = false
+    values.forEach((value, index) => {
+      if (Number.isNaN(value)) {
+        drawing = false
+        return
+      }
+      const x = indexToX(index)
+      const y = valueToY(value)
+      if (drawing) ctx.lineTo(x, y)
+      else ctx.moveTo(x, y)
+      drawing = true
+    })
+  }
+  ctx.stroke()
+}
+
+interface Panel {
+  top: number
+  left: number
+  width: number
+  height: number
+  min: number
+  max: number
+  label: string
+  valueToY: (value: number) => number
+}
+
+/** Border, horizontal gridlines with value labels, x ticks and the title of one stacked panel */
+function drawPanelFrame(
+  ctx: PlotContext,
+  panel: Panel,
+  ticks: Array<{ x: number; label: string }>,
+  format: NumberFormat = defaultNumberFormat,
+) {
+  const { top, left, width, height } = panel
+  ctx.strokeStyle = "#e5e7eb"
+  ctx.lineWidth = 1
+  ctx.fillStyle = "#6b7280"
+  ctx.font = "10px sans-serif"
+  ctx.textAlign = "right"
+  for (let i = 0; i <= 4; i++) {
+    const value = panel.min + ((panel.max - panel.min) * i) / 4
+    const y = panel.valueToY(value)
+    ctx.beginPath()
+    ctx.moveTo(left, y)
+    ctx.lineTo(left + width, y)
+    ctx.stroke()
+    ctx.fillText(formatTick(value, (panel.max - panel.min) / 4, format), left - 5, y + 3)
+  }
+  ctx.strokeStyle = "#374151"
+  ctx.strokeRect(left, top, width, height)
+
+  // Ticks along the bottom of the panel
+  ctx.textAlign = "center"
+  for (const tick of ticks) ctx.fillText(tick.label, tick.x, top + height + 12)
+
+  ctx.fillStyle = "#374151"
+  ctx.font = "12px sans-serif"
+  ctx.textAlign = "left"
+  ctx.fillText(panel.label, left + 5, top - 6)
+}
+
+/** Two stacked line plots: magnitude against index on top, phase against index below */
+export function drawMagnitudePhase(
+  { ctx, width, height, complexNumbers, mean, selection, color = POINT_COLOR, series = [], format }: RenderInput,
+  { decibels, unwrap }: MagnitudePhaseOptions,
+): PointProjector {
+  const traceValues = (numbers: ComplexNumber[]): [number[], number[]] => {
+    const magnitudes = numbers.map(modulus)
+    const phases = numbers.map(argument)
+    return [decibels ? magnitudeToDecibels(magnitudes) : magnitudes, unwrap ? unwrapPhase(phases) : phases]
+  }
+  const primary = traceValues(complexNumbers)
+  const others = series.map((other) => ({ color: other.color, values: traceValues(other.complexNumbers) }))
+  // All datasets share the index axis, which spans the longest one
+  const n = Math.max(complexNumbers.length, ...series.map((other) => other.complexNumbers.length))
+
+  const gap = 30
+  const panelHeight = (height - 2 * PADDING - gap) / 2
+  const left = PADDING + 20
+  const plotWidth = width - left - PADDING
+  const indexToX = (index: number) => left + (n > 1 ? (index / (n - 1)) * plotWidth : plotWidth / 2)
+
+  const panels = [
+    { top: PADDING, values: primary[0], label: decibels ? "|z| (dB)" : "|z|" },
+    { top: PADDING + panelHeight + gap, values: primary[1], label: unwrap ? "arg z (rad, 展开)" : "arg z (rad)" },
+  ].map((panel, panelIndex) => {
+    const [min, max] = range(panel.values.concat(...others.map((other) => other.values[panelIndex])))
+    const valueToY = (value: number) => panel.top + panelHeight - ((value - min) / (max - min)) * panelHeight
+    return { ...panel, min, max, valueToY }
+  })
+
+  const meanReferences = mean
+    ? [decibels ? magnitudeToDecibels([modulus(mean)])[0] : modulus(mean), argument(mean)]
+    : []
+
+  const tickCount = Math.min(10, Math.max(n - 1, 1))
+  const ticks = Array.from({ length: tickCount + 1 }, (_, i) => {
+    const index = Math.round(((n - 1) * i) / tickCount)
+    return { x: indexToX(index), label: String(index) }
+  })
+
+  panels.forEach((panel, panelIndex) => {
+    drawPanelFrame(ctx, { ...panel, left, width: plotWidth, height: panelHeight }, ticks, format)
+
+    // Mean reference line
+    const reference = meanReferences[panelIndex]
+    if (reference !== undefined) {
+      ctx.strokeStyle = MEAN_COLOR
+      ctx.lineWidth = 1
+      ctx.setLineDash([6, 4])
+      ctx.beginPath()
+      ctx.moveTo(left, panel.valueToY(reference))
+      ctx.lineTo(left + plotWidth, panel.valueToY(reference))
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    // Sample traces, comparison datasets beneath the primary one
+    for (const other of others) strokeTrace(ctx, other.values[panelIndex], indexToX, panel.valueToY, other.color, 1)
+    strokeTrace(ctx, panel.values, indexToX, panel.valueToY, color, 1.5)
+
+    panel.values.forEach((value, index) => {
+      const selected = selection?.has(index) ?? false
+      if (panel.values.length <= MARKER_LIMIT || selected) {
+        drawMarker(ctx, { x: indexToX(index), y: panel.valueToY(value) }, selected, 2.5, color)
+      }
+    })
+  })
+
+  ctx.fillStyle = "#374151"
+  ctx.font = "12px sans-serif"
+  ctx.textAlign = "center"
+  ctx.fillText("Index", left + plotWidth / 2, height - 8)
+
+  return (_num, index) =>
+    panels.map((panel) => ({ x: indexToX(index), y: panel.valueToY(panel.values[index]) }))
+}
+
+export interface SpectrumRenderOptions {
+  decibels: boolean
+  peaks: SpectralPeak[]
+}
+
+// The dB axis stops this far below the peak so the numerical noise floor does not squash it
+const SPECTRUM_DYNAMIC_RANGE = 120
+
+/** Magnitude and phase of a spectrum against frequency, with the detected peaks labelled */
+export function drawSpectrum(
+  { ctx, width, height, color = POINT_COLOR, format }: RenderInput,
+  spectrum: Spectrum,
+  { decibels, peaks }: SpectrumRenderOptions,
+): PointProjector {
+  const { frequencies, magnitudes, phases } = spectrum
+  const bins = frequencies.length
+  let magnitudeValues = magnitudes
+  if (decibels) {
+    const levels = magnitudeToDecibels(magnitudes)
+    const floor = levels.reduce((max, level) => Math.max(max, level), -Infinity) - SPECTRUM_DYNAMIC_RANGE
+    magnitudeValues = levels.map((level) => Math.max(level, floor))
+  }
+
+  const gap = 30
+  const panelHeight = (height - 2 * PADDING - gap) / 2
+  const left = PADDING + 20
+  const plotWidth = width - left - PADDING
+  const first = frequencies[0]
+  const last = frequencies[bins - 1]
+  const frequencyToX = (frequency: number) =>
+    left + (last > first ? ((frequency - first) / (last - first)) * plotWidth : plotWidth / 2)
+  const indexToX = (index: number) => frequencyToX(frequencies[index])
+
+  const panels = [
+    { top: PADDING, values: magnitudeValues, label: decibels ? "|X(f)| (dB)" : "|X(f)|" },
+    { top: PADDING + panelHeight + gap, values: phases, label: "arg X(f) (rad)" },
+  ].map((panel) => {
+    const [min, max] = range(panel.values)
+    const valueToY = (value: number) => panel.top + panelHeight - ((value - min) / (max - min)) * panelHeight
+    return { ...panel, left, width: plotWidth, height: panelHeight, min, max, valueToY }
+  })
+
+  const ticks = Array.from({ length: 6 }, (_, i) => {
+    const frequency = first + ((last - first) * i) / 5
+    return { x: frequencyToX(frequency), label: formatFrequency(frequency) }
+  })
+
+  for (const panel of panels) {
+    drawPanelFrame(ctx, panel, ticks, format)
+    strokeTrace(ctx, panel.values, indexToX, panel.valueToY, color, 1.25)
+  }
+
+  // Peak markers with their frequencies
+  const magnitudePanel = panels[0]
+  ctx.font = "11px sans-serif"
+  ctx.textAlign = "center"
+  for (const peak of peaks) {
+    const x = frequencyToX(peak.frequency)
+    const y = magnitudePanel.valueToY(magnitudePanel.values[peak.index])
+    ctx.fillStyle = MEAN_COLOR
+    ctx.beginPath()
+    ctx.moveTo(x, y - 3)
+    ctx.lineTo(x - 5, y - 11)
+    ctx.lineTo(x + 5, y - 11)
+    ctx.closePath()
+    ctx.fill()
+    ctx.fillStyle = "#374151"
+    ctx.fillText(formatFrequency(peak.frequency), x, Math.max(y - 15, magnitudePanel.top + 10))
+  }
+
+  ctx.fillStyle = "#374151"
+  ctx.font = "12px sans-serif"
+  ctx.textAlign = "center"
+  ctx.fillText("Frequency", left + plotWidth / 2, height - 8)
+
+  // Bins are not data points, so nothing here can be hovered or selected
+  return () => []
+}
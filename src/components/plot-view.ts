@@ -0,0 +1,63 @@
+import type { ComplexNumber } from "../lib/complex"
+
+/*
+ * The window of the complex plane shown by the planar plot modes, and the
+ * mapping between it and canvas pixels. The Cartesian and domain-colouring
+ * views both draw through it, so zoom and pan carry over between them.
+ */
+
+/** Visible window of the complex plane */
+export interface PlotView {
+  minReal: number
+  maxReal: number
+  minImag: number
+  maxImag: number
+}
+
+export const PLOT_PADDING = 40
+
+/** Pixel ↔ complex-plane mapping of a view drawn on a width × height canvas */
+export function makeTransform(view: PlotView, width: number, height: number) {
+  const plotWidth = width - 2 * PLOT_PADDING
+  const plotHeight = height - 2 * PLOT_PADDING
+  const realRange = view.maxReal - view.minReal
+  const imagRange = view.maxImag - view.minImag
+
+  return {
+    realToX: (real: number) => PLOT_PADDING + ((real - view.minReal) / realRange) * plotWidth,
+    imagToY: (imag: number) => height - PLOT_PADDING - ((imag - view.minImag) / imagRange) * plotHeight,
+    xToReal: (x: number) => view.minReal + ((x - PLOT_PADDING) / plotWidth) * realRange,
+    yToImag: (y: number) => view.minImag + ((height - PLOT_PADDING - y) / plotHeight) * imagRange,
+  }
+}
+
+/** Scale the view by factor around a fixed point of the plane */
+export function zoomView(view: PlotView, anchor: ComplexNumber, factor: number): PlotView {
+  return {
+    minReal: anchor.real + (view.minReal - anchor.real) * factor,
+    maxReal: anchor.real + (view.maxReal - anchor.real) * factor,
+    minImag: anchor.imag + (view.minImag - anchor.imag) * factor,
+    maxImag: anchor.imag + (view.maxImag - anchor.imag) * factor,
+  }
+}
+
+/** Shift the view so that content follows a drag of (dx, dy) pixels */
+export function panView(view: PlotView, dx: number, dy: number, width: number, height: number): PlotView {
+  const real = (dx / (width - 2 * PLOT_PADDING)) * (view.maxReal - view.minReal)
+  const imag = (dy / (height - 2 * PLOT_PADDING)) * (view.maxImag - view.minImag)
+  return {
+    minReal: view.minReal - real,
+    maxReal: view.maxReal - real,
+    minImag: view.minImag + imag,
+    maxImag: view.maxImag + imag,
+  }
+}
+
+/** A view read back from a link: four finite bounds, each minimum below its maximum */
+export function isPlotView(value: unknown): value is PlotView {
+  if (typeof value !== "object" || value === null) return false
+  const { minReal, maxReal, minImag, maxImag } = value as Record<string, unknown>
+  const bounds = [minReal, maxReal, minImag, maxImag]
+  if (!bounds.every((bound) => typeof bound === "number" && Number.isFinite(bound))) return false
+  return (minReal as number) < (maxReal as number) && (minImag as number) < (maxImag as number)
+}
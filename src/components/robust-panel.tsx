@@ -0,0 +1,257 @@
+import { Button } from "./ui/button"
+import type { ComplexNumber } from "../lib/complex"
+import { type NumberFormat, formatComplexNumber, formatReal } from "../lib/format"
+import { MAD_NORMAL_SCALE, type Outlier, type RobustStatistics } from "../lib/robust"
+
+export interface RobustSettings {
+  enabled: boolean
+  /** Flag by a χ² confidence level or by a fixed Mahalanobis distance */
+  thresholdKind: "confidence" | "distance"
+  confidence: number
+  distance: number
+  trimFraction: number
+}
+
+export const defaultRobustSettings: RobustSettings = {
+  enabled: false,
+  thresholdKind: "confidence",
+  confidence: 0.99,
+  distance: 3,
+  trimFraction: 0.1,
+}
+
+interface RobustPanelProps {
+  settings: RobustSettings
+  onChange: (patch: Partial<RobustSettings>) => void
+  complexNumbers: ComplexNumber[]
+  robust: RobustStatistics | null
+  /** null when the covariance is singular and no distance can be computed */
+  outliers: Outlier[] | null
+  excluded: ReadonlySet<number>
+  onExcludedChange: (excluded: Set<number>) => void
+  /** While the statistics of the included points are computed in the worker */
+  recomputing: boolean
+  selection: ReadonlySet<number>
+  numberFormat: NumberFormat
+}
+
+// Longer outlier lists are cut; the plot still marks every one
+const MAX_LISTED = 200
+
+const inputClassName = "h-7 w-20 rounded-md border border-input bg-background px-2 text-xs"
+
+/**
+ * Robust location and spread of the included points, and the points
+ * flagged by Mahalanobis distance. Excluding a point here, or the current
+ * plot selection, takes it out of every statistic until it is restored.
+ */
+export default function RobustPanel({
+  settings,
+  onChange,
+  complexNumbers,
+  robust,
+  outliers,
+  excluded,
+  onExcludedChange,
+  recomputing,
+  selection,
+  numberFormat,
+}: RobustPanelProps) {
+  const toggle = (index: number) => {
+    const next = new Set(excluded)
+    if (next.has(index)) next.delete(index)
+    else next.add(index)
+    onExcludedChange(next)
+  }
+
+  const withAll = (indices: Iterable<number>, exclude: boolean) => {
+    const next = new Set(excluded)
+    for (const index of indices) {
+      if (exclude) next.add(index)
+      else next.delete(index)
+    }
+    onExcludedChange(next)
+  }
+
+  const robustRows: Array<[string, string]> = robust
+    ? [
+        ["坐标中位数", formatComplexNumber(robust.coordinateMedian, numberFormat)],
+        ["几何中位数", formatComplexNumber(robust.geometricMedian, numberFormat)],
+        ["MAD (实部, 虚部)", `${formatReal(robust.mad.real, numberFormat)}, ${formatReal(robust.mad.imag, numberFormat)}`],
+        [
+          `σ 估计 (MAD×${MAD_NORMAL_SCALE})`,
+          `${formatReal(robust.mad.real * MAD_NORMAL_SCALE, numberFormat)}, ${formatReal(robust.mad.imag * MAD_NORMAL_SCALE, numberFormat)}`,
+        ],
+        ["径向 MAD", formatReal(robust.radialMad, numberFormat)],
+        [`截尾均值 (${(robust.trimFraction * 100).toFixed(0)}%)`, formatComplexNumber(robust.trimmedMean, numberFormat)],
+      ]
+    : []
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1.5 cursor-pointer select-none font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ enabled: e.target.checked })}
+            className="accent-blue-600"
+          />
+          稳健统计与异常值
+        </label>
+        {settings.enabled && (
+          <>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              判定
+              <select
+                value={settings.thresholdKind}
+                onChange={(e) => onChange({ thresholdKind: e.target.value as RobustSettings["thresholdKind"] })}
+                className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+              >
+                <option value="confidence">χ² 置信水平</option>
+                <option value="distance">马氏距离阈值</option>
+              </select>
+              {settings.thresholdKind === "confidence" ? (
+                <input
+                  type="number"
+                  min={0.5}
+                  max={0.9999}
+                  step={0.005}
+                  value={settings.confidence}
+                  onChange={(e) => {
+                    const value = Number(e.target.value)
+                    if (value > 0 && value < 1) onChange({ confidence: value })
+                  }}
+                  className={inputClassName}
+                />
+              ) : (
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.1}
+                  value={settings.distance}
+                  onChange={(e) => {
+                    const value = Number(e.target.value)
+                    if (value > 0) onChange({ distance: value })
+                  }}
+                  className={inputClassName}
+                />
+              )}
+            </label>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              截尾比例
+              <input
+                type="number"
+                min={0}
+                max={0.45}
+                step={0.05}
+                value={settings.trimFraction}
+                onChange={(e) => {
+                  const value = Number(e.target.value)
+                  if (value >= 0 && value < 0.5) onChange({ trimFraction: value })
+                }}
+                className={inputClassName}
+              />
+            </label>
+          </>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={selection.size === 0}
+            onClick={() => withAll(selection, true)}
+            className="h-7 px-2 text-xs"
+          >
+            排除选中{selection.size > 0 && `（${selection.size}）`}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={selection.size === 0}
+            onClick={() => withAll(selection, false)}
+            className="h-7 px-2 text-xs"
+          >
+            恢复选中
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={excluded.size === 0}
+            onClick={() => onExcludedChange(new Set())}
+            className="h-7 px-2 text-xs"
+          >
+            全部恢复{excluded.size > 0 && `（${excluded.size}）`}
+          </Button>
+        </div>
+      </div>
+
+      {(excluded.size > 0 || recomputing) && (
+        <div className="text-xs text-gray-600">
+          {excluded.size > 0 && `已排除 ${excluded.size} 个点，统计量按其余 ${complexNumbers.length - excluded.size} 个点计算`}
+          {recomputing && <span className="ml-1 animate-pulse text-blue-700">正在重新计算…</span>}
+        </div>
+      )}
+
+      {settings.enabled && (
+        <div className="grid grid-cols-3 gap-4">
+          <dl className="col-span-1 space-y-1">
+            {robustRows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-3 text-xs">
+                <dt className="text-gray-600 flex-shrink-0">{label}</dt>
+                <dd className="font-mono text-blue-900 text-right">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="col-span-2">
+            {outliers === null ? (
+              <div className="text-xs text-gray-500">协方差矩阵奇异（数据共线或为常数），无法计算马氏距离</div>
+            ) : outliers.length === 0 ? (
+              <div className="text-xs text-gray-500">没有超出阈值的点</div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs text-gray-600">异常值 {outliers.length} 个（按距离排序，以包含的点估计均值与协方差）</span>
+                  <button
+                    type="button"
+                    onClick={() => withAll(outliers.map((outlier) => outlier.index), true)}
+                    className="text-xs text-red-700 hover:underline"
+                  >
+                    全部排除
+                  </button>
+                </div>
+                <div className="max-h-48 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {outliers.slice(0, MAX_LISTED).map((outlier) => (
+                        <tr key={outlier.index} className="border-t border-red-100">
+                          <td className="pr-2 py-0.5 text-gray-500 font-mono">#{outlier.index + 1}</td>
+                          <td className="pr-2 py-0.5 font-mono text-blue-900">
+                            {formatComplexNumber(complexNumbers[outlier.index], numberFormat)}
+                          </td>
+                          <td className="pr-2 py-0.5 text-gray-700">{outlier.reason}</td>
+                          <td className="py-0.5 text-right">
+                            <button
+                              type="button"
+                              onClick={() => toggle(outlier.index)}
+                              className={`hover:underline ${excluded.has(outlier.index) ? "text-blue-700" : "text-red-700"}`}
+                            >
+                              {excluded.has(outlier.index) ? "恢复" : "排除"}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {outliers.length > MAX_LISTED && (
+                    <div className="text-xs text-gray-500 pt-1">仅列出距离最大的 {MAX_LISTED} 个</div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
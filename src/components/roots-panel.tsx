@@ -0,0 +1,73 @@
+import type { PolynomialRoot } from "../lib/polynomial"
+import type { SeriesRoots } from "../lib/series"
+import { type NumberFormat, formatAngle, formatComplexNumber, formatReal } from "../lib/format"
+import { argument, modulus } from "../lib/complex"
+
+interface RootsPanelProps {
+  roots: SeriesRoots
+  numberFormat: NumberFormat
+  /** Index of the root in the plotted numbers, zeros first */
+  onSelect: (index: number) => void
+}
+
+// Backward errors above this mean the iteration did not settle on the root
+const SUSPECT_RESIDUAL = 1e-10
+
+/** Every root with the residual check, one row each */
+export default function RootsPanel({ roots, numberFormat, onSelect }: RootsPanelProps) {
+  const rows: Array<{ kind: string; root: PolynomialRoot }> = [
+    ...roots.zeros.map((root) => ({ kind: roots.poles ? "零点" : "根", root })),
+    ...(roots.poles ?? []).map((root) => ({ kind: "极点", root })),
+  ]
+  const suspect = rows.filter(({ root }) => root.relativeResidual > SUSPECT_RESIDUAL).length
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="font-medium text-gray-700">多项式的根</span>
+        <span className="text-xs text-gray-500">
+          {roots.poles ? `${roots.zeros.length} 个零点 (○)，${roots.poles.length} 个极点 (×)` : `${roots.zeros.length} 个根`}
+        </span>
+        {suspect > 0 && (
+          <span className="text-xs text-amber-700">{suspect} 个根的相对残差偏大，结果可能不准确</span>
+        )}
+      </div>
+      <div className="max-h-64 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-600 text-left">
+              <th className="font-normal pr-2">#</th>
+              <th className="font-normal pr-2">类型</th>
+              <th className="font-normal pr-2">值</th>
+              <th className="font-normal pr-2 text-right">模</th>
+              <th className="font-normal pr-2 text-right">辐角</th>
+              <th className="font-normal pr-2 text-right">|p(r)|</th>
+              <th className="font-normal text-right">相对残差</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-blue-900">
+            {rows.map(({ kind, root }, index) => (
+              <tr
+                key={index}
+                onClick={() => onSelect(index)}
+                className="border-t border-blue-100 cursor-pointer hover:bg-blue-50"
+              >
+                <td className="pr-2 py-0.5 text-gray-500">{index + 1}</td>
+                <td className="pr-2 py-0.5 font-sans">{kind}</td>
+                <td className="pr-2 py-0.5">{formatComplexNumber(root.value, numberFormat)}</td>
+                <td className="pr-2 py-0.5 text-right">{formatReal(modulus(root.value), numberFormat)}</td>
+                <td className="pr-2 py-0.5 text-right">{formatAngle(argument(root.value), numberFormat)}</td>
+                <td className="pr-2 py-0.5 text-right">{root.residual.toExponential(2)}</td>
+                <td
+                  className={`py-0.5 text-right ${root.relativeResidual > SUSPECT_RESIDUAL ? "text-amber-700" : ""}`}
+                >
+                  {root.relativeResidual.toExponential(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import { useState } from "react"
+import { Eye, EyeOff, Plus, X } from "lucide-react"
+import type { Series } from "../lib/series"
+
+interface SeriesTabsProps {
+  series: Series[]
+  activeId: number
+  onSelect: (id: number) => void
+  onChange: (id: number, patch: Partial<Pick<Series, "name" | "color" | "visible">>) => void
+  onAdd: () => void
+  onRemove: (id: number) => void
+}
+
+/**
+ * One tab per dataset: colour swatch, name (double-click to rename),
+ * visibility in the plot, and removal while more than one is left.
+ */
+export default function SeriesTabs({ series, activeId, onSelect, onChange, onAdd, onRemove }: SeriesTabsProps) {
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(null)
+
+  const commitRename = () => {
+    if (!renaming) return
+    const name = renaming.name.trim()
+    if (name) onChange(renaming.id, { name })
+    setRenaming(null)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 flex-shrink-0">
+      {series.map((item) => {
+        const active = item.id === activeId
+        return (
+          <div
+            key={item.id}
+            onClick={() => onSelect(item.id)}
+            className={`flex items-center gap-1.5 h-7 pl-2 pr-1 rounded-md border text-xs cursor-pointer select-none ${
+              active ? "border-blue-400 bg-blue-50 text-blue-800" : "border-gray-200 bg-white text-gray-600 hover:bg-gray-50"
+            }`}
+          >
+            <label
+              className="relative h-3 w-3 rounded-full border border-black/20 cursor-pointer flex-shrink-0"
+              style={{ backgroundColor: item.color }}
+              title="颜色"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <input
+                type="color"
+                value={item.color}
+                onChange={(e) => onChange(item.id, { color: e.target.value })}
+                className="absolute inset-0 opacity-0 cursor-pointer"
+              />
+            </label>
+
+            {renaming?.id === item.id ? (
+              <input
+                autoFocus
+                value={renaming.name}
+                onChange={(e) => setRenaming({ id: item.id, name: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename()
+                  if (e.key === "Escape") setRenaming(null)
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="w-24 bg-white border rounded px-1 outline-none"
+              />
+            ) : (
+              <span
+                title="双击重命名"
+                onDoubleClick={() => setRenaming({ id: item.id, name: item.name })}
+                className={item.visible ? "" : "line-through opacity-60"}
+              >
+                {item.name}
+                {item.statistics && <span className="text-gray-400"> ({item.statistics.count})</span>}
+              </span>
+            )}
+
+            <button
+              type="button"
+              title={item.visible ? "在图中隐藏" : "在图中显示"}
+              onClick={(e) => {
+                e.stopPropagation()
+                onChange(item.id, { visible: !item.visible })
+              }}
+              className="p-0.5 rounded hover:bg-black/5"
+            >
+              {item.visible ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+            </button>
+            {series.length > 1 && (
+              <button
+                type="button"
+                title="删除数据集"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onRemove(item.id)
+                }}
+                className="p-0.5 rounded hover:bg-black/5"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        )
+      })}
+      <button
+        type="button"
+        onClick={onAdd}
+        className="flex items-center gap-1 h-7 px-2 rounded-md border border-dashed border-gray-300 text-xs text-gray-600 hover:bg-gray-50"
+      >
+        <Plus className="h-3.5 w-3.5" />
+        新建数据集
+      </button>
+    </div>
+  )
+}
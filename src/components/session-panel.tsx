@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from "react"
+import { FileUp, Link, Save, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "./ui/button"
+import { dateStamp, downloadBlob } from "../lib/export"
+import {
+  type SavedSession,
+  type SessionState,
+  SessionFormatError,
+  deleteSession,
+  listSessions,
+  parseSessionJson,
+  saveSession,
+  sessionToJson,
+} from "../lib/session"
+
+interface SessionPanelProps<Settings> {
+  /** The working state, as it would be saved now */
+  current: SessionState<Settings>
+  onRestore: (state: SessionState<unknown>) => void
+  /** Copies a link to the active series and the plot as shown */
+  onShare: () => void
+}
+
+const inputClassName = "h-7 w-40 rounded-md border border-input bg-background px-2 text-xs"
+
+const storageError = (error: unknown) => `无法访问本地存储：${error instanceof Error ? error.message : String(error)}`
+
+/**
+ * Named snapshots of the inputs and settings, kept in the browser and
+ * exchanged as JSON files. The working state itself is saved by App.
+ */
+export default function SessionPanel<Settings>({ current, onRestore, onShare }: SessionPanelProps<Settings>) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [sessions, setSessions] = useState<SavedSession<unknown>[]>([])
+  const [name, setName] = useState("")
+
+  const refresh = () =>
+    listSessions()
+      .then(setSessions)
+      .catch((error) => toast.error(storageError(error)))
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  const save = async () => {
+    const trimmed = name.trim()
+    if (!trimmed) {
+      toast.error("请输入会话名称")
+      return
+    }
+    try {
+      await saveSession({ name: trimmed, savedAt: Date.now(), state: current })
+      toast.success(`已保存会话「${trimmed}」`)
+      await refresh()
+    } catch (error) {
+      toast.error(storageError(error))
+    }
+  }
+
+  const open = (session: SavedSession<unknown>) => {
+    setName(session.name)
+    onRestore(session.state)
+    toast.success(`已打开会话「${session.name}」，点击计算重新分析`)
+  }
+
+  const remove = async (sessionName: string) => {
+    try {
+      await deleteSession(sessionName)
+      await refresh()
+    } catch (error) {
+      toast.error(storageError(error))
+    }
+  }
+
+  const exportJson = () => {
+    const session = { name: name.trim() || "会话", savedAt: Date.now(), state: current }
+    downloadBlob(new Blob([sessionToJson(session)], { type: "application/json" }), `complex_session_${dateStamp()}.json`)
+  }
+
+  const importJson = async (file: File) => {
+    let session
+    try {
+      session = parseSessionJson(await file.text())
+    } catch (error) {
+      toast.error(error instanceof SessionFormatError ? `${file.name}：${error.message}` : "无法读取文件，请重试")
+      return
+    }
+    open(session)
+    // The imported session also joins the saved list; failing that it is still open
+    saveSession(session)
+      .then(refresh)
+      .catch((error) => toast.error(storageError(error)))
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-700">会话</span>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") save()
+          }}
+          placeholder="会话名称"
+          className={inputClassName}
+        />
+        <Button size="sm" onClick={save} className="h-7 px-3 text-xs">
+          <Save className="h-3.5 w-3.5" />
+          保存
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportJson} className="h-7 px-3 text-xs">
+          导出 JSON
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="h-7 px-3 text-xs">
+          <FileUp className="h-3.5 w-3.5" />
+          导入 JSON
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importJson(file)
+            e.target.value = ""
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onShare}
+          title="当前数据集、设置与图表视图压缩后编码进链接，不经服务器"
+          className="h-7 px-3 text-xs"
+        >
+          <Link className="h-3.5 w-3.5" />
+          复制分享链接
+        </Button>
+        <span className="text-xs text-gray-500">当前输入与设置会自动保存在本机</span>
+      </div>
+
+      {sessions.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5">
+          {sessions.map((session) => (
+            <li
+              key={session.name}
+              className="flex items-center gap-1 h-7 pl-2 pr-1 rounded-md border border-gray-200 bg-white text-xs text-gray-600"
+            >
+              <button
+                type="button"
+                onClick={() => open(session)}
+                title={`${new Date(session.savedAt).toLocaleString()}，${session.state.series.length} 个数据集`}
+                className="hover:text-blue-700 hover:underline"
+              >
+                {session.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(session.name)}
+                title="删除会话"
+                className="p-0.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useMemo } from "react"
+import { Button } from "./ui/button"
+import { ComplexExpressionError, FUNCTION_NAMES, compileComplexFunction } from "../lib/complex-expression"
+
+interface TransformPanelProps {
+  expression: string
+  onExpressionChange: (expression: string) => void
+  /** Name of the series the transform is applied to */
+  sourceName: string
+  onApply: () => void
+  showLinks: boolean
+  onShowLinksChange: (showLinks: boolean) => void
+}
+
+const PRESETS: Array<{ label: string; expression: string }> = [
+  { label: "z²", expression: "z^2" },
+  { label: "1/z", expression: "1/z" },
+  { label: "exp(z)", expression: "exp(z)" },
+  { label: "log(z)", expression: "log(z)" },
+  { label: "共轭", expression: "conj(z)" },
+  { label: "旋转缩放", expression: "2*exp(i*pi/4)*z" },
+  { label: "Möbius", expression: "(z-1)/(z+1)" },
+]
+
+/**
+ * Expression input for f(z). The expression is compiled as it is typed so
+ * that errors show before anything is applied; App maps the data.
+ */
+export default function TransformPanel({
+  expression,
+  onExpressionChange,
+  sourceName,
+  onApply,
+  showLinks,
+  onShowLinksChange,
+}: TransformPanelProps) {
+  const error = useMemo(() => {
+    if (!expression.trim()) return null
+    try {
+      compileComplexFunction(expression)
+      return null
+    } catch (caught) {
+      if (caught instanceof ComplexExpressionError) return caught
+      throw caught
+    }
+  }, [expression])
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-700">函数变换</span>
+        <span className="font-mono text-gray-600">f(z) =</span>
+        <input
+          value={expression}
+          onChange={(e) => onExpressionChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !error && expression.trim()) onApply()
+          }}
+          placeholder="(z-1)/(z+1)"
+          spellCheck={false}
+          className={`h-7 w-64 rounded-md border bg-background px-2 font-mono text-xs outline-none ${
+            error ? "border-red-400" : "border-input"
+          }`}
+        />
+        <Button size="sm" onClick={onApply} disabled={!!error || !expression.trim()} className="h-7 px-3 text-xs">
+          应用到 {sourceName}
+        </Button>
+        <label className="flex items-center gap-1.5 cursor-pointer select-none text-xs text-gray-600" title="在复平面图中连接 z 与 f(z)">
+          <input
+            type="checkbox"
+            checked={showLinks}
+            onChange={(e) => onShowLinksChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          连线显示对应关系
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            variant={expression === preset.expression ? "default" : "outline"}
+            size="sm"
+            onClick={() => onExpressionChange(preset.expression)}
+            className="h-6 px-2 text-xs"
+            title={preset.expression}
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+
+      {error ? (
+        <div className="text-xs text-red-600">
+          第 {error.offset + 1} 个字符：{error.message}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">
+          可用：+ − × / ^、i、pi、e 及 {FUNCTION_NAMES.join("、")}；结果作为新数据集加入
+        </div>
+      )}
+    </div>
+  )
+}
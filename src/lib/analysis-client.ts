@@ -0,0 +1,178 @@
+import {
+  type ParseDiagnostic,
+  type ParseOptions,
+  type ParsedEntry,
+  lineOffsets,
+} from "./complex-parser"
+import type { ComplexNumber } from "./complex"
+import type { BootstrapOptions, BootstrapResult } from "./hypothesis"
+import type { RobustStatistics } from "./robust"
+import type { Statistics } from "./statistics"
+
+export type AnalysisRequest =
+  | { type: "parse"; input: string; options: ParseOptions }
+  /** values are interleaved real, imag pairs */
+  | { type: "statistics"; values: Float64Array }
+  | { type: "robust"; values: Float64Array; trimFraction: number }
+  | { type: "bootstrap"; values: Float64Array; options: BootstrapOptions }
+
+export type AnalysisPhase = "parse" | "statistics" | "bootstrap"
+
+export interface AnalysisProgress {
+  phase: AnalysisPhase
+  done: number
+  total: number
+}
+
+/** What the worker sends back for a parse request */
+export interface ParseReply {
+  /** Interleaved real, imag pairs */
+  values: Float64Array
+  /** Interleaved line, column, text length triples */
+  positions: Int32Array
+  rejected: ParseDiagnostic[]
+  /** Null when no entry parsed */
+  statistics: Statistics | null
+}
+
+export type AnalysisMessage<R = ParseReply | Statistics | RobustStatistics | BootstrapResult> =
+  | ({ type: "progress" } & AnalysisProgress)
+  | { type: "result"; result: R }
+  | { type: "error"; message: string }
+
+export interface AnalysisResult {
+  entries: ParsedEntry[]
+  rejected: ParseDiagnostic[]
+  statistics: Statistics | null
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super("分析已取消")
+    this.name = "AnalysisCancelledError"
+  }
+}
+
+export interface AnalysisTask<T = AnalysisResult> {
+  promise: Promise<T>
+  /** Stop the worker; the promise rejects with AnalysisCancelledError */
+  cancel: () => void
+}
+
+function decodeEntries(input: string, values: Float64Array, positions: Int32Array): ParsedEntry[] {
+  const offsets = lineOffsets(input)
+  const entries: ParsedEntry[] = new Array(values.length / 2)
+  for (let index = 0; index < entries.length; index++) {
+    const line = positions[3 * index]
+    const column = positions[3 * index + 1]
+    const start = offsets[line - 1] + column - 1
+    entries[index] = {
+      text: input.slice(start, start + positions[3 * index + 2]),
+      line,
+      column,
+      value: { real: values[2 * index], imag: values[2 * index + 1] },
+    }
+  }
+  return entries
+}
+
+/**
+ * Runs one request in a fresh Web Worker. The work runs synchronously inside
+ * the worker, so cancelling terminates it rather than asking it to stop.
+ */
+function runInWorker<R, T>(
+  request: AnalysisRequest,
+  transfer: Transferable[],
+  decode: (result: R) => T,
+  onProgress?: (progress: AnalysisProgress) => void,
+): AnalysisTask<T> {
+  const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" })
+  let rejectPromise: (error: Error) => void = () => {}
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectPromise = reject
+
+    worker.onmessage = (e: MessageEvent<AnalysisMessage<R>>) => {
+      const message = e.data
+      if (message.type === "progress") {
+        onProgress?.(message)
+        return
+      }
+
+      worker.terminate()
+      if (message.type === "error") {
+        reject(new Error(message.message))
+      } else {
+        resolve(decode(message.result))
+      }
+    }
+    worker.onerror = (e) => {
+      worker.terminate()
+      reject(new Error(e.message || "分析线程出错"))
+    }
+  })
+
+  worker.postMessage(request, { transfer })
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate()
+      rejectPromise(new AnalysisCancelledError())
+    },
+  }
+}
+
+/** Parse the input and compute its statistics in a Web Worker */
+export function startAnalysis(
+  input: string,
+  options: ParseOptions,
+  onProgress?: (progress: AnalysisProgress) => void,
+): AnalysisTask {
+  return runInWorker(
+    { type: "parse", input, options },
+    [],
+    (reply: ParseReply) => ({
+      entries: decodeEntries(input, reply.values, reply.positions),
+      rejected: reply.rejected,
+      statistics: reply.statistics,
+    }),
+    onProgress,
+  )
+}
+
+function packNumbers(numbers: ComplexNumber[]): Float64Array {
+  const values = new Float64Array(numbers.length * 2)
+  numbers.forEach((num, index) => {
+    values[2 * index] = num.real
+    values[2 * index + 1] = num.imag
+  })
+  return values
+}
+
+/** Statistics of numbers already parsed, such as the points left after some were excluded */
+export function startStatistics(numbers: ComplexNumber[]): AnalysisTask<Statistics> {
+  const values = packNumbers(numbers)
+  return runInWorker({ type: "statistics", values }, [values.buffer], (statistics: Statistics) => statistics)
+}
+
+/** The robust estimators, whose sorting and Weiszfeld iteration take seconds on a million points */
+export function startRobustStatistics(numbers: ComplexNumber[], trimFraction: number): AnalysisTask<RobustStatistics> {
+  const values = packNumbers(numbers)
+  return runInWorker({ type: "robust", values, trimFraction }, [values.buffer], (robust: RobustStatistics) => robust)
+}
+
+/** Bootstrap intervals, resampling the numbers resamples times over */
+export function startBootstrap(
+  numbers: ComplexNumber[],
+  options: BootstrapOptions,
+  onProgress?: (progress: AnalysisProgress) => void,
+): AnalysisTask<BootstrapResult> {
+  const values = packNumbers(numbers)
+  return runInWorker(
+    { type: "bootstrap", values, options },
+    [values.buffer],
+    (result: BootstrapResult) => result,
+    onProgress,
+  )
+}
@@ -0,0 +1,74 @@
+import type { ComplexNumber } from "./complex"
+import { type ParseOptions, parseComplexInput } from "./complex-parser"
+import { analyzeEntries } from "./core"
+import { bootstrapIntervals } from "./hypothesis"
+import { robustStatistics } from "./robust"
+import { calculateStatistics } from "./statistics"
+import type { AnalysisMessage, AnalysisRequest } from "./analysis-client"
+
+/*
+ * Parses the input and computes statistics off the main thread, or the
+ * statistics of numbers the app already holds. Numbers travel both ways as
+ * flat typed arrays so a million points transfer without a structured
+ * clone of a million objects.
+ */
+
+const post = (message: AnalysisMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer })
+}
+
+function parse(input: string, options: ParseOptions) {
+  const { entries, rejected } = parseComplexInput(input, options, (done, total) => {
+    post({ type: "progress", phase: "parse", done, total })
+  })
+
+  // Without entries the diagnostics still go back, for the app to show
+  post({ type: "progress", phase: "statistics", done: 0, total: entries.length })
+  const statistics = entries.length > 0 ? analyzeEntries(input, entries, "samples").statistics : null
+
+  const values = new Float64Array(entries.length * 2)
+  const positions = new Int32Array(entries.length * 3)
+  entries.forEach((entry, index) => {
+    values[2 * index] = entry.value.real
+    values[2 * index + 1] = entry.value.imag
+    positions[3 * index] = entry.line
+    positions[3 * index + 1] = entry.column
+    positions[3 * index + 2] = entry.text.length
+  })
+
+  post({ type: "result", result: { values, positions, rejected, statistics } }, [values.buffer, positions.buffer])
+}
+
+function unpackNumbers(values: Float64Array): ComplexNumber[] {
+  const numbers: ComplexNumber[] = new Array(values.length / 2)
+  for (let index = 0; index < numbers.length; index++) {
+    numbers[index] = { real: values[2 * index], imag: values[2 * index + 1] }
+  }
+  return numbers
+}
+
+self.onmessage = (e: MessageEvent<AnalysisRequest>) => {
+  const request = e.data
+  try {
+    switch (request.type) {
+      case "parse":
+        parse(request.input, request.options)
+        break
+      case "statistics":
+        post({ type: "result", result: calculateStatistics(unpackNumbers(request.values)) })
+        break
+      case "robust":
+        post({ type: "result", result: robustStatistics(unpackNumbers(request.values), request.trimFraction) })
+        break
+      case "bootstrap": {
+        const result = bootstrapIntervals(unpackNumbers(request.values), request.options, (done, total) => {
+          post({ type: "progress", phase: "bootstrap", done, total })
+        })
+        post({ type: "result", result })
+        break
+      }
+    }
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+}
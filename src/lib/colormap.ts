@@ -0,0 +1,60 @@
+export type ColormapName = "viridis" | "magma" | "blues" | "gray"
+
+export const COLORMAPS: Array<{ key: ColormapName; label: string; stops: string[] }> = [
+  {
+    key: "viridis",
+    label: "Viridis",
+    stops: ["#440154", "#482878", "#3e4989", "#31688e", "#26828e", "#1f9e89", "#35b779", "#6ece58", "#b5de2b", "#fde725"],
+  },
+  {
+    key: "magma",
+    label: "Magma",
+    stops: ["#000004", "#1c1044", "#4f127b", "#812581", "#b5367a", "#e55064", "#fb8761", "#fec287", "#fcfdbf"],
+  },
+  {
+    key: "blues",
+    label: "Blues",
+    stops: ["#deebf7", "#c6dbef", "#9ecae1", "#6baed6", "#4292c6", "#2171b5", "#08519c", "#08306b"],
+  },
+  { key: "gray", label: "灰度", stops: ["#e5e7eb", "#111827"] },
+]
+
+const TABLE_SIZE = 256
+const tables = new Map<ColormapName, Uint8ClampedArray>()
+
+/** 256 RGB triples interpolated linearly between the colormap stops */
+export function colormapTable(name: ColormapName): Uint8ClampedArray {
+  const cached = tables.get(name)
+  if (cached) return cached
+
+  const stops = (COLORMAPS.find(({ key }) => key === name) ?? COLORMAPS[0]).stops.map((hex) => {
+    const value = Number.parseInt(hex.slice(1), 16)
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+  })
+  const table = new Uint8ClampedArray(TABLE_SIZE * 3)
+  for (let i = 0; i < TABLE_SIZE; i++) {
+    const position = (i / (TABLE_SIZE - 1)) * (stops.length - 1)
+    const lower = Math.min(Math.floor(position), stops.length - 2)
+    const fraction = position - lower
+    for (let channel = 0; channel < 3; channel++) {
+      table[i * 3 + channel] = stops[lower][channel] + (stops[lower + 1][channel] - stops[lower][channel]) * fraction
+    }
+  }
+  tables.set(name, table)
+  return table
+}
+
+/** CSS colour at t in [0, 1], translucent when alpha is below 1 */
+export function colormapColor(name: ColormapName, t: number, alpha = 1): string {
+  const table = colormapTable(name)
+  const i = Math.round(Math.min(Math.max(t, 0), 1) * (TABLE_SIZE - 1)) * 3
+  if (alpha < 1) return `rgba(${table[i]}, ${table[i + 1]}, ${table[i + 2]}, ${alpha})`
+  return `rgb(${table[i]}, ${table[i + 1]}, ${table[i + 2]})`
+}
+
+/** "#rrggbb" scaled towards black, for marker outlines in a series colour */
+export function darken(hex: string, factor = 0.6): string {
+  const value = Number.parseInt(hex.slice(1), 16)
+  const channels = [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map((channel) => Math.round(channel * factor))
+  return `#${channels.map((channel) => channel.toString(16).padStart(2, "0")).join("")}`
+}
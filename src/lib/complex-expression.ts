@@ -0,0 +1,302 @@
+import {
+  type ComplexNumber,
+  add,
+  argument,
+  conj,
+  cos,
+  cosh,
+  div,
+  exp,
+  log,
+  modulus,
+  mul,
+  pow,
+  sin,
+  sinh,
+  sqrt,
+  sub,
+} from "./complex"
+
+/*
+ * Complex function expressions in one variable, compiled to closures. There
+ * is no eval: only the operators and functions below can be reached.
+ *
+ *   definition := [name "(" "z" ")" "="] expr
+ *   expr       := term (("+" | "-") term)*
+ *   term       := unary (["*" | "/"] unary)*        juxtaposition multiplies: 2z, 3i, (z-1)(z+1)
+ *   unary      := ("+" | "-") unary | power
+ *   power      := primary ["^" unary]               right-associative
+ *   primary    := number | "z" | "i" | "j" | "pi" | "π" | "e"
+ *               | function "(" expr ")" | "(" expr ")"
+ */
+
+export type ComplexFunction = (z: ComplexNumber) => ComplexNumber
+
+export class ComplexExpressionError extends Error {
+  offset: number
+
+  constructor(message: string, offset: number) {
+    super(message)
+    this.name = "ComplexExpressionError"
+    this.offset = offset
+  }
+}
+
+const FUNCTIONS: Record<string, ComplexFunction> = {
+  exp,
+  log,
+  ln: log,
+  sqrt,
+  sin,
+  cos,
+  tan: (z) => div(sin(z), cos(z)),
+  sinh,
+  cosh,
+  tanh: (z) => div(sinh(z), cosh(z)),
+  conj,
+  abs: (z) => ({ real: modulus(z), imag: 0 }),
+  arg: (z) => ({ real: argument(z), imag: 0 }),
+  re: (z) => ({ real: z.real, imag: 0 }),
+  im: (z) => ({ real: z.imag, imag: 0 }),
+}
+
+const CONSTANTS: Record<string, ComplexNumber> = {
+  i: { real: 0, imag: 1 },
+  j: { real: 0, imag: 1 },
+  pi: { real: Math.PI, imag: 0 },
+  π: { real: Math.PI, imag: 0 },
+  e: { real: Math.E, imag: 0 },
+}
+
+/** Names a user can call, for hints in the UI */
+export const FUNCTION_NAMES = Object.keys(FUNCTIONS)
+
+interface Token {
+  type: "number" | "ident" | "op"
+  value: string
+  offset: number
+}
+
+const NUMBER_PATTERN = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/
+const IDENT_PATTERN = /^(?:[a-zA-Z]+|π)/
+// Names that can be written next to each other without "*", as in 2iz or zi
+const JUXTAPOSABLE = /^(?:z|i|j|e|pi)/
+const OPERATORS = "+-*/^()="
+const OPERATOR_ALIASES: Record<string, string> = { "−": "-", "×": "*", "·": "*", "²": "^2" }
+
+/** An unknown name made only of z, i, j, e and pi is their product */
+function splitIdentifier(name: string, offset: number): Token[] {
+  if (name === "z" || Object.hasOwn(FUNCTIONS, name.toLowerCase()) || Object.hasOwn(CONSTANTS, name)) return [{ type: "ident", value: name, offset }]
+  const parts: Token[] = []
+  let rest = name
+  while (rest) {
+    const match = rest.match(JUXTAPOSABLE)
+    if (!match) return [{ type: "ident", value: name, offset }]
+    parts.push({ type: "ident", value: match[0], offset: offset + name.length - rest.length })
+    rest = rest.slice(match[0].length)
+  }
+  return parts
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+  while (pos < source.length) {
+    const char = source[pos]
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+    const rest = source.slice(pos)
+    const numberMatch = rest.match(NUMBER_PATTERN)
+    if (numberMatch) {
+      tokens.push({ type: "number", value: numberMatch[0], offset: pos })
+      pos += numberMatch[0].length
+      continue
+    }
+    const identMatch = rest.match(IDENT_PATTERN)
+    if (identMatch) {
+      tokens.push(...splitIdentifier(identMatch[0], pos))
+      pos += identMatch[0].length
+      continue
+    }
+    const alias = OPERATOR_ALIASES[char] ?? char
+    if (alias === "^2") {
+      tokens.push({ type: "op", value: "^", offset: pos }, { type: "number", value: "2", offset: pos })
+      pos++
+      continue
+    }
+    if (OPERATORS.includes(alias)) {
+      tokens.push({ type: "op", value: alias, offset: pos })
+      pos++
+      continue
+    }
+    throw new ComplexExpressionError(`无法识别的字符 '${char}'`, pos)
+  }
+  return tokens
+}
+
+class ExpressionParser {
+  private tokens: Token[]
+  private pos = 0
+  private length: number
+
+  constructor(source: string) {
+    this.tokens = tokenize(source)
+    this.length = source.length
+  }
+
+  parse(): ComplexFunction {
+    this.skipDefinition()
+    if (!this.peek()) throw new ComplexExpressionError("缺少表达式", this.length)
+    const body = this.parseExpr()
+    const extra = this.peek()
+    if (extra) throw new ComplexExpressionError(`多余的内容 '${extra.value}'`, extra.offset)
+    return body
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos]
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek()
+    return token?.type === "op" && token.value === value
+  }
+
+  private expectOp(value: string) {
+    const token = this.peek()
+    if (!this.isOp(value)) {
+      throw new ComplexExpressionError(token ? `应为 '${value}'，实际为 '${token.value}'` : `缺少 '${value}'`, token?.offset ?? this.length)
+    }
+    this.pos++
+  }
+
+  /** Accept and drop a leading "f(z) =" */
+  private skipDefinition() {
+    const [name, open, variable, close, equals] = this.tokens
+    if (
+      name?.type === "ident" &&
+      open?.value === "(" &&
+      variable?.value === "z" &&
+      close?.value === ")" &&
+      equals?.value === "="
+    ) {
+      this.pos = 5
+    }
+  }
+
+  private parseExpr(): ComplexFunction {
+    let left = this.parseTerm()
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = this.tokens[this.pos++].value
+      const right = this.parseTerm()
+      const lhs = left
+      left = op === "+" ? (z) => add(lhs(z), right(z)) : (z) => sub(lhs(z), right(z))
+    }
+    return left
+  }
+
+  private startsPrimary(): boolean {
+    const token = this.peek()
+    return token !== undefined && (token.type !== "op" || token.value === "(")
+  }
+
+  private parseTerm(): ComplexFunction {
+    let left = this.parseUnary()
+    for (;;) {
+      let op = "*"
+      if (this.isOp("*") || this.isOp("/")) op = this.tokens[this.pos++].value
+      else if (!this.startsPrimary()) break
+      const right = this.parseUnary()
+      const lhs = left
+      left = op === "*" ? (z) => mul(lhs(z), right(z)) : (z) => div(lhs(z), right(z))
+    }
+    return left
+  }
+
+  private parseUnary(): ComplexFunction {
+    if (this.isOp("+")) {
+      this.pos++
+      return this.parseUnary()
+    }
+    if (this.isOp("-")) {
+      this.pos++
+      const operand = this.parseUnary()
+      return (z) => {
+        const value = operand(z)
+        return { real: -value.real, imag: -value.imag }
+      }
+    }
+    return this.parsePower()
+  }
+
+  private parsePower(): ComplexFunction {
+    const base = this.parsePrimary()
+    if (!this.isOp("^")) return base
+    this.pos++
+    const exponent = this.parseUnary()
+    return (z) => pow(base(z), exponent(z))
+  }
+
+  private parsePrimary(): ComplexFunction {
+    const token = this.peek()
+    if (!token) throw new ComplexExpressionError("表达式不完整", this.length)
+
+    if (token.type === "number") {
+      this.pos++
+      const value = { real: Number(token.value), imag: 0 }
+      return () => value
+    }
+
+    if (token.type === "ident") {
+      this.pos++
+      const name = token.value
+      if (name === "z") return (z) => z
+      // Own keys only, so that names such as "constructor" stay unknown
+      if (Object.hasOwn(FUNCTIONS, name.toLowerCase())) {
+        const fn = FUNCTIONS[name.toLowerCase()]
+        this.expectOp("(")
+        const argument = this.parseExpr()
+        this.expectOp(")")
+        return (z) => fn(argument(z))
+      }
+      if (Object.hasOwn(CONSTANTS, name)) {
+        const constant = CONSTANTS[name]
+        return () => constant
+      }
+      throw new ComplexExpressionError(`未知的名称 '${name}'`, token.offset)
+    }
+
+    if (this.isOp("(")) {
+      this.pos++
+      const inner = this.parseExpr()
+      this.expectOp(")")
+      return inner
+    }
+
+    throw new ComplexExpressionError(`意外的 '${token.value}'`, token.offset)
+  }
+}
+
+/** Compile `f(z) = …` or a bare expression in z; throws ComplexExpressionError */
+export function compileComplexFunction(source: string): ComplexFunction {
+  return new ExpressionParser(source).parse()
+}
+
+/** Apply f to every number, keeping only finite results and where each came from */
+export function mapComplexNumbers(
+  numbers: ComplexNumber[],
+  f: ComplexFunction,
+): { values: ComplexNumber[]; sourceIndices: number[] } {
+  const values: ComplexNumber[] = []
+  const sourceIndices: number[] = []
+  numbers.forEach((num, index) => {
+    const value = f(num)
+    if (Number.isFinite(value.real) && Number.isFinite(value.imag)) {
+      values.push(value)
+      sourceIndices.push(index)
+    }
+  })
+  return { values, sourceIndices }
+}
@@ -0,0 +1,518 @@
+import {
+  type AngleUnit,
+  type ComplexNumber,
+  add,
+  div,
+  exp,
+  fromPolar,
+  mul,
+  sub,
+  toRadians,
+} from "./complex"
+
+/*
+ * Grammar for a single entry (whitespace inside an entry is ignored):
+ *
+ *   entry     := "(" value ["," real] ")" | value
+ *   value     := [sign] term [("+" | "-") term]
+ *   term      := number ["*"] (unit | exponent | "∠" angle)
+ *              | unit
+ *              | exponent
+ *              | number
+ *   exponent  := "exp" "(" expr ")" | "e" "^" ("(" expr ")" | [sign] [number] unit)
+ *   angle     := [sign] number ["°" | "deg" | "rad"]
+ *   expr      := product (("+" | "-") product)*
+ *   product   := [sign] factor (["*" | "/"] factor)*
+ *   factor    := number | "pi" | "π" | unit | "(" expr ")"
+ *   unit      := "i" | "j"
+ *
+ * So `1e-3+2.5e2i`, `3+4j`, `+2-i`, `5∠30°`, `2*exp(i*pi/4)`, `2e^(0.5i)`,
+ * `(1.5, -2)` and NumPy's `(1+2j)` all land in the same ComplexNumber.
+ */
+
+export interface ParseOptions {
+  /** Unit for polar angles written without an explicit `°`, `deg` or `rad` suffix */
+  angleUnit: AngleUnit
+}
+
+export const defaultParseOptions: ParseOptions = { angleUnit: "deg" }
+
+export interface InputEntry {
+  text: string
+  /** 1-based line number in the original input */
+  line: number
+  /** 1-based column of the first character of the entry */
+  column: number
+}
+
+type TokenType = "number" | "ident" | "op"
+
+interface Token {
+  type: TokenType
+  value: string
+  offset: number
+}
+
+export class ComplexParseError extends Error {
+  offset: number
+
+  constructor(message: string, offset: number) {
+    super(message)
+    this.name = "ComplexParseError"
+    this.offset = offset
+  }
+}
+
+const NUMBER_PATTERN = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/
+const IDENT_PATTERN = /^[a-zA-Zπ]+/
+const OPERATORS = "+-*/^(),∠°"
+// Typographic variants that show up when data is copied out of documents
+const OPERATOR_ALIASES: Record<string, string> = { "−": "-", "×": "*", "·": "*" }
+const IMAGINARY_UNITS = new Set(["i", "j"])
+
+function tokenize(str: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  while (pos < str.length) {
+    const char = str[pos]
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+
+    const rest = str.slice(pos)
+    const numberMatch = rest.match(NUMBER_PATTERN)
+    if (numberMatch) {
+      tokens.push({ type: "number", value: numberMatch[0], offset: pos })
+      pos += numberMatch[0].length
+      continue
+    }
+
+    const identMatch = rest.match(IDENT_PATTERN)
+    if (identMatch) {
+      tokens.push({ type: "ident", value: identMatch[0], offset: pos })
+      pos += identMatch[0].length
+      continue
+    }
+
+    const op = OPERATOR_ALIASES[char] ?? char
+    if (OPERATORS.includes(op)) {
+      tokens.push({ type: "op", value: op, offset: pos })
+      pos++
+      continue
+    }
+
+    throw new ComplexParseError(`无法识别的字符 '${char}'`, pos)
+  }
+
+  return tokens
+}
+
+type TermKind = "real" | "imag" | "complex"
+
+interface Term {
+  kind: TermKind
+  value: ComplexNumber
+}
+
+class EntryParser {
+  private tokens: Token[]
+  private pos = 0
+  private length: number
+  private options: ParseOptions
+
+  constructor(str: string, options: ParseOptions) {
+    this.tokens = tokenize(str)
+    this.length = str.length
+    this.options = options
+  }
+
+  parse(): ComplexNumber {
+    if (this.tokens.length === 0) {
+      throw new ComplexParseError("空输入", 0)
+    }
+
+    const result = this.isOp("(") ? this.parseParenthesized() : this.parseValue().value
+    const extra = this.peek()
+    if (extra) {
+      throw new ComplexParseError(`多余的内容 '${extra.value}'`, extra.offset)
+    }
+    return result
+  }
+
+  private peek(ahead = 0): Token | undefined {
+    return this.tokens[this.pos + ahead]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos]
+    if (!token) {
+      throw new ComplexParseError("输入不完整", this.length)
+    }
+    this.pos++
+    return token
+  }
+
+  private isOp(value: string, ahead = 0): boolean {
+    const token = this.peek(ahead)
+    return token?.type === "op" && token.value === value
+  }
+
+  private isIdent(value: string, ahead = 0): boolean {
+    const token = this.peek(ahead)
+    return token?.type === "ident" && token.value === value
+  }
+
+  private isUnit(ahead = 0): boolean {
+    const token = this.peek(ahead)
+    return token?.type === "ident" && IMAGINARY_UNITS.has(token.value)
+  }
+
+  private isExponentStart(): boolean {
+    return (this.isIdent("exp") && this.isOp("(", 1)) || (this.isIdent("e") && this.isOp("^", 1))
+  }
+
+  private accept(value: string): boolean {
+    if (this.isOp(value)) {
+      this.pos++
+      return true
+    }
+    return false
+  }
+
+  private expect(value: string) {
+    const token = this.next()
+    if (token.type !== "op" || token.value !== value) {
+      throw new ComplexParseError(`需要 '${value}'，但遇到 '${token.value}'`, token.offset)
+    }
+  }
+
+  private acceptSign(): number {
+    let sign = 1
+    while (this.isOp("+") || this.isOp("-")) {
+      if (this.next().value === "-") sign = -sign
+    }
+    return sign
+  }
+
+  private parseNumber(): number {
+    const token = this.next()
+    if (token.type !== "number") {
+      throw new ComplexParseError(`需要数字，但遇到 '${token.value}'`, token.offset)
+    }
+    return Number.parseFloat(token.value)
+  }
+
+  private parseParenthesized(): ComplexNumber {
+    this.expect("(")
+    const first = this.parseValue()
+
+    if (this.accept(",")) {
+      if (first.kind !== "real") {
+        throw new ComplexParseError("元组 (实部, 虚部) 只能包含实数", this.peek()?.offset ?? this.length)
+      }
+      const imag = this.acceptSign() * this.parseNumber()
+      this.expect(")")
+      return { real: first.value.real, imag }
+    }
+
+    this.expect(")")
+    return first.value
+  }
+
+  private parseValue(): Term {
+    const first = this.parseTerm(this.acceptSign())
+    if (first.kind === "complex" || !(this.isOp("+") || this.isOp("-"))) {
+      return first
+    }
+
+    const opOffset = this.peek()!.offset
+    const second = this.parseTerm(this.acceptSign())
+    if (second.kind === "complex" || second.kind === first.kind) {
+      throw new ComplexParseError(
+        first.kind === "real" ? "实部重复，缺少虚数单位 i/j" : "虚部重复",
+        opOffset,
+      )
+    }
+    return { kind: "complex", value: add(first.value, second.value) }
+  }
+
+  private parseTerm(sign: number): Term {
+    if (this.isUnit()) {
+      this.pos++
+      return { kind: "imag", value: { real: 0, imag: sign } }
+    }
+
+    if (this.isExponentStart()) {
+      return { kind: "complex", value: this.scale(this.parseExponent(), sign) }
+    }
+
+    const magnitude = sign * this.parseNumber()
+
+    if (this.accept("∠")) {
+      return { kind: "complex", value: fromPolar(magnitude, this.parseAngle()) }
+    }
+
+    const hasStar = this.accept("*")
+    if (this.isUnit()) {
+      this.pos++
+      return { kind: "imag", value: { real: 0, imag: magnitude } }
+    }
+    if (this.isExponentStart()) {
+      return { kind: "complex", value: this.scale(this.parseExponent(), magnitude) }
+    }
+    if (hasStar) {
+      const token = this.peek()
+      throw new ComplexParseError(
+        token ? `'*' 之后需要 i/j 或 exp(...)，但遇到 '${token.value}'` : "'*' 之后缺少内容",
+        token?.offset ?? this.length,
+      )
+    }
+
+    return { kind: "real", value: { real: magnitude, imag: 0 } }
+  }
+
+  private parseAngle(): number {
+    const angle = this.acceptSign() * this.parseNumber()
+    if (this.accept("°")) {
+      return toRadians(angle, "deg")
+    }
+    if (this.isIdent("deg")) {
+      this.pos++
+      return toRadians(angle, "deg")
+    }
+    if (this.isIdent("rad")) {
+      this.pos++
+      return angle
+    }
+    return toRadians(angle, this.options.angleUnit)
+  }
+
+  private parseExponent(): ComplexNumber {
+    if (this.isIdent("exp")) {
+      this.pos++
+      this.expect("(")
+      const power = this.parseExpr()
+      this.expect(")")
+      return exp(power)
+    }
+
+    // e^...
+    this.pos += 2
+    if (this.accept("(")) {
+      const power = this.parseExpr()
+      this.expect(")")
+      return exp(power)
+    }
+
+    // Bare exponent such as e^0.5i or e^-i: only a single imaginary term is unambiguous
+    const sign = this.acceptSign()
+    const coefficient = this.peek()?.type === "number" ? this.parseNumber() : 1
+    const unit = this.peek()
+    if (!this.isUnit()) {
+      throw new ComplexParseError("e^ 之后的指数需要加括号，或写成 e^θi 的形式", unit?.offset ?? this.length)
+    }
+    this.pos++
+    return exp({ real: 0, imag: sign * coefficient })
+  }
+
+  private parseExpr(): ComplexNumber {
+    let value = this.parseProduct()
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = this.next().value
+      const rhs = this.parseProduct()
+      value = op === "+" ? add(value, rhs) : sub(value, rhs)
+    }
+    return value
+  }
+
+  private parseProduct(): ComplexNumber {
+    const sign = this.acceptSign()
+    let value = this.scale(this.parseFactor(), sign)
+
+    for (;;) {
+      if (this.isOp("*") || this.isOp("/")) {
+        const op = this.next().value
+        const rhs = this.parseFactor()
+        value = op === "*" ? mul(value, rhs) : div(value, rhs)
+      } else if (this.startsFactor()) {
+        // Implicit multiplication: 0.5i, 2pi, pi i
+        value = mul(value, this.parseFactor())
+      } else {
+        return value
+      }
+    }
+  }
+
+  private startsFactor(): boolean {
+    const token = this.peek()
+    if (!token) return false
+    return token.type === "number" || token.type === "ident" || (token.type === "op" && token.value === "(")
+  }
+
+  private parseFactor(): ComplexNumber {
+    const token = this.next()
+
+    if (token.type === "number") {
+      return { real: Number.parseFloat(token.value), imag: 0 }
+    }
+    if (token.type === "ident") {
+      if (IMAGINARY_UNITS.has(token.value)) return { real: 0, imag: 1 }
+      if (token.value === "pi" || token.value === "π") return { real: Math.PI, imag: 0 }
+      throw new ComplexParseError(`未知标识符 '${token.value}'`, token.offset)
+    }
+    if (token.value === "(") {
+      const value = this.parseExpr()
+      this.expect(")")
+      return value
+    }
+
+    throw new ComplexParseError(`意外的符号 '${token.value}'`, token.offset)
+  }
+
+  private scale(z: ComplexNumber, factor: number): ComplexNumber {
+    return { real: z.real * factor, imag: z.imag * factor }
+  }
+}
+
+/**
+ * Parse a single complex-number entry, throwing a ComplexParseError whose
+ * offset points at the offending character.
+ */
+export function parseComplexNumberStrict(
+  str: string,
+  options: ParseOptions = defaultParseOptions,
+): ComplexNumber {
+  const value = new EntryParser(str, options).parse()
+  if (!Number.isFinite(value.real) || !Number.isFinite(value.imag)) {
+    throw new ComplexParseError("结果不是有限数值", 0)
+  }
+  return value
+}
+
+export function parseComplexNumber(
+  str: string,
+  options: ParseOptions = defaultParseOptions,
+): ComplexNumber | null {
+  try {
+    return parseComplexNumberStrict(str, options)
+  } catch (error) {
+    if (error instanceof ComplexParseError) return null
+    throw error
+  }
+}
+
+// Operators that glue whitespace-separated pieces back into one entry, so
+// MATLAB's `1.0000 + 2.0000i` or `5 ∠ 30°` are not split apart.
+const JOINING_OPERATORS = "+-*/^∠−×·"
+const TRAILING_OPERATORS = "*/^∠°×·"
+
+/**
+ * Split one line into entries at commas and whitespace, ignoring separators
+ * inside parentheses and around binary operators.
+ */
+export function splitEntries(line: string): Array<{ text: string; start: number }> {
+  const entries: Array<{ text: string; start: number }> = []
+  let depth = 0
+  let start = -1
+
+  const flush = (end: number) => {
+    if (start >= 0) {
+      entries.push({ text: line.slice(start, end).trim(), start })
+      start = -1
+    }
+  }
+
+  for (let pos = 0; pos < line.length; pos++) {
+    const char = line[pos]
+
+    if (char === "(") depth++
+    if (char === ")") depth = Math.max(0, depth - 1)
+
+    if (depth === 0 && (char === "," || char === ";")) {
+      flush(pos)
+      continue
+    }
+
+    if (/\s/.test(char)) {
+      if (depth > 0 || start < 0) continue
+
+      const prev = line.slice(start, pos).trimEnd().slice(-1)
+      let nextPos = pos
+      while (nextPos < line.length && /\s/.test(line[nextPos])) nextPos++
+      const next = line[nextPos] ?? ""
+      const afterNext = line[nextPos + 1] ?? ""
+
+      const joins =
+        JOINING_OPERATORS.includes(prev) ||
+        TRAILING_OPERATORS.includes(next) ||
+        ((next === "+" || next === "-" || next === "−") && /\s/.test(afterNext))
+      if (!joins && next) {
+        flush(pos)
+      }
+      continue
+    }
+
+    if (start < 0) start = pos
+  }
+  flush(line.length)
+
+  return entries
+}
+
+export interface ParsedEntry extends InputEntry {
+  value: ComplexNumber
+}
+
+export interface ParseDiagnostic extends InputEntry {
+  reason: string
+  /** Offset of the offending character within `text` */
+  offset: number
+}
+
+export interface ParseResult {
+  numbers: ComplexNumber[]
+  entries: ParsedEntry[]
+  rejected: ParseDiagnostic[]
+}
+
+// How many lines to parse between progress callbacks
+const PROGRESS_INTERVAL = 10000
+
+/** Parse the whole input, keeping a diagnostic for every rejected entry */
+export function parseComplexInput(
+  input: string,
+  options: ParseOptions = defaultParseOptions,
+  onProgress?: (done: number, total: number) => void,
+): ParseResult {
+  const entries: ParsedEntry[] = []
+  const rejected: ParseDiagnostic[] = []
+  const lines = input.split("\n")
+
+  lines.forEach((line, index) => {
+    if (onProgress && index % PROGRESS_INTERVAL === 0) onProgress(index, lines.length)
+
+    for (const { text, start } of splitEntries(line)) {
+      const entry = { text, line: index + 1, column: start + 1 }
+      try {
+        entries.push({ ...entry, value: parseComplexNumberStrict(text, options) })
+      } catch (error) {
+        if (!(error instanceof ComplexParseError)) throw error
+        rejected.push({ ...entry, reason: error.message, offset: error.offset })
+      }
+    }
+  })
+  onProgress?.(lines.length, lines.length)
+
+  return { numbers: entries.map((entry) => entry.value), entries, rejected }
+}
+
+/** Character offset at which each line of the input starts, indexed by line - 1 */
+export function lineOffsets(input: string): number[] {
+  const offsets = [0]
+  for (let pos = input.indexOf("\n"); pos >= 0; pos = input.indexOf("\n", pos + 1)) {
+    offsets.push(pos + 1)
+  }
+  return offsets
+}
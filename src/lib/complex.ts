@@ -0,0 +1,92 @@
+export interface ComplexNumber {
+  real: number
+  imag: number
+}
+
+export type AngleUnit = "deg" | "rad"
+
+export const DEG_TO_RAD = Math.PI / 180
+
+export function add(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+  return { real: a.real + b.real, imag: a.imag + b.imag }
+}
+
+export function sub(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+  return { real: a.real - b.real, imag: a.imag - b.imag }
+}
+
+export function mul(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+  return {
+    real: a.real * b.real - a.imag * b.imag,
+    imag: a.real * b.imag + a.imag * b.real,
+  }
+}
+
+export function div(a: ComplexNumber, b: ComplexNumber): ComplexNumber {
+  const denom = b.real * b.real + b.imag * b.imag
+  return {
+    real: (a.real * b.real + a.imag * b.imag) / denom,
+    imag: (a.imag * b.real - a.real * b.imag) / denom,
+  }
+}
+
+export function exp(z: ComplexNumber): ComplexNumber {
+  const scale = Math.exp(z.real)
+  return { real: scale * Math.cos(z.imag), imag: scale * Math.sin(z.imag) }
+}
+
+export function fromPolar(modulus: number, argument: number): ComplexNumber {
+  return { real: modulus * Math.cos(argument), imag: modulus * Math.sin(argument) }
+}
+
+export function toRadians(angle: number, unit: AngleUnit): number {
+  return unit === "deg" ? angle * DEG_TO_RAD : angle
+}
+
+export function modulus(z: ComplexNumber): number {
+  return Math.hypot(z.real, z.imag)
+}
+
+export function argument(z: ComplexNumber): number {
+  return Math.atan2(z.imag, z.real)
+}
+
+export function conj(z: ComplexNumber): ComplexNumber {
+  return { real: z.real, imag: -z.imag }
+}
+
+/** Principal branch, with the argument in (-π, π] */
+export function log(z: ComplexNumber): ComplexNumber {
+  return { real: Math.log(modulus(z)), imag: argument(z) }
+}
+
+/** Principal value exp(w·log z); small integer powers are multiplied out exactly */
+export function pow(z: ComplexNumber, w: ComplexNumber): ComplexNumber {
+  if (w.imag === 0 && Number.isInteger(w.real) && Math.abs(w.real) <= 64) {
+    let result: ComplexNumber = { real: 1, imag: 0 }
+    for (let k = 0; k < Math.abs(w.real); k++) result = mul(result, z)
+    return w.real < 0 ? div({ real: 1, imag: 0 }, result) : result
+  }
+  if (z.real === 0 && z.imag === 0) return w.real > 0 ? { real: 0, imag: 0 } : { real: NaN, imag: NaN }
+  return exp(mul(w, log(z)))
+}
+
+export function sqrt(z: ComplexNumber): ComplexNumber {
+  return fromPolar(Math.sqrt(modulus(z)), argument(z) / 2)
+}
+
+export function sin(z: ComplexNumber): ComplexNumber {
+  return { real: Math.sin(z.real) * Math.cosh(z.imag), imag: Math.cos(z.real) * Math.sinh(z.imag) }
+}
+
+export function cos(z: ComplexNumber): ComplexNumber {
+  return { real: Math.cos(z.real) * Math.cosh(z.imag), imag: -Math.sin(z.real) * Math.sinh(z.imag) }
+}
+
+export function sinh(z: ComplexNumber): ComplexNumber {
+  return { real: Math.sinh(z.real) * Math.cos(z.imag), imag: Math.cosh(z.real) * Math.sin(z.imag) }
+}
+
+export function cosh(z: ComplexNumber): ComplexNumber {
+  return { real: Math.cosh(z.real) * Math.cos(z.imag), imag: Math.sinh(z.real) * Math.sin(z.imag) }
+}
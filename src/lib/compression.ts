@@ -0,0 +1,17 @@
+/** Bytes over a plain ArrayBuffer, which is what Blob parts and the streams accept */
+export type Bytes = Uint8Array<ArrayBuffer>
+
+/**
+ * "deflate" is zlib-wrapped, which is what PDF's FlateDecode expects;
+ * "deflate-raw" leaves out the header and checksum where every byte counts.
+ */
+export async function deflate(bytes: Bytes, format: CompressionFormat = "deflate"): Promise<Bytes> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream(format))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/** Rejects when the data is not in the given format */
+export async function inflate(bytes: Bytes, format: CompressionFormat = "deflate"): Promise<Bytes> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
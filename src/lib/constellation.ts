@@ -0,0 +1,219 @@
+import { type ComplexNumber, argument, div, fromPolar, modulus, mul } from "./complex"
+
+export type ConstellationKind = "bpsk" | "qpsk" | "8psk" | "16qam" | "64qam" | "custom"
+
+export const CONSTELLATIONS: Array<{ key: ConstellationKind; label: string }> = [
+  { key: "bpsk", label: "BPSK" },
+  { key: "qpsk", label: "QPSK" },
+  { key: "8psk", label: "8-PSK" },
+  { key: "16qam", label: "16-QAM" },
+  { key: "64qam", label: "64-QAM" },
+  { key: "custom", label: "自定义" },
+]
+
+/** Ideal symbol positions with a nearest-symbol slicer */
+export interface Constellation {
+  points: ComplexNumber[]
+  /** Index of the point nearest to z */
+  decide: (z: ComplexNumber) => number
+  /**
+   * Order of the rotational symmetry used for the blind phase estimate
+   * (M for M-PSK, 4 for square QAM), or 1 when there is none to exploit.
+   */
+  symmetry: number
+}
+
+function phaseShiftKeying(order: number, offset: number): Constellation {
+  const step = (2 * Math.PI) / order
+  return {
+    points: Array.from({ length: order }, (_, k) => fromPolar(1, offset + k * step)),
+    decide: (z) => (((Math.round((argument(z) - offset) / step) % order) + order) % order),
+    symmetry: order,
+  }
+}
+
+/** Square QAM on odd integer levels, scaled to unit average power */
+function squareQam(order: number): Constellation {
+  const side = Math.round(Math.sqrt(order))
+  const scale = Math.sqrt((2 * (order - 1)) / 3)
+  const level = (k: number) => (2 * k - (side - 1)) / scale
+  const slice = (value: number) => Math.min(side - 1, Math.max(0, Math.round((value * scale + side - 1) / 2)))
+
+  const points: ComplexNumber[] = []
+  for (let row = 0; row < side; row++) {
+    for (let col = 0; col < side; col++) points.push({ real: level(col), imag: level(row) })
+  }
+  return { points, decide: (z) => slice(z.imag) * side + slice(z.real), symmetry: 4 }
+}
+
+/** The standard constellations, all with unit average symbol power */
+export function standardConstellation(kind: Exclude<ConstellationKind, "custom">): Constellation {
+  switch (kind) {
+    case "bpsk":
+      return phaseShiftKeying(2, 0)
+    case "qpsk":
+      return phaseShiftKeying(4, Math.PI / 4)
+    case "8psk":
+      return phaseShiftKeying(8, 0)
+    case "16qam":
+      return squareQam(16)
+    case "64qam":
+      return squareQam(64)
+  }
+}
+
+/** A user-supplied point list, sliced by exhaustive search */
+export function customConstellation(points: ComplexNumber[]): Constellation {
+  return {
+    points,
+    decide: (z) => {
+      let best = 0
+      let bestDistance = Infinity
+      points.forEach((point, index) => {
+        const distance = (z.real - point.real) ** 2 + (z.imag - point.imag) ** 2
+        if (distance < bestDistance) {
+          best = index
+          bestDistance = distance
+        }
+      })
+      return best
+    },
+    symmetry: 1,
+  }
+}
+
+export interface ConstellationOptions {
+  /** Estimate the complex gain (amplitude and phase offset) and remove it before slicing */
+  correct: boolean
+  /**
+   * Known transmitted symbols, parallel to the received ones. They allow
+   * counting symbol errors and replace the blind gain estimate.
+   */
+  transmitted?: ComplexNumber[]
+}
+
+export interface ConstellationAnalysis {
+  /** Complex gain g with received ≈ g · ideal; 1 when correction is off */
+  gain: ComplexNumber
+  /** Index of the decided symbol for every received sample */
+  decisions: Int32Array
+  /** Number of samples decided to each symbol */
+  counts: number[]
+  /** RMS error vector magnitude relative to the RMS symbol magnitude */
+  evmRms: number
+  /** Largest error vector magnitude relative to the RMS symbol magnitude */
+  evmPeak: number
+  /** Modulation error ratio in dB, which is the SNR estimate for additive noise */
+  merDb: number
+  /** Decisions that differ from the transmitted symbols; null without a usable transmitted sequence */
+  symbolErrors: number | null
+}
+
+// Decision-directed refinement settles within a few rounds once the blind start is close
+const GAIN_ITERATIONS = 8
+
+/**
+ * Blind start for the complex gain: the amplitude from the RMS ratio and,
+ * for symmetric constellations, the phase from the M-th power of the samples.
+ */
+function initialGain(received: ComplexNumber[], constellation: Constellation): ComplexNumber {
+  const meanPower = (numbers: ComplexNumber[]) => numbers.reduce((sum, num) => sum + num.real ** 2 + num.imag ** 2, 0) / numbers.length
+  const amplitude = Math.sqrt(meanPower(received) / meanPower(constellation.points))
+
+  const order = constellation.symmetry
+  if (order <= 1) return { real: amplitude, imag: 0 }
+  const powerSum = (numbers: ComplexNumber[]) => {
+    let sum = { real: 0, imag: 0 }
+    for (const num of numbers) {
+      const power = fromPolar(modulus(num) ** order, order * argument(num))
+      sum = { real: sum.real + power.real, imag: sum.imag + power.imag }
+    }
+    return sum
+  }
+  const phase = (argument(powerSum(received)) - argument(powerSum(constellation.points))) / order
+  return fromPolar(amplitude, phase)
+}
+
+export function analyzeConstellation(
+  received: ComplexNumber[],
+  constellation: Constellation,
+  { correct, transmitted }: ConstellationOptions,
+): ConstellationAnalysis {
+  const { points, decide } = constellation
+  const n = received.length
+  const decisions = new Int32Array(n)
+  const sliceAll = (gain: ComplexNumber) => {
+    for (let i = 0; i < n; i++) decisions[i] = decide(div(received[i], gain))
+  }
+  const known = transmitted && transmitted.length === n ? Int32Array.from(transmitted, decide) : null
+
+  // Least-squares gain given the symbols: Σ r·s̄ / Σ |s|²
+  const fitGain = (symbols: Int32Array): ComplexNumber | null => {
+    let real = 0
+    let imag = 0
+    let power = 0
+    for (let i = 0; i < n; i++) {
+      const r = received[i]
+      const s = points[symbols[i]]
+      real += r.real * s.real + r.imag * s.imag
+      imag += r.imag * s.real - r.real * s.imag
+      power += s.real ** 2 + s.imag ** 2
+    }
+    return power > 0 ? { real: real / power, imag: imag / power } : null
+  }
+
+  let gain: ComplexNumber = { real: 1, imag: 0 }
+  if (correct && known) {
+    // Data-aided: the known symbols also resolve the rotational ambiguity
+    gain = fitGain(known) ?? gain
+  } else if (correct && n > 0) {
+    gain = initialGain(received, constellation)
+    for (let iteration = 0; iteration < GAIN_ITERATIONS; iteration++) {
+      sliceAll(gain)
+      const next = fitGain(decisions)
+      if (!next) break
+      const step = modulus({ real: next.real - gain.real, imag: next.imag - gain.imag })
+      gain = next
+      if (step < 1e-12 * modulus(gain)) break
+    }
+  }
+  sliceAll(gain)
+
+  const counts = new Array<number>(points.length).fill(0)
+  const symbolPower = points.reduce((sum, point) => sum + point.real ** 2 + point.imag ** 2, 0) / points.length
+  let errorPower = 0
+  let idealPower = 0
+  let peak = 0
+  for (let i = 0; i < n; i++) {
+    const ideal = points[decisions[i]]
+    const corrected = div(received[i], gain)
+    const error = (corrected.real - ideal.real) ** 2 + (corrected.imag - ideal.imag) ** 2
+    counts[decisions[i]]++
+    errorPower += error
+    idealPower += ideal.real ** 2 + ideal.imag ** 2
+    peak = Math.max(peak, error)
+  }
+
+  let symbolErrors: number | null = null
+  if (known) {
+    symbolErrors = 0
+    for (let i = 0; i < n; i++) {
+      if (known[i] !== decisions[i]) symbolErrors++
+    }
+  }
+
+  return {
+    gain,
+    decisions,
+    counts,
+    evmRms: n > 0 ? Math.sqrt(errorPower / n / symbolPower) : 0,
+    evmPeak: Math.sqrt(peak / symbolPower),
+    merDb: 10 * Math.log10(idealPower / errorPower),
+    symbolErrors,
+  }
+}
+
+/** Ideal symbol positions as they appear in the received data */
+export function receivedFramePoints(constellation: Constellation, gain: ComplexNumber): ComplexNumber[] {
+  return constellation.points.map((point) => mul(gain, point))
+}
@@ -0,0 +1,283 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+  type ComplexNumber,
+  InputAnalysisError,
+  MatrixShapeError,
+  analyzeText,
+  applyColumnMapping,
+  calculateStatistics,
+  defaultColumnMapping,
+  defaultNumberFormat,
+  formatComplexNumber,
+  parseComplexInput,
+  parseComplexNumber,
+  parseDelimited,
+  parseJsonDataset,
+  prefixMoments,
+  statisticsToCsv,
+} from "./core"
+import { bootstrapIntervals, circularityTest, hotellingOneSample, hotellingTwoSample } from "./hypothesis"
+
+const EPSILON = 1e-9
+
+function assertClose(actual: ComplexNumber, expected: ComplexNumber) {
+  assert.ok(
+    Math.abs(actual.real - expected.real) < EPSILON && Math.abs(actual.imag - expected.imag) < EPSILON,
+    `${actual.real}${actual.imag >= 0 ? "+" : ""}${actual.imag}i ≠ ${expected.real}${expected.imag >= 0 ? "+" : ""}${expected.imag}i`,
+  )
+}
+
+const sortByReal = (numbers: ComplexNumber[]) => [...numbers].sort((a, b) => a.real - b.real || a.imag - b.imag)
+
+describe("parseComplexNumber", () => {
+  it("reads the cartesian, pair and polar forms", () => {
+    assertClose(parseComplexNumber("1+2i")!, { real: 1, imag: 2 })
+    assertClose(parseComplexNumber("3-4j")!, { real: 3, imag: -4 })
+    assertClose(parseComplexNumber("(1.5,-2)")!, { real: 1.5, imag: -2 })
+    assertClose(parseComplexNumber("-i")!, { real: 0, imag: -1 })
+    assertClose(parseComplexNumber("2∠90°")!, { real: 0, imag: 2 })
+  })
+
+  it("reads polar angles in the requested unit", () => {
+    assertClose(parseComplexNumber("1∠3.141592653589793", { angleUnit: "rad" })!, { real: -1, imag: 0 })
+  })
+
+  it("returns null for text that is not a number", () => {
+    assert.equal(parseComplexNumber("abc"), null)
+    assert.equal(parseComplexNumber("1+"), null)
+  })
+})
+
+describe("parseComplexInput", () => {
+  it("reports each rejected entry with its position", () => {
+    const { entries, rejected } = parseComplexInput("1+i, x\n2")
+    assert.equal(entries.length, 2)
+    assert.equal(rejected.length, 1)
+    assert.equal(rejected[0].text, "x")
+    assert.equal(rejected[0].line, 1)
+  })
+})
+
+describe("calculateStatistics", () => {
+  it("computes the population moments", () => {
+    const stats = calculateStatistics([
+      { real: 1, imag: 2 },
+      { real: 3, imag: -4 },
+    ])
+    assert.equal(stats.count, 2)
+    assertClose(stats.mean, { real: 2, imag: -1 })
+    assert.equal(stats.variance, 10)
+    assert.equal(stats.stdReal, 1)
+    assert.equal(stats.stdImag, 3)
+    assert.ok(Math.abs(stats.correlation + 1) < EPSILON)
+  })
+
+  it("has zero pseudo-variance for points spread evenly on a circle", () => {
+    const stats = calculateStatistics([
+      { real: 1, imag: 0 },
+      { real: 0, imag: 1 },
+      { real: -1, imag: 0 },
+      { real: 0, imag: -1 },
+    ])
+    assertClose(stats.pseudoVariance, { real: 0, imag: 0 })
+    assert.ok(stats.circularity < EPSILON)
+    assert.equal(stats.modulus.mean, 1)
+  })
+})
+
+describe("prefixMoments", () => {
+  it("matches calculateStatistics on every window", () => {
+    const numbers = [3, -1, 4, 1, -5, 9, 2, -6].map((value, index) => ({ real: 1e6 + value, imag: index * value }))
+    const moments = prefixMoments(numbers)
+    for (const [from, to] of [
+      [0, 8],
+      [0, 1],
+      [2, 5],
+      [5, 8],
+    ]) {
+      const expected = calculateStatistics(numbers.slice(from, to))
+      const actual = moments(from, to)
+      assert.equal(actual.count, to - from)
+      assertClose(actual.mean, expected.mean)
+      assert.ok(Math.abs(actual.variance - expected.variance) < 1e-6)
+    }
+    assert.equal(moments(3, 3).count, 0)
+  })
+
+  it("leaves skipped samples out of every window", () => {
+    const numbers = [1, 100, 2, 3, -50, 4].map((value) => ({ real: value, imag: -value }))
+    const skip = new Set([1, 4])
+    const moments = prefixMoments(numbers, skip)
+    for (const [from, to] of [
+      [0, 6],
+      [1, 4],
+      [3, 6],
+    ]) {
+      const expected = calculateStatistics(numbers.slice(from, to).filter((_, index) => !skip.has(from + index)))
+      const actual = moments(from, to)
+      assert.equal(actual.count, expected.count)
+      assertClose(actual.mean, expected.mean)
+      assert.ok(Math.abs(actual.variance - expected.variance) < 1e-9)
+    }
+    assert.equal(moments(1, 2).count, 0)
+  })
+})
+
+// The corners of a square, three times over: mean 0, population covariance I and pseudo-variance 0
+const square = (shift = 0) =>
+  [1, 2, 3].flatMap(() =>
+    [
+      [1, 1],
+      [1, -1],
+      [-1, 1],
+      [-1, -1],
+    ].map(([real, imag]) => ({ real: real + shift, imag })),
+  )
+
+describe("hotellingOneSample", () => {
+  it("gives T² = 0 and p = 1 at the mean of a symmetric sample", () => {
+    const result = hotellingOneSample(calculateStatistics(square()), { real: 0, imag: 0 })!
+    assert.equal(result.statistic, 0)
+    assert.equal(result.pValue, 1)
+  })
+
+  it("gives p = 0.05 at the 95% quantile of F(2, 10)", () => {
+    // Sample covariance (12/11)·I, so T² = 11a² for a target at (a, 0), and F = (10/22)·T²
+    const quantile = 5 * (Math.pow(0.05, -0.2) - 1)
+    const result = hotellingOneSample(calculateStatistics(square()), { real: Math.sqrt((quantile * 2.2) / 11), imag: 0 })!
+    assert.equal(result.distribution, "F(2, 10)")
+    assert.ok(Math.abs(result.distributionValue - 4.1028) < 1e-4)
+    assert.ok(Math.abs(result.pValue - 0.05) < 1e-9)
+  })
+})
+
+describe("hotellingTwoSample", () => {
+  it("pools the covariances of both samples", () => {
+    // Pooled covariance (12/11)·I and n₁n₂/(n₁ + n₂) = 6, so T² = 5.5 for means 1 apart
+    const result = hotellingTwoSample(calculateStatistics(square()), calculateStatistics(square(1)))!
+    assert.equal(result.distribution, "F(2, 21)")
+    assert.ok(Math.abs(result.statistic - 5.5) < 1e-9)
+    assert.ok(Math.abs(result.pValue - Math.pow(1 + (2 * 2.625) / 21, -10.5)) < 1e-12)
+  })
+
+  it("finds no difference between equal samples", () => {
+    const statistics = calculateStatistics(square())
+    assert.equal(hotellingTwoSample(statistics, statistics)!.pValue, 1)
+  })
+})
+
+describe("circularityTest", () => {
+  it("accepts a circular sample and rejects one on a line", () => {
+    const circular = circularityTest(calculateStatistics(square()))!
+    assert.ok(Math.abs(circular.statistic) < EPSILON)
+    assert.ok(Math.abs(circular.pValue - 1) < EPSILON)
+    const line = circularityTest(calculateStatistics([1, 2, 3, 4, 5].map((real) => ({ real, imag: 0 }))))!
+    assert.ok(line.pValue < 1e-6)
+  })
+})
+
+describe("bootstrapIntervals", () => {
+  it("gives the same intervals for the same seed", () => {
+    const numbers = [3, -1, 4, 1, -5, 9, 2, -6].map((value, index) => ({ real: value, imag: index }))
+    const first = bootstrapIntervals(numbers, { resamples: 200, seed: 7 })
+    assert.deepEqual(bootstrapIntervals(numbers, { resamples: 200, seed: 7 }), first)
+    assert.notDeepEqual(bootstrapIntervals(numbers, { resamples: 200, seed: 8 }), first)
+    assert.ok(first.meanReal.lower < 0.875 && first.meanReal.upper > 0.875)
+    assert.ok(first.meanImag.lower < 3.5 && first.meanImag.upper > 3.5)
+  })
+})
+
+describe("formatComplexNumber", () => {
+  it("writes the cartesian form with the configured precision", () => {
+    assert.equal(formatComplexNumber({ real: 1, imag: -2 }), "1.0000-2.0000i")
+    assert.equal(formatComplexNumber({ real: 0, imag: 3 }), "3.0000i")
+    assert.equal(formatComplexNumber({ real: 2.5, imag: 0 }, { ...defaultNumberFormat, precision: 1 }), "2.5")
+  })
+
+  it("writes the polar form", () => {
+    assert.equal(
+      formatComplexNumber({ real: 0, imag: 2 }, { ...defaultNumberFormat, form: "polar", precision: 1 }),
+      "2.0∠90.0°",
+    )
+  })
+})
+
+describe("analyzeText", () => {
+  it("analyses samples", () => {
+    const analysis = analyzeText("1+2i\n3-4i")
+    assert.equal(analysis.numbers.length, 2)
+    assertClose(analysis.statistics!.mean, { real: 2, imag: -1 })
+  })
+
+  it("finds the roots of a polynomial", () => {
+    const analysis = analyzeText("1 0 -1", { mode: "polynomial", angleUnit: "deg", strict: false })
+    const roots = sortByReal(analysis.numbers)
+    assertClose(roots[0], { real: -1, imag: 0 })
+    assertClose(roots[1], { real: 1, imag: 0 })
+    assert.equal(analysis.roots?.poles, null)
+  })
+
+  it("finds the eigenvalues of a matrix", () => {
+    const analysis = analyzeText("0 1\n-1 0", { mode: "matrix", angleUnit: "deg", strict: false })
+    const eigenvalues = sortByReal(analysis.numbers).sort((a, b) => a.imag - b.imag)
+    assertClose(eigenvalues[0], { real: 0, imag: -1 })
+    assertClose(eigenvalues[1], { real: 0, imag: 1 })
+  })
+
+  it("rejects ragged matrix rows", () => {
+    assert.throws(() => analyzeText("1 2\n3", { mode: "matrix", angleUnit: "deg", strict: false }), MatrixShapeError)
+  })
+
+  it("refuses unparsable entries in strict mode only", () => {
+    assert.equal(analyzeText("1, x").rejected.length, 1)
+    assert.throws(() => analyzeText("1, x", { mode: "samples", angleUnit: "deg", strict: true }), InputAnalysisError)
+  })
+
+  it("fails on input without numbers", () => {
+    assert.throws(() => analyzeText("   "), InputAnalysisError)
+  })
+})
+
+describe("parseDelimited", () => {
+  it("keeps the first row of a headerless file of complex strings", () => {
+    const table = parseDelimited("1+2i\n3-4j\n5")
+    assert.deepEqual(table.rows, [["1+2i"], ["3-4j"], ["5"]])
+    assert.deepEqual(applyColumnMapping(table, defaultColumnMapping(table)), {
+      kind: "strings",
+      values: ["1+2i", "3-4j", "5"],
+    })
+  })
+
+  it("reads a header row of column names", () => {
+    const table = parseDelimited("i,q\n1,2\n3,4")
+    assert.deepEqual(table.headers, ["i", "q"])
+    assert.equal(table.rows.length, 2)
+  })
+})
+
+describe("parseJsonDataset", () => {
+  it("skips objects without a real or imaginary part", () => {
+    assert.deepEqual(parseJsonDataset('[{"x": 1}, {"re": 1, "im": -2}, {"imag": 3}]'), {
+      kind: "numbers",
+      numbers: [
+        { real: 1, imag: -2 },
+        { real: 0, imag: 3 },
+      ],
+      skipped: 1,
+    })
+  })
+})
+
+describe("statisticsToCsv", () => {
+  it("writes one row per sample under a header", () => {
+    const statistics = calculateStatistics([{ real: 1, imag: 1 }])
+    const lines = statisticsToCsv([
+      { name: "a", statistics },
+      { name: 'b,"c"', statistics },
+    ]).split("\n")
+    assert.equal(lines.length, 3)
+    assert.ok(lines[0].startsWith("name,count,"))
+    assert.ok(lines[2].startsWith('"b,""c""",1,'))
+  })
+})
@@ -0,0 +1,160 @@
+import type { AngleUnit, ComplexNumber } from "./complex"
+import { type ParseDiagnostic, type ParsedEntry, parseComplexInput } from "./complex-parser"
+import { type MatrixAnalysis, analyzeMatrix, matrixFromEntries } from "./matrix"
+import { coefficientBlocks, polynomialRoots } from "./polynomial"
+import type { SeriesRoots } from "./series"
+import { type Statistics, calculateStatistics } from "./statistics"
+
+/*
+ * The analysis without the interface: nothing here touches React or the DOM,
+ * so it runs the same in the browser, in the analysis worker and in Node.
+ * The app and the complex-analyzer CLI both build on it, which is what keeps
+ * their numbers identical.
+ */
+
+export type { AngleUnit, ComplexNumber } from "./complex"
+export {
+  ComplexParseError,
+  type ParseDiagnostic,
+  type ParseOptions,
+  type ParseResult,
+  type ParsedEntry,
+  parseComplexInput,
+  parseComplexNumber,
+  parseComplexNumberStrict,
+} from "./complex-parser"
+export {
+  type Statistics,
+  type WindowMoments,
+  calculateStatistics,
+  compareStatistics,
+  prefixMoments,
+} from "./statistics"
+export {
+  type NumberFormat,
+  MAX_PRECISION,
+  defaultNumberFormat,
+  formatAngle,
+  formatComplexNumber,
+  formatReal,
+} from "./format"
+export {
+  type ResultGroup,
+  describeStatistics,
+  numbersToCsv,
+  numbersToJson,
+  resultsToLatex,
+  resultsToMarkdown,
+  statisticsToCsv,
+  statisticsToJson,
+} from "./report"
+export {
+  DatasetImportError,
+  type ImportedData,
+  applyColumnMapping,
+  defaultColumnMapping,
+  detectFormat,
+  parseDelimited,
+  parseJsonDataset,
+  parseNpy,
+  serializeComplexNumbers,
+} from "./dataset-import"
+export { MatrixShapeError } from "./matrix"
+
+export class InputAnalysisError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "InputAnalysisError"
+  }
+}
+
+/**
+ * How the input is read: as data samples, as polynomial coefficients
+ * whose roots become the data, or as a matrix whose eigenvalues do
+ */
+export type InputMode = "samples" | "polynomial" | "matrix"
+
+export const INPUT_MODES: InputMode[] = ["samples", "polynomial", "matrix"]
+
+export interface TextAnalysisOptions {
+  mode: InputMode
+  angleUnit: AngleUnit
+  /** Refuse the input when any entry fails to parse */
+  strict: boolean
+}
+
+export const defaultTextAnalysisOptions: TextAnalysisOptions = { mode: "samples", angleUnit: "deg", strict: false }
+
+export interface TextAnalysis {
+  /** The samples, the roots (zeros then poles) or the eigenvalues */
+  numbers: ComplexNumber[]
+  /** Every entry that parsed, with where it came from */
+  entries: ParsedEntry[]
+  rejected: ParseDiagnostic[]
+  /** Null for a matrix without eigenvalues, which is not square */
+  statistics: Statistics | null
+  roots?: SeriesRoots
+  matrix?: MatrixAnalysis
+}
+
+/**
+ * Zeros, and poles when a second block of coefficients is given, of the
+ * polynomials in the input. Throws InputAnalysisError with a message for the user.
+ */
+export function polynomialInputRoots(input: string, entries: ParsedEntry[]): SeriesRoots {
+  const blocks = coefficientBlocks(input, entries)
+  if (blocks.length === 0) throw new InputAnalysisError("请输入多项式系数，最高次项在前")
+  if (blocks.length > 2) throw new InputAnalysisError("最多两个多项式：分子与分母，用空行分隔")
+
+  let roots: SeriesRoots
+  try {
+    roots = { zeros: polynomialRoots(blocks[0]), poles: blocks.length > 1 ? polynomialRoots(blocks[1]) : null }
+  } catch (error) {
+    throw new InputAnalysisError(`求根失败：${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (roots.zeros.length + (roots.poles?.length ?? 0) === 0) throw new InputAnalysisError("常数多项式没有根")
+  return roots
+}
+
+/** What an input mode makes of the parsed entries */
+export type EntryAnalysis = Omit<TextAnalysis, "entries" | "rejected">
+
+/**
+ * The analysis of entries already parsed from input, in the given mode.
+ * Throws InputAnalysisError when there is nothing to analyse,
+ * MatrixShapeError for ragged matrix rows and a plain Error when the
+ * eigenvalue iteration of a matrix does not converge.
+ */
+export function analyzeEntries(input: string, entries: ParsedEntry[], mode: InputMode): EntryAnalysis {
+  switch (mode) {
+    case "samples": {
+      if (entries.length === 0) throw new InputAnalysisError("请输入有效的复数数据")
+      const numbers = entries.map((entry) => entry.value)
+      return { numbers, statistics: calculateStatistics(numbers) }
+    }
+    case "polynomial": {
+      const roots = polynomialInputRoots(input, entries)
+      const numbers = [...roots.zeros, ...(roots.poles ?? [])].map((root) => root.value)
+      return { numbers, statistics: calculateStatistics(numbers), roots }
+    }
+    case "matrix": {
+      if (entries.length === 0) throw new InputAnalysisError("请输入矩阵，每行一行元素")
+      const matrix = analyzeMatrix(matrixFromEntries(entries))
+      const numbers = matrix.eigenpairs?.map((pair) => pair.value) ?? []
+      return { numbers, statistics: numbers.length > 0 ? calculateStatistics(numbers) : null, matrix }
+    }
+  }
+}
+
+/**
+ * The whole analysis of one input on the calling thread. Throws
+ * InputAnalysisError when strict mode refuses the input, and otherwise
+ * whatever analyzeEntries throws.
+ */
+export function analyzeText(input: string, options: TextAnalysisOptions = defaultTextAnalysisOptions): TextAnalysis {
+  const { entries, rejected } = parseComplexInput(input, { angleUnit: options.angleUnit })
+  if (options.strict && rejected.length > 0) {
+    throw new InputAnalysisError(`严格模式：有 ${rejected.length} 个输入无法解析`)
+  }
+  return { entries, rejected, ...analyzeEntries(input, entries, options.mode) }
+}
@@ -0,0 +1,294 @@
+import { type AngleUnit, type ComplexNumber, fromPolar, toRadians } from "./complex"
+import { parseComplexNumber } from "./complex-parser"
+
+export class DatasetImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "DatasetImportError"
+  }
+}
+
+export type DatasetFormat = "delimited" | "json" | "npy"
+
+export function detectFormat(fileName: string): DatasetFormat {
+  const extension = fileName.toLowerCase().split(".").pop() ?? ""
+  if (extension === "npy") return "npy"
+  if (extension === "json") return "json"
+  return "delimited"
+}
+
+/**
+ * An imported dataset is either already numeric, or a list of complex strings
+ * that still has to go through the text parser (and its diagnostics).
+ */
+export type ImportedData =
+  | { kind: "numbers"; numbers: ComplexNumber[]; skipped: number }
+  | { kind: "strings"; values: string[] }
+
+// ---------------------------------------------------------------------------
+// CSV / TSV
+
+export interface DelimitedTable {
+  delimiter: string
+  headers: string[]
+  rows: string[][]
+}
+
+const DELIMITERS = ["\t", ",", ";"]
+
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let pos = 0; pos < line.length; pos++) {
+    const char = line[pos]
+    if (quoted) {
+      if (char === '"' && line[pos + 1] === '"') {
+        cell += '"'
+        pos++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(cell.trim())
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell.trim())
+
+  return cells
+}
+
+/** Pick the delimiter that splits the first lines into the most consistent column count */
+function detectDelimiter(lines: string[]): string {
+  let best = ","
+  let bestColumns = 1
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.slice(0, 10).map((line) => splitDelimitedLine(line, delimiter).length)
+    if (counts.every((count) => count === counts[0]) && counts[0] > bestColumns) {
+      best = delimiter
+      bestColumns = counts[0]
+    }
+  }
+  return best
+}
+
+export function parseDelimited(text: string, fileName = ""): DelimitedTable {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.trimStart().startsWith("#"))
+  if (lines.length === 0) {
+    throw new DatasetImportError("文件为空")
+  }
+
+  const delimiter = fileName.toLowerCase().endsWith(".tsv") ? "\t" : detectDelimiter(lines)
+  const rows = lines.map((line) => splitDelimitedLine(line, delimiter))
+
+  // Treat the first row as a header when none of its cells is a plain number and
+  // not all of them are complex literals such as 1+2i; a lone "i" or "j" may still head an I/Q column
+  const cells = rows[0].filter((cell) => cell !== "")
+  const hasHeader =
+    rows.length > 1 &&
+    cells.every((cell) => Number.isNaN(Number(cell))) &&
+    (cells.length === 0 || !cells.every((cell) => parseComplexNumber(cell) !== null))
+  const width = Math.max(...rows.slice(0, 100).map((row) => row.length))
+  const headers = hasHeader
+    ? Array.from({ length: width }, (_, index) => rows[0][index] || `列 ${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `列 ${index + 1}`)
+
+  return { delimiter, headers, rows: hasHeader ? rows.slice(1) : rows }
+}
+
+export type ColumnMapping =
+  | { kind: "cartesian"; real: number; imag: number }
+  | { kind: "polar"; magnitude: number; phase: number; angleUnit: AngleUnit }
+  | { kind: "complex"; column: number }
+
+export function defaultColumnMapping(table: DelimitedTable): ColumnMapping {
+  if (table.headers.length < 2) return { kind: "complex", column: 0 }
+
+  const find = (pattern: RegExp) => table.headers.findIndex((header) => pattern.test(header))
+  const magnitude = find(/^(mag|abs|amp|modulus|r$|模)/i)
+  const phase = find(/^(phase|angle|arg|theta|phi|相位|辐角)/i)
+  if (magnitude >= 0 && phase >= 0) {
+    return { kind: "polar", magnitude, phase, angleUnit: "deg" }
+  }
+
+  const real = find(/^(re|i$|实)/i)
+  const imag = find(/^(im|q$|虚)/i)
+  return { kind: "cartesian", real: real >= 0 ? real : 0, imag: imag >= 0 ? imag : 1 }
+}
+
+export function applyColumnMapping(table: DelimitedTable, mapping: ColumnMapping): ImportedData {
+  if (mapping.kind === "complex") {
+    return { kind: "strings", values: table.rows.map((row) => row[mapping.column] ?? "") }
+  }
+
+  const numbers: ComplexNumber[] = []
+  let skipped = 0
+  for (const row of table.rows) {
+    const [first, second] =
+      mapping.kind === "cartesian" ? [row[mapping.real], row[mapping.imag]] : [row[mapping.magnitude], row[mapping.phase]]
+    const a = Number(first)
+    const b = Number(second)
+    if (first === undefined || first === "" || second === undefined || second === "" || !Number.isFinite(a) || !Number.isFinite(b)) {
+      skipped++
+      continue
+    }
+    numbers.push(
+      mapping.kind === "cartesian" ? { real: a, imag: b } : fromPolar(a, toRadians(b, mapping.angleUnit)),
+    )
+  }
+
+  return { kind: "numbers", numbers, skipped }
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+
+export function parseJsonDataset(text: string): ImportedData {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new DatasetImportError("JSON 格式无效")
+  }
+  if (!Array.isArray(data)) {
+    throw new DatasetImportError("JSON 顶层必须是数组")
+  }
+
+  if (data.every((item) => typeof item === "string")) {
+    return { kind: "strings", values: data as string[] }
+  }
+
+  const numbers: ComplexNumber[] = []
+  let skipped = 0
+  for (const item of data) {
+    let value: ComplexNumber | null = null
+    if (typeof item === "number") {
+      value = { real: item, imag: 0 }
+    } else if (Array.isArray(item) && item.length === 2) {
+      value = { real: Number(item[0]), imag: Number(item[1]) }
+    } else if (item && typeof item === "object") {
+      // An object without any of the keys is not a sample, rather than 0+0i
+      const record = item as Record<string, unknown>
+      const real = record.real ?? record.re
+      const imag = record.imag ?? record.im
+      if (real !== undefined || imag !== undefined) value = { real: Number(real ?? 0), imag: Number(imag ?? 0) }
+    }
+
+    if (value && Number.isFinite(value.real) && Number.isFinite(value.imag)) {
+      numbers.push(value)
+    } else {
+      skipped++
+    }
+  }
+
+  return { kind: "numbers", numbers, skipped }
+}
+
+// ---------------------------------------------------------------------------
+// NumPy .npy
+
+const NPY_MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59] // "\x93NUMPY"
+
+interface NpyHeader {
+  descr: string
+  fortranOrder: boolean
+  shape: number[]
+}
+
+function parseNpyHeader(header: string): NpyHeader {
+  const descr = header.match(/'descr'\s*:\s*'([^']+)'/)?.[1]
+  const fortran = header.match(/'fortran_order'\s*:\s*(True|False)/)?.[1]
+  const shape = header.match(/'shape'\s*:\s*\(([^)]*)\)/)?.[1]
+  if (!descr || !fortran || shape === undefined) {
+    throw new DatasetImportError("无法解析 .npy 文件头")
+  }
+
+  return {
+    descr,
+    fortranOrder: fortran === "True",
+    shape: shape
+      .split(",")
+      .map((dim) => dim.trim())
+      .filter(Boolean)
+      .map(Number),
+  }
+}
+
+/**
+ * Read a NumPy .npy file. Complex64/complex128 arrays of any shape are
+ * flattened; float arrays are read as reals, except an (N, 2) float array,
+ * which is read as (re, im) pairs.
+ */
+export function parseNpy(buffer: ArrayBuffer): ImportedData {
+  const bytes = new Uint8Array(buffer)
+  if (bytes.length < 10 || NPY_MAGIC.some((byte, index) => bytes[index] !== byte)) {
+    throw new DatasetImportError("不是有效的 .npy 文件")
+  }
+
+  const view = new DataView(buffer)
+  const major = bytes[6]
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true)
+  const headerStart = major === 1 ? 10 : 12
+  const header = parseNpyHeader(new TextDecoder("latin1").decode(bytes.subarray(headerStart, headerStart + headerLength)))
+  const dataStart = headerStart + headerLength
+
+  const match = header.descr.match(/^([<>|=])([cf])(\d+)$/)
+  if (!match) {
+    throw new DatasetImportError(`不支持的 .npy 数据类型 ${header.descr}`)
+  }
+  const littleEndian = match[1] !== ">"
+  const isComplex = match[2] === "c"
+  const itemSize = Number(match[3])
+  const scalarSize = isComplex ? itemSize / 2 : itemSize
+  if (scalarSize !== 4 && scalarSize !== 8) {
+    throw new DatasetImportError(`不支持的 .npy 数据类型 ${header.descr}`)
+  }
+
+  const count = header.shape.reduce((product, dim) => product * dim, 1)
+  const scalars = count * (isComplex ? 2 : 1)
+  if (dataStart + scalars * scalarSize > buffer.byteLength) {
+    throw new DatasetImportError(".npy 文件数据不完整")
+  }
+  const read = (index: number) =>
+    scalarSize === 4
+      ? view.getFloat32(dataStart + index * 4, littleEndian)
+      : view.getFloat64(dataStart + index * 8, littleEndian)
+
+  const numbers: ComplexNumber[] = []
+  if (isComplex) {
+    for (let index = 0; index < count; index++) {
+      numbers.push({ real: read(2 * index), imag: read(2 * index + 1) })
+    }
+  } else if (header.shape.length === 2 && header.shape[1] === 2) {
+    const rows = header.shape[0]
+    for (let row = 0; row < rows; row++) {
+      numbers.push(
+        header.fortranOrder
+          ? { real: read(row), imag: read(rows + row) }
+          : { real: read(2 * row), imag: read(2 * row + 1) },
+      )
+    }
+  } else {
+    for (let index = 0; index < count; index++) {
+      numbers.push({ real: read(index), imag: 0 })
+    }
+  }
+
+  const finite = numbers.filter((num) => Number.isFinite(num.real) && Number.isFinite(num.imag))
+  return { kind: "numbers", numbers: finite, skipped: numbers.length - finite.length }
+}
+
+/** Serialize numbers back into text the complex parser reads without loss */
+export function serializeComplexNumbers(numbers: ComplexNumber[]): string {
+  return numbers
+    .map((num) => `${num.real}${num.imag < 0 || Object.is(num.imag, -0) ? "-" : "+"}${Math.abs(num.imag)}i`)
+    .join("\n")
+}
@@ -0,0 +1,180 @@
+import type { ComplexNumber } from "./complex"
+
+/** Rectangle of the complex plane covered by a grid */
+export interface GridBounds {
+  minReal: number
+  maxReal: number
+  minImag: number
+  maxImag: number
+}
+
+/**
+ * Values on a regular grid over the bounds, row-major with row 0 at minImag.
+ * Each value belongs to the centre of its cell.
+ */
+export interface DensityGrid {
+  bounds: GridBounds
+  cols: number
+  rows: number
+  values: Float64Array
+  max: number
+}
+
+/** Count of points per cell; points outside the bounds are ignored */
+export function histogram2d(numbers: ComplexNumber[], bounds: GridBounds, cols: number, rows: number): DensityGrid {
+  const values = new Float64Array(cols * rows)
+  const scaleX = cols / (bounds.maxReal - bounds.minReal)
+  const scaleY = rows / (bounds.maxImag - bounds.minImag)
+  let max = 0
+  for (const num of numbers) {
+    const col = Math.floor((num.real - bounds.minReal) * scaleX)
+    const row = Math.floor((num.imag - bounds.minImag) * scaleY)
+    if (col < 0 || col >= cols || row < 0 || row >= rows) continue
+    const count = ++values[row * cols + col]
+    if (count > max) max = count
+  }
+  return { bounds, cols, rows, values, max }
+}
+
+/** Scott's rule bandwidth for one coordinate of a bivariate sample */
+export function scottBandwidth(std: number, count: number): number {
+  return std * count ** (-1 / 6)
+}
+
+function gaussianKernel(sigma: number, limit: number): Float64Array {
+  const radius = Math.min(Math.ceil(3 * sigma), limit)
+  const kernel = new Float64Array(2 * radius + 1)
+  for (let offset = -radius; offset <= radius; offset++) {
+    kernel[offset + radius] = sigma > 0 ? Math.exp(-(offset * offset) / (2 * sigma * sigma)) : offset === 0 ? 1 : 0
+  }
+  const total = kernel.reduce((sum, weight) => sum + weight, 0)
+  return kernel.map((weight) => weight / total)
+}
+
+/**
+ * Binned kernel density estimate: the histogram convolved with a separable
+ * Gaussian, scaled to probability density per unit area. The bounds are
+ * widened by three bandwidths so that points just outside still contribute.
+ */
+export function kernelDensity(
+  numbers: ComplexNumber[],
+  bounds: GridBounds,
+  bandwidth: [number, number],
+  resolution = 128,
+): DensityGrid {
+  const [hx, hy] = bandwidth
+  const padded = {
+    minReal: bounds.minReal - 3 * hx,
+    maxReal: bounds.maxReal + 3 * hx,
+    minImag: bounds.minImag - 3 * hy,
+    maxImag: bounds.maxImag + 3 * hy,
+  }
+  const { cols, rows, values } = histogram2d(numbers, padded, resolution, resolution)
+  const cellWidth = (padded.maxReal - padded.minReal) / cols
+  const cellHeight = (padded.maxImag - padded.minImag) / rows
+
+  const kernelX = gaussianKernel(hx / cellWidth, cols)
+  const kernelY = gaussianKernel(hy / cellHeight, rows)
+  const radiusX = (kernelX.length - 1) / 2
+  const radiusY = (kernelY.length - 1) / 2
+
+  const horizontal = new Float64Array(cols * rows)
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      let sum = 0
+      for (let k = -radiusX; k <= radiusX; k++) {
+        const source = col + k
+        if (source >= 0 && source < cols) sum += values[row * cols + source] * kernelX[k + radiusX]
+      }
+      horizontal[row * cols + col] = sum
+    }
+  }
+
+  const density = new Float64Array(cols * rows)
+  const normalisation = 1 / (Math.max(numbers.length, 1) * cellWidth * cellHeight)
+  let max = 0
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      let sum = 0
+      for (let k = -radiusY; k <= radiusY; k++) {
+        const source = row + k
+        if (source >= 0 && source < rows) sum += horizontal[source * cols + col] * kernelY[k + radiusY]
+      }
+      const value = sum * normalisation
+      density[row * cols + col] = value
+      if (value > max) max = value
+    }
+  }
+
+  return { bounds: padded, cols, rows, values: density, max }
+}
+
+/**
+ * Marching squares over the cell centres. Returns line segments of the level
+ * set in data coordinates; saddle cells are resolved by the centre average.
+ */
+export function contourSegments(grid: DensityGrid, level: number): Array<[ComplexNumber, ComplexNumber]> {
+  const { bounds, cols, rows, values } = grid
+  const cellWidth = (bounds.maxReal - bounds.minReal) / cols
+  const cellHeight = (bounds.maxImag - bounds.minImag) / rows
+  const at = (col: number, row: number): ComplexNumber => ({
+    real: bounds.minReal + (col + 0.5) * cellWidth,
+    imag: bounds.minImag + (row + 0.5) * cellHeight,
+  })
+  const segments: Array<[ComplexNumber, ComplexNumber]> = []
+
+  for (let row = 0; row < rows - 1; row++) {
+    for (let col = 0; col < cols - 1; col++) {
+      // Corners counter-clockwise from the bottom left
+      const v0 = values[row * cols + col]
+      const v1 = values[row * cols + col + 1]
+      const v2 = values[(row + 1) * cols + col + 1]
+      const v3 = values[(row + 1) * cols + col]
+      const code = (v0 >= level ? 1 : 0) | (v1 >= level ? 2 : 0) | (v2 >= level ? 4 : 0) | (v3 >= level ? 8 : 0)
+      if (code === 0 || code === 15) continue
+
+      const lerp = (a: number, b: number) => (a === b ? 0.5 : (level - a) / (b - a))
+      const bottom = () => at(col + lerp(v0, v1), row)
+      const right = () => at(col + 1, row + lerp(v1, v2))
+      const top = () => at(col + lerp(v3, v2), row + 1)
+      const left = () => at(col, row + lerp(v0, v3))
+      const centreAbove = (v0 + v1 + v2 + v3) / 4 >= level
+
+      switch (code) {
+        case 1:
+        case 14:
+          segments.push([left(), bottom()])
+          break
+        case 2:
+        case 13:
+          segments.push([bottom(), right()])
+          break
+        case 3:
+        case 12:
+          segments.push([left(), right()])
+          break
+        case 4:
+        case 11:
+          segments.push([right(), top()])
+          break
+        case 6:
+        case 9:
+          segments.push([bottom(), top()])
+          break
+        case 7:
+        case 8:
+          segments.push([left(), top()])
+          break
+        case 5:
+          if (centreAbove) segments.push([left(), top()], [bottom(), right()])
+          else segments.push([left(), bottom()], [right(), top()])
+          break
+        case 10:
+          if (centreAbove) segments.push([left(), bottom()], [right(), top()])
+          else segments.push([left(), top()], [bottom(), right()])
+          break
+      }
+    }
+  }
+  return segments
+}
@@ -0,0 +1,93 @@
+import type { ComplexNumber } from "./complex"
+import type { ComplexFunction } from "./complex-expression"
+
+/*
+ * Domain colouring: every point z of a region is painted by the value f(z),
+ * with the hue giving arg f(z) and the lightness |f(z)|. Zeros come out
+ * black, poles white, and the order of a zero or pole can be read from how
+ * many times the hues cycle around it.
+ */
+
+export interface DomainColoringOptions {
+  /** Lines where |f(z)| crosses a power of two */
+  modulusContours: boolean
+  /** Lines where arg f(z) crosses a multiple of 30° */
+  phaseContours: boolean
+}
+
+// Phase contours split the full turn into this many sectors
+const PHASE_SECTORS = 12
+const CONTOUR_SHADE = 0.55
+// Values that are neither finite nor infinite, such as 0/0
+const UNDEFINED_RGB = [156, 163, 175]
+
+/** RGB of a fully saturated HSL colour; hue in turns, lightness in [0, 1] */
+function hslToRgb(hue: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * 255
+  const base = lightness * 255 - chroma / 2
+  const channel = (offset: number) => {
+    const k = (((hue * 6 + offset) % 6) + 6) % 6
+    return base + chroma * (1 - Math.min(Math.max(Math.min(k, 4 - k), 0), 1))
+  }
+  return [channel(5), channel(3), channel(1)]
+}
+
+/**
+ * RGBA pixels for a cols × rows grid; toComplex gives the point of the
+ * plane at the centre of each cell, with row 0 at the top.
+ */
+export function domainColoring(
+  f: ComplexFunction,
+  cols: number,
+  rows: number,
+  toComplex: (col: number, row: number) => ComplexNumber,
+  { modulusContours, phaseContours }: DomainColoringOptions,
+): Uint8ClampedArray {
+  const count = cols * rows
+  const moduli = new Float64Array(count)
+  const phases = new Float64Array(count)
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const w = f(toComplex(col, row))
+      const index = row * cols + col
+      moduli[index] = Math.hypot(w.real, w.imag)
+      phases[index] = Math.atan2(w.imag, w.real)
+    }
+  }
+
+  // Contour bands, compared with the right and lower neighbours to find the lines
+  const modulusBand = (index: number) => Math.floor(Math.log2(moduli[index]))
+  const phaseBand = (index: number) => Math.floor(((phases[index] + Math.PI) / (2 * Math.PI)) * PHASE_SECTORS) % PHASE_SECTORS
+  const crosses = (band: (index: number) => number, index: number, col: number, row: number) => {
+    const here = band(index)
+    return (col + 1 < cols && band(index + 1) !== here) || (row + 1 < rows && band(index + cols) !== here)
+  }
+
+  const pixels = new Uint8ClampedArray(count * 4)
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const index = row * cols + col
+      const modulus = moduli[index]
+      let rgb: number[]
+      if (Number.isNaN(modulus)) {
+        rgb = UNDEFINED_RGB
+      } else {
+        // 0 → black, 1 → pure hue, ∞ → white
+        rgb = hslToRgb(phases[index] / (2 * Math.PI), (2 / Math.PI) * Math.atan(modulus))
+        const finite = Number.isFinite(modulus) && modulus > 0
+        if (
+          (modulusContours && finite && crosses(modulusBand, index, col, row)) ||
+          (phaseContours && finite && crosses(phaseBand, index, col, row))
+        ) {
+          rgb = rgb.map((value) => value * CONTOUR_SHADE)
+        }
+      }
+      const pixel = index * 4
+      pixels[pixel] = rgb[0]
+      pixels[pixel + 1] = rgb[1]
+      pixels[pixel + 2] = rgb[2]
+      pixels[pixel + 3] = 255
+    }
+  }
+  return pixels
+}
@@ -0,0 +1,17 @@
+/*
+ * Files handed to the browser for download. What goes into them is written by
+ * report.ts.
+ */
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.download = fileName
+  link.href = url
+  link.click()
+  // Some browsers start the download only after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/** Today's date, for file names */
+export const dateStamp = () => new Date().toISOString().slice(0, 10)
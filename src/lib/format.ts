@@ -0,0 +1,100 @@
+import type { AngleUnit, ComplexNumber } from "./complex"
+
+/** How numbers are written everywhere in the interface, in copied text and on the plot */
+export interface NumberFormat {
+  /** Digits after the decimal point, of the mantissa in scientific and engineering notation */
+  precision: number
+  notation: "fixed" | "scientific" | "engineering"
+  /** a+bi, r∠θ or r·e^(θi) */
+  form: "cartesian" | "polar" | "exponential"
+  /** Unit of θ in the polar and exponential forms */
+  angleUnit: AngleUnit
+  imaginaryUnit: "i" | "j"
+}
+
+// toFixed and toExponential take up to 100 digits, but more than this is noise for doubles
+export const MAX_PRECISION = 15
+
+export const defaultNumberFormat: NumberFormat = {
+  precision: 4,
+  notation: "fixed",
+  form: "cartesian",
+  angleUnit: "deg",
+  imaginaryUnit: "i",
+}
+
+/** Mantissa with an exponent that is a multiple of three, as in 12.3400e-6 */
+function toEngineering(value: number, precision: number): string {
+  if (value === 0) return `${(0).toFixed(precision)}e+0`
+  let exponent = Math.floor(Math.log10(Math.abs(value)) / 3) * 3
+  let mantissa = (value / 10 ** exponent).toFixed(precision)
+  // Rounding can carry 999.99… over to 1000
+  if (Math.abs(Number(mantissa)) >= 1000) {
+    exponent += 3
+    mantissa = (value / 10 ** exponent).toFixed(precision)
+  }
+  return `${mantissa}e${exponent < 0 ? "-" : "+"}${Math.abs(exponent)}`
+}
+
+export function formatReal(value: number, format: NumberFormat = defaultNumberFormat): string {
+  if (!Number.isFinite(value)) return String(value)
+  switch (format.notation) {
+    case "fixed":
+      return value.toFixed(format.precision)
+    case "scientific":
+      return value.toExponential(format.precision)
+    case "engineering":
+      return toEngineering(value, format.precision)
+  }
+}
+
+export function formatComplexNumber(num: ComplexNumber, format: NumberFormat = defaultNumberFormat): string {
+  const unit = format.imaginaryUnit
+  if (format.form !== "cartesian") {
+    const r = formatReal(Math.hypot(num.real, num.imag), format)
+    const radians = Math.atan2(num.imag, num.real)
+    const theta =
+      format.angleUnit === "deg" ? `${formatReal((radians * 180) / Math.PI, format)}°` : formatReal(radians, format)
+    return format.form === "polar" ? `${r}∠${theta}${format.angleUnit === "rad" ? " rad" : ""}` : `${r}·e^(${theta}${unit})`
+  }
+
+  if (num.imag === 0) return formatReal(num.real, format)
+  if (num.real === 0) return `${formatReal(num.imag, format)}${unit}`
+
+  const imag = formatReal(num.imag, format)
+  const imagPart = num.imag >= 0 ? `+${imag}${unit}` : `${imag}${unit}`
+  return `${formatReal(num.real, format)}${imagPart}`
+}
+
+export function formatAngle(radians: number, format: NumberFormat = defaultNumberFormat): string {
+  // Degrees keep about the same resolution with two digits fewer
+  const degrees = formatReal((radians * 180) / Math.PI, { ...format, precision: Math.max(0, format.precision - 2) })
+  return `${formatReal(radians, format)} rad (${degrees}°)`
+}
+
+/**
+ * Axis label for ticks spaced step apart: fixed notation gets just enough
+ * digits to tell neighbouring ticks apart, the others a short mantissa.
+ */
+export function formatTick(value: number, step: number, format: NumberFormat = defaultNumberFormat): string {
+  if (format.notation !== "fixed") return formatReal(value, { ...format, precision: Math.min(format.precision, 2) })
+  let digits = step > 0 && Number.isFinite(step) ? Math.max(1, Math.ceil(-Math.log10(step))) : 1
+  // A step like 0.25 needs one digit more than its magnitude suggests
+  const scaled = step * 10 ** digits
+  if (Math.abs(scaled - Math.round(scaled)) > 0.01 * scaled) digits++
+  // A tick at zero reached by summing steps is a rounding error off, and would print as -0.0
+  const rounded = Math.abs(value) < step * 1e-9 ? 0 : value
+  return rounded.toFixed(Math.min(digits, 100))
+}
+
+const FREQUENCY_UNITS: Array<[number, string]> = [
+  [1e9, "GHz"],
+  [1e6, "MHz"],
+  [1e3, "kHz"],
+]
+
+/** Frequency with an SI prefix and four significant digits */
+export function formatFrequency(hertz: number): string {
+  const [scale, unit] = FREQUENCY_UNITS.find(([threshold]) => Math.abs(hertz) >= threshold) ?? [1, "Hz"]
+  return `${Number((hertz / scale).toPrecision(4))} ${unit}`
+}
@@ -0,0 +1,188 @@
+import type { ComplexNumber } from "./complex"
+import type { Matrix2, Statistics } from "./statistics"
+
+/*
+ * Tests on the complex mean and on circularity, treating z as the bivariate
+ * (real, imag) vector. With two dimensions both reference distributions
+ * have closed-form tails: F(2, m) and χ²(2).
+ */
+
+export interface TestResult {
+  /** T² for the Hotelling tests, −n·ln(1 − k²) for circularity */
+  statistic: number
+  /** Reference distribution, such as "F(2, 97)" */
+  distribution: string
+  /** The statistic transformed onto the reference distribution */
+  distributionValue: number
+  pValue: number
+}
+
+/** P(X > x) for X ~ F(2, m) */
+function fTail2(x: number, m: number): number {
+  return x <= 0 ? 1 : Math.pow(1 + (2 * x) / m, -m / 2)
+}
+
+/** P(X > x) for X ~ χ²(2) */
+function chiSquareTail2(x: number): number {
+  return x <= 0 ? 1 : Math.exp(-x / 2)
+}
+
+/** vᵀ M⁻¹ v for a 2×2 symmetric matrix, or null when it is singular */
+function quadraticForm(matrix: Matrix2, x: number, y: number): number | null {
+  const [[a, b], [, d]] = matrix
+  const det = a * d - b * b
+  if (!(det > Number.EPSILON * Math.max(a * d, Number.MIN_VALUE))) return null
+  return (d * x * x - 2 * b * x * y + a * y * y) / det
+}
+
+/** Statistics carry population covariances; the tests want the unbiased ones */
+const sampleCovariance = ({ covariance, count }: Statistics): Matrix2 => {
+  const scale = count / (count - 1)
+  return [
+    [covariance[0][0] * scale, covariance[0][1] * scale],
+    [covariance[1][0] * scale, covariance[1][1] * scale],
+  ]
+}
+
+/** Hotelling's T² test of H₀: E[z] = target; null below three points or for degenerate data */
+export function hotellingOneSample(statistics: Statistics, target: ComplexNumber): TestResult | null {
+  const n = statistics.count
+  if (n < 3) return null
+  const form = quadraticForm(
+    sampleCovariance(statistics),
+    statistics.mean.real - target.real,
+    statistics.mean.imag - target.imag,
+  )
+  if (form === null) return null
+  const t2 = n * form
+  const f = ((n - 2) / (2 * (n - 1))) * t2
+  return { statistic: t2, distribution: `F(2, ${n - 2})`, distributionValue: f, pValue: fTail2(f, n - 2) }
+}
+
+/** Two-sample Hotelling T² test of equal means, assuming a common covariance */
+export function hotellingTwoSample(a: Statistics, b: Statistics): TestResult | null {
+  const n1 = a.count
+  const n2 = b.count
+  if (n1 < 2 || n2 < 2 || n1 + n2 < 4) return null
+  const s1 = sampleCovariance(a)
+  const s2 = sampleCovariance(b)
+  const pooled = [0, 1].map((i) =>
+    [0, 1].map((j) => ((n1 - 1) * s1[i][j] + (n2 - 1) * s2[i][j]) / (n1 + n2 - 2)),
+  ) as Matrix2
+  const form = quadraticForm(pooled, a.mean.real - b.mean.real, a.mean.imag - b.mean.imag)
+  if (form === null) return null
+  const t2 = ((n1 * n2) / (n1 + n2)) * form
+  const m = n1 + n2 - 3
+  const f = (m / (2 * (n1 + n2 - 2))) * t2
+  return { statistic: t2, distribution: `F(2, ${m})`, distributionValue: f, pValue: fTail2(f, m) }
+}
+
+/**
+ * Generalised likelihood ratio test of H₀: z is proper (circular), for
+ * Gaussian data: −n·ln(1 − k²) with k the circularity coefficient is
+ * asymptotically χ²(2).
+ */
+export function circularityTest(statistics: Statistics): TestResult | null {
+  const n = statistics.count
+  if (n < 2 || statistics.variance === 0) return null
+  const k = Math.min(statistics.circularity, 1 - Number.EPSILON)
+  const statistic = -n * Math.log(1 - k * k)
+  return { statistic, distribution: "χ²(2)", distributionValue: statistic, pValue: chiSquareTail2(statistic) }
+}
+
+export interface Interval {
+  lower: number
+  upper: number
+}
+
+export interface BootstrapResult {
+  resamples: number
+  confidence: number
+  meanReal: Interval
+  meanImag: Interval
+  /** Of E|z − μ|², as in Statistics.variance */
+  variance: Interval
+}
+
+/** Small seeded generator, so that a rerun on the same data gives the same intervals */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function percentileInterval(values: Float64Array, confidence: number): Interval {
+  const sorted = values.slice().sort()
+  const at = (q: number) => {
+    const position = q * (sorted.length - 1)
+    const lower = Math.floor(position)
+    const upper = Math.min(lower + 1, sorted.length - 1)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  }
+  const tail = (1 - confidence) / 2
+  return { lower: at(tail), upper: at(1 - tail) }
+}
+
+export interface BootstrapOptions {
+  resamples?: number
+  confidence?: number
+  seed?: number
+}
+
+// Progress is reported about this many times over a run
+const PROGRESS_STEPS = 100
+
+/** Percentile bootstrap intervals for the mean parts and the variance */
+export function bootstrapIntervals(
+  numbers: ComplexNumber[],
+  { resamples = 1000, confidence = 0.95, seed = 1 }: BootstrapOptions = {},
+  onProgress?: (done: number, total: number) => void,
+): BootstrapResult {
+  const n = numbers.length
+  const random = mulberry32(seed)
+
+  // Centred copies keep the one-pass variance free of cancellation
+  let centerReal = 0
+  let centerImag = 0
+  for (const num of numbers) {
+    centerReal += num.real / n
+    centerImag += num.imag / n
+  }
+  const reals = Float64Array.from(numbers, (num) => num.real - centerReal)
+  const imags = Float64Array.from(numbers, (num) => num.imag - centerImag)
+
+  const meanReal = new Float64Array(resamples)
+  const meanImag = new Float64Array(resamples)
+  const variance = new Float64Array(resamples)
+  const progressInterval = Math.max(1, Math.floor(resamples / PROGRESS_STEPS))
+  for (let b = 0; b < resamples; b++) {
+    if (onProgress && b % progressInterval === 0) onProgress(b, resamples)
+    let sumReal = 0
+    let sumImag = 0
+    let sumSquares = 0
+    for (let i = 0; i < n; i++) {
+      const k = Math.floor(random() * n)
+      sumReal += reals[k]
+      sumImag += imags[k]
+      sumSquares += reals[k] * reals[k] + imags[k] * imags[k]
+    }
+    const real = sumReal / n
+    const imag = sumImag / n
+    meanReal[b] = centerReal + real
+    meanImag[b] = centerImag + imag
+    variance[b] = Math.max(0, sumSquares / n - real * real - imag * imag)
+  }
+  onProgress?.(resamples, resamples)
+  return {
+    resamples,
+    confidence,
+    meanReal: percentileInterval(meanReal, confidence),
+    meanImag: percentileInterval(meanImag, confidence),
+    variance: percentileInterval(variance, confidence),
+  }
+}
@@ -0,0 +1,339 @@
+import { type ComplexNumber, add, conj, div, modulus, mul, sqrt, sub } from "./complex"
+import type { ParsedEntry } from "./complex-parser"
+
+/*
+ * Dense complex matrices as arrays of rows. Determinant and inverse come
+ * from Gaussian elimination with partial pivoting, eigenvalues from the
+ * shifted QR iteration on the Hessenberg form, and eigenvectors from a few
+ * steps of inverse iteration on the original matrix.
+ */
+
+export type ComplexMatrix = ComplexNumber[][]
+
+/** The input rows do not make a matrix; line is 1-based */
+export class MatrixShapeError extends Error {
+  line: number
+
+  constructor(message: string, line: number) {
+    super(message)
+    this.name = "MatrixShapeError"
+    this.line = line
+  }
+}
+
+export interface Eigenpair {
+  value: ComplexNumber
+  /** Unit 2-norm, scaled so that its largest component is real and positive */
+  vector: ComplexNumber[]
+  /** ‖Av − λv‖ */
+  residual: number
+}
+
+/** A Gershgorin disc: every eigenvalue lies in the union of the discs of all rows */
+export interface Disc {
+  center: ComplexNumber
+  radius: number
+}
+
+export interface MatrixAnalysis {
+  matrix: ComplexMatrix
+  rank: number
+  /** The rest need a square matrix; inverse is also null when the matrix is singular */
+  determinant: ComplexNumber | null
+  trace: ComplexNumber | null
+  inverse: ComplexMatrix | null
+  eigenpairs: Eigenpair[] | null
+  discs: Disc[] | null
+}
+
+const ZERO: ComplexNumber = { real: 0, imag: 0 }
+const ONE: ComplexNumber = { real: 1, imag: 0 }
+// Iterations per eigenvalue before the QR iteration gives up
+const MAX_QR_ITERATIONS = 60
+// Every this many iterations without deflation an exceptional shift breaks cycles
+const EXCEPTIONAL_SHIFT_PERIOD = 10
+const INVERSE_ITERATIONS = 3
+
+const copyMatrix = (matrix: ComplexMatrix): ComplexMatrix => matrix.map((row) => row.slice())
+const abs1 = (z: ComplexNumber) => Math.abs(z.real) + Math.abs(z.imag)
+
+/** Largest absolute row sum, the ∞-norm */
+function matrixNorm(matrix: ComplexMatrix): number {
+  return matrix.reduce((largest, row) => Math.max(largest, row.reduce((sum, value) => sum + modulus(value), 0)), 0)
+}
+
+/** One row per non-empty input line; every row must have the same width */
+export function matrixFromEntries(entries: ParsedEntry[]): ComplexMatrix {
+  const rows: ComplexMatrix = []
+  const lines: number[] = []
+  for (const entry of entries) {
+    if (lines[lines.length - 1] !== entry.line) {
+      rows.push([])
+      lines.push(entry.line)
+    }
+    rows[rows.length - 1].push(entry.value)
+  }
+  rows.forEach((row, index) => {
+    if (row.length !== rows[0].length) {
+      throw new MatrixShapeError(`第 ${lines[index]} 行有 ${row.length} 个元素，第一行有 ${rows[0].length} 个`, lines[index])
+    }
+  })
+  return rows
+}
+
+/**
+ * In-place LU factorisation with partial pivoting of a square matrix.
+ * Returns the row permutation and its sign; a zero pivot is left as is.
+ */
+function luDecompose(a: ComplexMatrix): { permutation: number[]; sign: number } {
+  const n = a.length
+  const permutation = Array.from({ length: n }, (_, i) => i)
+  let sign = 1
+  for (let k = 0; k < n; k++) {
+    let pivot = k
+    for (let i = k + 1; i < n; i++) {
+      if (abs1(a[i][k]) > abs1(a[pivot][k])) pivot = i
+    }
+    if (pivot !== k) {
+      const row = a[k]
+      a[k] = a[pivot]
+      a[pivot] = row
+      const index = permutation[k]
+      permutation[k] = permutation[pivot]
+      permutation[pivot] = index
+      sign = -sign
+    }
+    if (abs1(a[k][k]) === 0) continue
+    for (let i = k + 1; i < n; i++) {
+      const factor = div(a[i][k], a[k][k])
+      a[i][k] = factor
+      for (let j = k + 1; j < n; j++) a[i][j] = sub(a[i][j], mul(factor, a[k][j]))
+    }
+  }
+  return { permutation, sign }
+}
+
+export function determinant(matrix: ComplexMatrix): ComplexNumber {
+  const lu = copyMatrix(matrix)
+  const { sign } = luDecompose(lu)
+  let result: ComplexNumber = { real: sign, imag: 0 }
+  for (let i = 0; i < lu.length; i++) result = mul(result, lu[i][i])
+  return result
+}
+
+export function trace(matrix: ComplexMatrix): ComplexNumber {
+  return matrix.reduce((sum, row, i) => add(sum, row[i]), ZERO)
+}
+
+/** Numerical rank: pivots of row echelon form above n·ε·‖A‖ */
+export function rank(matrix: ComplexMatrix): number {
+  const a = copyMatrix(matrix)
+  const rows = a.length
+  const cols = rows > 0 ? a[0].length : 0
+  const tolerance = Math.max(rows, cols) * Number.EPSILON * matrixNorm(matrix)
+  let result = 0
+  for (let col = 0; col < cols && result < rows; col++) {
+    let pivot = result
+    for (let i = result + 1; i < rows; i++) {
+      if (modulus(a[i][col]) > modulus(a[pivot][col])) pivot = i
+    }
+    if (modulus(a[pivot][col]) <= tolerance) continue
+    const row = a[result]
+    a[result] = a[pivot]
+    a[pivot] = row
+    for (let i = result + 1; i < rows; i++) {
+      const factor = div(a[i][col], a[result][col])
+      for (let j = col; j < cols; j++) a[i][j] = sub(a[i][j], mul(factor, a[result][j]))
+    }
+    result++
+  }
+  return result
+}
+
+/** Solve LUx = Pb for a factorisation from luDecompose */
+function luSolve(lu: ComplexMatrix, permutation: number[], b: ComplexNumber[]): ComplexNumber[] {
+  const n = lu.length
+  const x = permutation.map((index) => b[index])
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < i; j++) x[i] = sub(x[i], mul(lu[i][j], x[j]))
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = i + 1; j < n; j++) x[i] = sub(x[i], mul(lu[i][j], x[j]))
+    x[i] = div(x[i], lu[i][i])
+  }
+  return x
+}
+
+/** A⁻¹, or null when A is numerically singular */
+export function inverse(matrix: ComplexMatrix): ComplexMatrix | null {
+  const n = matrix.length
+  if (rank(matrix) < n) return null
+  const lu = copyMatrix(matrix)
+  const { permutation } = luDecompose(lu)
+  const columns = Array.from({ length: n }, (_, j) =>
+    luSolve(lu, permutation, Array.from({ length: n }, (_, i) => (i === j ? ONE : ZERO))),
+  )
+  return Array.from({ length: n }, (_, i) => columns.map((column) => column[i]))
+}
+
+/** Reduce to upper Hessenberg form by stabilised elementary similarity transforms */
+function hessenberg(matrix: ComplexMatrix): ComplexMatrix {
+  const h = copyMatrix(matrix)
+  const n = h.length
+  for (let m = 1; m < n - 1; m++) {
+    let pivot = m
+    for (let i = m + 1; i < n; i++) {
+      if (abs1(h[i][m - 1]) > abs1(h[pivot][m - 1])) pivot = i
+    }
+    if (abs1(h[pivot][m - 1]) === 0) continue
+    if (pivot !== m) {
+      const row = h[m]
+      h[m] = h[pivot]
+      h[pivot] = row
+      for (const r of h) {
+        const value = r[m]
+        r[m] = r[pivot]
+        r[pivot] = value
+      }
+    }
+    for (let i = m + 1; i < n; i++) {
+      const factor = div(h[i][m - 1], h[m][m - 1])
+      if (abs1(factor) === 0) continue
+      for (let j = m - 1; j < n; j++) h[i][j] = sub(h[i][j], mul(factor, h[m][j]))
+      for (let r = 0; r < n; r++) h[r][m] = add(h[r][m], mul(factor, h[r][i]))
+    }
+  }
+  return h
+}
+
+/** Eigenvalue of the trailing 2×2 block [[a, b], [c, d]] closer to d */
+function wilkinsonShift(a: ComplexNumber, b: ComplexNumber, c: ComplexNumber, d: ComplexNumber): ComplexNumber {
+  const half = { real: (a.real - d.real) / 2, imag: (a.imag - d.imag) / 2 }
+  const root = sqrt(add(mul(half, half), mul(b, c)))
+  const middle = { real: (a.real + d.real) / 2, imag: (a.imag + d.imag) / 2 }
+  const first = add(middle, root)
+  const second = sub(middle, root)
+  return modulus(sub(first, d)) < modulus(sub(second, d)) ? first : second
+}
+
+/** All eigenvalues of a square matrix; throws when the iteration does not converge */
+export function eigenvalues(matrix: ComplexMatrix): ComplexNumber[] {
+  const h = hessenberg(matrix)
+  const n = h.length
+  const values: ComplexNumber[] = new Array(n)
+  let hi = n - 1
+  let iterations = 0
+
+  while (hi >= 0) {
+    // Look for a negligible subdiagonal entry splitting off the active block
+    let lo = hi
+    while (lo > 0 && abs1(h[lo][lo - 1]) > Number.EPSILON * (abs1(h[lo - 1][lo - 1]) + abs1(h[lo][lo]))) lo--
+    if (lo === hi) {
+      values[hi] = h[hi][hi]
+      hi--
+      iterations = 0
+      continue
+    }
+    if (++iterations > MAX_QR_ITERATIONS) throw new Error("特征值迭代未收敛")
+
+    const shift =
+      iterations % EXCEPTIONAL_SHIFT_PERIOD === 0
+        ? add(h[hi][hi], { real: modulus(h[hi][hi - 1]), imag: 0 })
+        : wilkinsonShift(h[hi - 1][hi - 1], h[hi - 1][hi], h[hi][hi - 1], h[hi][hi])
+
+    // One QR step H − μI = QR, H ← RQ + μI on the active block, with Givens rotations
+    for (let k = lo; k <= hi; k++) h[k][k] = sub(h[k][k], shift)
+    const rotations: Array<[ComplexNumber, ComplexNumber]> = []
+    for (let k = lo; k < hi; k++) {
+      const x = h[k][k]
+      const y = h[k + 1][k]
+      const r = Math.hypot(modulus(x), modulus(y))
+      const c = r === 0 ? ONE : { real: x.real / r, imag: x.imag / r }
+      const s = r === 0 ? ZERO : { real: y.real / r, imag: y.imag / r }
+      for (let j = k; j <= hi; j++) {
+        const top = h[k][j]
+        const bottom = h[k + 1][j]
+        h[k][j] = add(mul(conj(c), top), mul(conj(s), bottom))
+        h[k + 1][j] = sub(mul(c, bottom), mul(s, top))
+      }
+      rotations.push([c, s])
+    }
+    rotations.forEach(([c, s], offset) => {
+      const k = lo + offset
+      for (let i = lo; i <= Math.min(k + 1, hi); i++) {
+        const left = h[i][k]
+        const right = h[i][k + 1]
+        h[i][k] = add(mul(left, c), mul(right, s))
+        h[i][k + 1] = sub(mul(right, conj(c)), mul(left, conj(s)))
+      }
+    })
+    for (let k = lo; k <= hi; k++) h[k][k] = add(h[k][k], shift)
+  }
+  return values
+}
+
+/** Eigenvector for a computed eigenvalue by inverse iteration on A − λI */
+function eigenvector(matrix: ComplexMatrix, value: ComplexNumber): ComplexNumber[] {
+  const n = matrix.length
+  // A nudge off the eigenvalue keeps the shifted matrix invertible in floating point
+  const nudge = Math.max(matrixNorm(matrix), 1) * 1e-10
+  const shifted = matrix.map((row, i) => row.map((entry, j) => (i === j ? sub(entry, add(value, { real: nudge, imag: 0 })) : entry)))
+  const { permutation } = luDecompose(shifted)
+  for (let i = 0; i < n; i++) {
+    if (abs1(shifted[i][i]) === 0) shifted[i][i] = { real: nudge * Number.EPSILON, imag: 0 }
+  }
+
+  let vector: ComplexNumber[] = Array.from({ length: n }, () => ONE)
+  for (let iteration = 0; iteration < INVERSE_ITERATIONS; iteration++) {
+    vector = normalizeVector(luSolve(shifted, permutation, vector))
+  }
+  return vector
+}
+
+/** Unit 2-norm, with the largest component rotated onto the positive real axis */
+function normalizeVector(vector: ComplexNumber[]): ComplexNumber[] {
+  let largest = vector[0]
+  let norm = 0
+  for (const component of vector) {
+    norm += component.real ** 2 + component.imag ** 2
+    if (modulus(component) > modulus(largest)) largest = component
+  }
+  const scale = Math.sqrt(norm) * modulus(largest)
+  if (!(scale > 0) || !Number.isFinite(scale)) return vector
+  const factor = { real: largest.real / scale, imag: -largest.imag / scale }
+  return vector.map((component) => mul(component, factor))
+}
+
+export function eigenpairs(matrix: ComplexMatrix): Eigenpair[] {
+  return eigenvalues(matrix).map((value) => {
+    const vector = eigenvector(matrix, value)
+    let residual = 0
+    matrix.forEach((row, i) => {
+      const product = row.reduce((sum, entry, j) => add(sum, mul(entry, vector[j])), ZERO)
+      const difference = sub(product, mul(value, vector[i]))
+      residual += difference.real ** 2 + difference.imag ** 2
+    })
+    return { value, vector, residual: Math.sqrt(residual) }
+  })
+}
+
+export function gershgorinDiscs(matrix: ComplexMatrix): Disc[] {
+  return matrix.map((row, i) => ({
+    center: row[i],
+    radius: row.reduce((sum, entry, j) => (j === i ? sum : sum + modulus(entry)), 0),
+  }))
+}
+
+/** Everything the matrix mode shows; the square-only results are null otherwise */
+export function analyzeMatrix(matrix: ComplexMatrix): MatrixAnalysis {
+  const square = matrix.length > 0 && matrix.length === matrix[0].length
+  return {
+    matrix,
+    rank: rank(matrix),
+    determinant: square ? determinant(matrix) : null,
+    trace: square ? trace(matrix) : null,
+    inverse: square ? inverse(matrix) : null,
+    eigenpairs: square ? eigenpairs(matrix) : null,
+    discs: square ? gershgorinDiscs(matrix) : null,
+  }
+}
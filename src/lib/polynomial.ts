@@ -0,0 +1,127 @@
+import { type ComplexNumber, add, div, fromPolar, modulus, mul, sub } from "./complex"
+import type { ParsedEntry } from "./complex-parser"
+
+/*
+ * Roots of polynomials with complex coefficients, highest degree first,
+ * found all at once with the Durand–Kerner (Weierstrass) iteration and then
+ * polished with Newton steps against the original coefficients.
+ */
+
+export interface PolynomialRoot {
+  value: ComplexNumber
+  /** |p(root)| */
+  residual: number
+  /** |p(root)| / Σ |aₖ|·|root|ᵏ, the backward error; near machine epsilon for a good root */
+  relativeResidual: number
+}
+
+const MAX_ITERATIONS = 500
+const TOLERANCE = 1e-14
+const POLISH_STEPS = 3
+// Start off the real axis, so that real polynomials do not keep their symmetric guesses stuck
+const START_ANGLE = 0.4
+
+const isZero = (z: ComplexNumber) => z.real === 0 && z.imag === 0
+
+/** p(z) by Horner's rule */
+export function evaluatePolynomial(coefficients: ComplexNumber[], z: ComplexNumber): ComplexNumber {
+  let value: ComplexNumber = { real: 0, imag: 0 }
+  for (const coefficient of coefficients) value = add(mul(value, z), coefficient)
+  return value
+}
+
+/** p(z) and p'(z) together */
+function evaluateWithDerivative(coefficients: ComplexNumber[], z: ComplexNumber): [ComplexNumber, ComplexNumber] {
+  let value: ComplexNumber = { real: 0, imag: 0 }
+  let derivative: ComplexNumber = { real: 0, imag: 0 }
+  for (const coefficient of coefficients) {
+    derivative = add(mul(derivative, z), value)
+    value = add(mul(value, z), coefficient)
+  }
+  return [value, derivative]
+}
+
+function rootResult(coefficients: ComplexNumber[], value: ComplexNumber): PolynomialRoot {
+  const residual = modulus(evaluatePolynomial(coefficients, value))
+  const radius = modulus(value)
+  let scale = 0
+  for (const coefficient of coefficients) scale = scale * radius + modulus(coefficient)
+  return { value, residual, relativeResidual: scale > 0 ? residual / scale : residual }
+}
+
+/** Newton steps on the full polynomial, kept only while they reduce the residual */
+function polish(coefficients: ComplexNumber[], root: ComplexNumber): ComplexNumber {
+  let best = root
+  let bestResidual = modulus(evaluatePolynomial(coefficients, root))
+  for (let step = 0; step < POLISH_STEPS && bestResidual > 0; step++) {
+    const [value, derivative] = evaluateWithDerivative(coefficients, best)
+    if (isZero(derivative)) break
+    const next = sub(best, div(value, derivative))
+    const residual = modulus(evaluatePolynomial(coefficients, next))
+    if (!(residual < bestResidual)) break
+    best = next
+    bestResidual = residual
+  }
+  return best
+}
+
+/**
+ * All roots of a₀zⁿ + a₁zⁿ⁻¹ + … + aₙ, counted with multiplicity. Leading
+ * zero coefficients lower the degree; trailing ones give exact roots at 0.
+ */
+export function polynomialRoots(coefficients: ComplexNumber[]): PolynomialRoot[] {
+  const first = coefficients.findIndex((coefficient) => !isZero(coefficient))
+  if (first < 0) throw new Error("多项式的系数全为零")
+  const trimmed = coefficients.slice(first)
+
+  let end = trimmed.length
+  while (end > 1 && isZero(trimmed[end - 1])) end--
+  const roots: ComplexNumber[] = Array.from({ length: trimmed.length - end }, () => ({ real: 0, imag: 0 }))
+
+  const lead = trimmed[0]
+  const monic = trimmed.slice(0, end).map((coefficient) => div(coefficient, lead))
+  const degree = monic.length - 1
+  if (degree > 0) {
+    // Every root lies inside the Cauchy bound 1 + max |aₖ/a₀|
+    const radius = 1 + Math.max(...monic.slice(1).map(modulus))
+    const estimates = Array.from({ length: degree }, (_, k) => fromPolar(radius, (2 * Math.PI * k) / degree + START_ANGLE))
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      let largestStep = 0
+      for (let k = 0; k < degree; k++) {
+        let denominator: ComplexNumber = { real: 1, imag: 0 }
+        for (let j = 0; j < degree; j++) {
+          if (j !== k) denominator = mul(denominator, sub(estimates[k], estimates[j]))
+        }
+        const step = div(evaluatePolynomial(monic, estimates[k]), denominator)
+        if (!Number.isFinite(step.real) || !Number.isFinite(step.imag)) continue
+        estimates[k] = sub(estimates[k], step)
+        largestStep = Math.max(largestStep, modulus(step) / Math.max(1, modulus(estimates[k])))
+      }
+      if (largestStep < TOLERANCE) break
+    }
+    for (const estimate of estimates) roots.push(polish(monic, estimate))
+  }
+
+  return roots
+    .sort((a, b) => a.real - b.real || a.imag - b.imag)
+    .map((root) => rootResult(trimmed, root))
+}
+
+/**
+ * Coefficient lists in the input, one per block of lines separated by
+ * blank lines: the first block is the numerator, a second the denominator.
+ */
+export function coefficientBlocks(input: string, entries: ParsedEntry[]): ComplexNumber[][] {
+  const blank = input.split("\n").map((line) => line.trim() === "")
+  const blocks: ComplexNumber[][] = []
+  let previousLine = 0
+  for (const entry of entries) {
+    let separated = blocks.length === 0
+    for (let line = previousLine + 1; line < entry.line && !separated; line++) separated = blank[line - 1]
+    if (separated) blocks.push([])
+    blocks[blocks.length - 1].push(entry.value)
+    previousLine = entry.line
+  }
+  return blocks
+}
@@ -0,0 +1,167 @@
+import type { AngleUnit, ComplexNumber } from "./complex"
+import { type NumberFormat, defaultNumberFormat, formatAngle, formatComplexNumber, formatReal } from "./format"
+import type { Statistics } from "./statistics"
+
+/*
+ * Results as text for reports and scripts, shared by the app and the CLI.
+ * Data files carry full double precision; the results tables take the rows
+ * already formatted for display.
+ */
+
+export interface DataExportOptions {
+  /** Add modulus and argument next to the real and imaginary parts */
+  polar: boolean
+  angleUnit: AngleUnit
+}
+
+export interface ResultGroup {
+  title: string
+  rows: Array<[string, string]>
+}
+
+/** The statistics as the results panel shows them, in groups of labelled rows */
+export function describeStatistics(stats: Statistics, format: NumberFormat = defaultNumberFormat): ResultGroup[] {
+  return [
+    {
+      title: "一阶与二阶矩",
+      rows: [
+        ["均值", formatComplexNumber(stats.mean, format)],
+        ["方差", formatReal(stats.variance, format)],
+        ["实部标准差", formatReal(stats.stdReal, format)],
+        ["虚部标准差", formatReal(stats.stdImag, format)],
+      ],
+    },
+    {
+      title: "协方差矩阵 (实部, 虚部)",
+      rows: [
+        [
+          "Cov",
+          `[${stats.covariance.map((row) => `[${row.map((value) => formatReal(value, format)).join(", ")}]`).join(", ")}]`,
+        ],
+        ["相关系数", formatReal(stats.correlation, format)],
+      ],
+    },
+    {
+      title: "非圆性",
+      rows: [
+        ["伪方差 E[(z-μ)²]", formatComplexNumber(stats.pseudoVariance, format)],
+        ["圆度系数", formatReal(stats.circularity, format)],
+      ],
+    },
+    {
+      title: "模与辐角",
+      rows: [
+        ["最小模", formatReal(stats.modulus.min, format)],
+        ["最大模", formatReal(stats.modulus.max, format)],
+        ["平均模", formatReal(stats.modulus.mean, format)],
+        ["辐角均值", formatAngle(stats.argument.mean, format)],
+        ["辐角圆方差", formatReal(stats.argument.circularVariance, format)],
+      ],
+    },
+    {
+      title: "位置",
+      rows: [["几何中位数", formatComplexNumber(stats.geometricMedian, format)]],
+    },
+  ]
+}
+
+const argumentIn = (num: ComplexNumber, unit: AngleUnit) => {
+  const radians = Math.atan2(num.imag, num.real)
+  return unit === "deg" ? (radians * 180) / Math.PI : radians
+}
+
+export function numbersToCsv(numbers: ComplexNumber[], { polar, angleUnit }: DataExportOptions): string {
+  const header = ["index", "real", "imag", ...(polar ? ["modulus", `argument_${angleUnit}`] : [])]
+  const rows = numbers.map((num, index) =>
+    [index + 1, num.real, num.imag, ...(polar ? [Math.hypot(num.real, num.imag), argumentIn(num, angleUnit)] : [])].join(","),
+  )
+  return [header.join(","), ...rows].join("\n")
+}
+
+export function numbersToJson(numbers: ComplexNumber[], { polar, angleUnit }: DataExportOptions): string {
+  const rows = numbers.map((num, index) => ({
+    index: index + 1,
+    real: num.real,
+    imag: num.imag,
+    ...(polar ? { modulus: Math.hypot(num.real, num.imag), [`argument_${angleUnit}`]: argumentIn(num, angleUnit) } : {}),
+  }))
+  return JSON.stringify(rows, null, 2)
+}
+
+/** Every field of Statistics; non-finite values become null, as JSON has no NaN */
+export function statisticsToJson(name: string, statistics: Statistics): string {
+  return JSON.stringify({ name, ...statistics }, null, 2)
+}
+
+const LATEX_SPECIALS: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "&": "\\&",
+  "%": "\\%",
+  $: "\\$",
+  "#": "\\#",
+  _: "\\_",
+  "{": "\\{",
+  "}": "\\}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+}
+
+const escapeLatex = (text: string) => text.replace(/[\\&%$#_{}~^]/g, (char) => LATEX_SPECIALS[char])
+
+/** A tabular with one heading row per group; the Chinese labels want ctex or XeLaTeX */
+export function resultsToLatex(groups: ResultGroup[]): string {
+  const lines = ["\\begin{tabular}{ll}", "\\hline"]
+  for (const group of groups) {
+    lines.push(`\\multicolumn{2}{l}{\\textbf{${escapeLatex(group.title)}}} \\\\`, "\\hline")
+    for (const [label, value] of group.rows) lines.push(`${escapeLatex(label)} & \\texttt{${escapeLatex(value)}} \\\\`)
+    lines.push("\\hline")
+  }
+  lines.push("\\end{tabular}")
+  return lines.join("\n")
+}
+
+const escapeMarkdown = (text: string) => text.replace(/\|/g, "\\|")
+
+export function resultsToMarkdown(groups: ResultGroup[]): string {
+  const lines = ["| 统计量 | 值 |", "| --- | --- |"]
+  for (const group of groups) {
+    lines.push(`| **${escapeMarkdown(group.title)}** | |`)
+    for (const [label, value] of group.rows) lines.push(`| ${escapeMarkdown(label)} | \`${escapeMarkdown(value)}\` |`)
+  }
+  return lines.join("\n")
+}
+
+// Columns of statisticsToCsv after the name, at full precision
+const STATISTICS_COLUMNS: Array<[string, (stats: Statistics) => number]> = [
+  ["count", (stats) => stats.count],
+  ["mean_real", (stats) => stats.mean.real],
+  ["mean_imag", (stats) => stats.mean.imag],
+  ["variance", (stats) => stats.variance],
+  ["std_real", (stats) => stats.stdReal],
+  ["std_imag", (stats) => stats.stdImag],
+  ["cov_real_real", (stats) => stats.covariance[0][0]],
+  ["cov_real_imag", (stats) => stats.covariance[0][1]],
+  ["cov_imag_imag", (stats) => stats.covariance[1][1]],
+  ["correlation", (stats) => stats.correlation],
+  ["pseudo_variance_real", (stats) => stats.pseudoVariance.real],
+  ["pseudo_variance_imag", (stats) => stats.pseudoVariance.imag],
+  ["circularity", (stats) => stats.circularity],
+  ["modulus_min", (stats) => stats.modulus.min],
+  ["modulus_max", (stats) => stats.modulus.max],
+  ["modulus_mean", (stats) => stats.modulus.mean],
+  ["argument_mean_rad", (stats) => stats.argument.mean],
+  ["argument_circular_variance", (stats) => stats.argument.circularVariance],
+  ["geometric_median_real", (stats) => stats.geometricMedian.real],
+  ["geometric_median_imag", (stats) => stats.geometricMedian.imag],
+]
+
+const csvField = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text)
+
+/** One row per named sample, for spreadsheets and scripts */
+export function statisticsToCsv(samples: Array<{ name: string; statistics: Statistics }>): string {
+  const header = ["name", ...STATISTICS_COLUMNS.map(([column]) => column)]
+  const rows = samples.map(({ name, statistics }) =>
+    [csvField(name), ...STATISTICS_COLUMNS.map(([, value]) => value(statistics))].join(","),
+  )
+  return [header.join(","), ...rows].join("\n")
+}
@@ -0,0 +1,102 @@
+import type { ComplexNumber } from "./complex"
+import { type Matrix2, chiSquare2Radius, geometricMedian } from "./statistics"
+
+/*
+ * Estimators that a few wild samples cannot drag far, and outlier flagging
+ * by Mahalanobis distance from the sample mean.
+ */
+
+export interface RobustStatistics {
+  /** Median of the real parts and of the imaginary parts, separately */
+  coordinateMedian: ComplexNumber
+  geometricMedian: ComplexNumber
+  /** Median absolute deviation of each part from its median */
+  mad: { real: number; imag: number }
+  /** Median distance from the geometric median */
+  radialMad: number
+  /** Mean of each part after dropping trimFraction of the values at either end */
+  trimmedMean: ComplexNumber
+  trimFraction: number
+}
+
+// MAD × 1.4826 estimates the standard deviation of normal data
+export const MAD_NORMAL_SCALE = 1.4826
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = Float64Array.from(values).sort()
+  const middle = sorted.length >> 1
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function trimmedMean(values: number[], fraction: number): number {
+  if (values.length === 0) return 0
+  const sorted = Float64Array.from(values).sort()
+  // Never trim everything away: at least the middle value stays
+  const cut = Math.min(Math.floor(sorted.length * fraction), (sorted.length - 1) >> 1)
+  let sum = 0
+  for (let i = cut; i < sorted.length - cut; i++) sum += sorted[i]
+  return sum / (sorted.length - 2 * cut)
+}
+
+export function robustStatistics(numbers: ComplexNumber[], trimFraction = 0.1): RobustStatistics {
+  const reals = numbers.map((num) => num.real)
+  const imags = numbers.map((num) => num.imag)
+  const coordinateMedian = { real: median(reals), imag: median(imags) }
+  const center = geometricMedian(numbers, coordinateMedian)
+  return {
+    coordinateMedian,
+    geometricMedian: center,
+    mad: {
+      real: median(reals.map((value) => Math.abs(value - coordinateMedian.real))),
+      imag: median(imags.map((value) => Math.abs(value - coordinateMedian.imag))),
+    },
+    radialMad: median(numbers.map((num) => Math.hypot(num.real - center.real, num.imag - center.imag))),
+    trimmedMean: { real: trimmedMean(reals, trimFraction), imag: trimmedMean(imags, trimFraction) },
+    trimFraction,
+  }
+}
+
+/**
+ * √((z − μ)ᵀ Σ⁻¹ (z − μ)) for every number, over the (real, imag) parts;
+ * null when the covariance is singular, as for collinear or constant data.
+ */
+export function mahalanobisDistances(numbers: ComplexNumber[], mean: ComplexNumber, covariance: Matrix2): Float64Array | null {
+  const [[a, b], [, d]] = covariance
+  const det = a * d - b * b
+  if (!(det > Number.EPSILON * Math.max(a * d, Number.MIN_VALUE))) return null
+  const distances = new Float64Array(numbers.length)
+  numbers.forEach((num, index) => {
+    const x = num.real - mean.real
+    const y = num.imag - mean.imag
+    distances[index] = Math.sqrt(Math.max(0, (d * x * x - 2 * b * x * y + a * y * y) / det))
+  })
+  return distances
+}
+
+/** A fixed distance, or the radius holding a confidence level of a bivariate normal */
+export type OutlierThreshold = { kind: "distance"; distance: number } | { kind: "confidence"; confidence: number }
+
+export interface Outlier {
+  index: number
+  distance: number
+  reason: string
+}
+
+export function thresholdDistance(threshold: OutlierThreshold): number {
+  return threshold.kind === "distance" ? threshold.distance : chiSquare2Radius(threshold.confidence)
+}
+
+/** Numbers farther than the threshold, farthest first */
+export function findOutliers(distances: Float64Array, threshold: OutlierThreshold): Outlier[] {
+  const limit = thresholdDistance(threshold)
+  const limitText =
+    threshold.kind === "distance"
+      ? limit.toFixed(2)
+      : `${limit.toFixed(2)}（χ²₂ ${(threshold.confidence * 100).toFixed(1)}%）`
+  const outliers: Outlier[] = []
+  distances.forEach((distance, index) => {
+    if (distance > limit) outliers.push({ index, distance, reason: `马氏距离 ${distance.toFixed(2)} > ${limitText}` })
+  })
+  return outliers.sort((a, b) => b.distance - a.distance)
+}
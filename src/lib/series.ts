@@ -0,0 +1,70 @@
+import type { ComplexNumber } from "./complex"
+import type { ParsedEntry } from "./complex-parser"
+import type { MatrixAnalysis } from "./matrix"
+import type { PolynomialRoot } from "./polynomial"
+import type { Statistics } from "./statistics"
+
+/** A named dataset with its own input text and the result of its last analysis */
+export interface Series {
+  id: number
+  name: string
+  color: string
+  visible: boolean
+  input: string
+  complexNumbers: ComplexNumber[]
+  statistics: Statistics | null
+  /** Where each number came from in the input, parallel to complexNumbers */
+  sources: ParsedEntry[]
+  /** Text the numbers were parsed from; sources only map back while the input is unchanged */
+  analyzedInput: string
+  /** Set when the series was produced by mapping another one through f(z) */
+  transform?: SeriesTransform
+  /** Set when the input was read as polynomial coefficients; complexNumbers then holds zeros then poles */
+  roots?: SeriesRoots
+  /** Set when the input was read as a matrix, one row per line; complexNumbers then holds the eigenvalues */
+  matrix?: MatrixAnalysis
+  /** Indices left out of statistics; statistics is then computed from the remaining numbers */
+  excluded?: ReadonlySet<number>
+}
+
+/** Fields tied to one particular analysis, cleared whenever the series is analysed again */
+export const ANALYSIS_EXTRAS: Pick<Series, "transform" | "roots" | "matrix" | "excluded"> = {
+  transform: undefined,
+  roots: undefined,
+  matrix: undefined,
+  excluded: undefined,
+}
+
+export interface SeriesRoots {
+  zeros: PolynomialRoot[]
+  /** Roots of the denominator, when a second polynomial was given */
+  poles: PolynomialRoot[] | null
+}
+
+export interface SeriesTransform {
+  sourceId: number
+  expression: string
+  /** Analysed input of the source at the time, to tell whether the mapping still holds */
+  sourceInput: string
+  /** Index in the source of every number, parallel to complexNumbers */
+  sourceIndices: number[]
+}
+
+// Red and amber are left out: they mark the mean and the selection
+export const SERIES_COLORS = ["#3b82f6", "#10b981", "#f97316", "#8b5cf6", "#ec4899", "#14b8a6", "#65a30d", "#64748b"]
+
+/** An empty series numbered after the existing ones */
+export function createSeries(existing: Series[]): Series {
+  const id = existing.reduce((max, series) => Math.max(max, series.id), 0) + 1
+  return {
+    id,
+    name: `数据集 ${id}`,
+    color: SERIES_COLORS[(id - 1) % SERIES_COLORS.length],
+    visible: true,
+    input: "",
+    complexNumbers: [],
+    statistics: null,
+    sources: [],
+    analyzedInput: "",
+  }
+}
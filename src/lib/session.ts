@@ -0,0 +1,264 @@
+import type { AngleUnit } from "./complex"
+import type { InputMode } from "./core"
+import type { Statistics } from "./statistics"
+
+/*
+ * Sessions and the history of analysis runs, kept in IndexedDB so that inputs
+ * of any size survive a reload. Only inputs and settings are stored, never
+ * parsed numbers: a restored session is analysed again on demand.
+ */
+
+export class SessionFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SessionFormatError"
+  }
+}
+
+/** The part of a series that is stored; everything else comes from analysing the input */
+export interface SessionSeries {
+  id: number
+  name: string
+  color: string
+  visible: boolean
+  input: string
+}
+
+/** Settings are left to the caller, which merges what it reads with mergeDefaults */
+export interface SessionState<Settings> {
+  series: SessionSeries[]
+  activeId: number
+  settings: Settings
+}
+
+export interface SavedSession<Settings> {
+  name: string
+  /** Milliseconds since the epoch */
+  savedAt: number
+  state: SessionState<Settings>
+}
+
+export interface HistoryEntry {
+  id: number
+  /** Milliseconds since the epoch */
+  time: number
+  seriesName: string
+  mode: InputMode
+  angleUnit: AngleUnit
+  /** Null when the input was too large to keep */
+  input: string | null
+  statistics: Statistics
+}
+
+// Older runs are dropped beyond this many
+export const MAX_HISTORY = 50
+// Longer inputs are not kept in the history, only their statistics
+const MAX_HISTORY_INPUT = 1_000_000
+
+const DATABASE_NAME = "complex-analyzer"
+const DATABASE_VERSION = 1
+const STATE_STORE = "state"
+const SESSION_STORE = "sessions"
+const HISTORY_STORE = "history"
+// Key of the automatically saved working state in STATE_STORE
+const CURRENT_KEY = "current"
+
+const FILE_FORMAT = "complex-analyzer-session"
+const FILE_VERSION = 1
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (database) return database
+  database = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("浏览器不支持 IndexedDB"))
+      return
+    }
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore(STATE_STORE)
+      db.createObjectStore(SESSION_STORE, { keyPath: "name" })
+      db.createObjectStore(HISTORY_STORE, { keyPath: "id", autoIncrement: true })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  // A failed open is retried on the next call
+  database.catch(() => {
+    database = null
+  })
+  return database
+}
+
+/** Runs one request against a store and resolves once its transaction has committed */
+async function inStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = run(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function loadCurrentState(): Promise<SessionState<unknown> | undefined> {
+  return inStore(STATE_STORE, "readonly", (store) => store.get(CURRENT_KEY))
+}
+
+export async function saveCurrentState<Settings>(state: SessionState<Settings>): Promise<void> {
+  await inStore(STATE_STORE, "readwrite", (store) => store.put(state, CURRENT_KEY))
+}
+
+/** Newest first */
+export async function listSessions(): Promise<SavedSession<unknown>[]> {
+  const sessions: SavedSession<unknown>[] = await inStore(SESSION_STORE, "readonly", (store) => store.getAll())
+  return sessions.sort((a, b) => b.savedAt - a.savedAt)
+}
+
+/** Replaces a session of the same name */
+export async function saveSession<Settings>(session: SavedSession<Settings>): Promise<void> {
+  await inStore(SESSION_STORE, "readwrite", (store) => store.put(session))
+}
+
+export async function deleteSession(name: string): Promise<void> {
+  await inStore(SESSION_STORE, "readwrite", (store) => store.delete(name))
+}
+
+/** Newest first */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = await inStore(HISTORY_STORE, "readonly", (store) => store.getAll())
+  return entries.reverse()
+}
+
+/** Stores a run and drops the oldest beyond MAX_HISTORY; resolves to the entry with its id */
+export async function addHistoryEntry(entry: Omit<HistoryEntry, "id">): Promise<HistoryEntry> {
+  const stored = { ...entry, input: entry.input !== null && entry.input.length <= MAX_HISTORY_INPUT ? entry.input : null }
+  const id = await inStore(HISTORY_STORE, "readwrite", (store) => store.add(stored))
+  const keys = await inStore(HISTORY_STORE, "readonly", (store) => store.getAllKeys())
+  if (keys.length > MAX_HISTORY) {
+    const oldest = keys[keys.length - MAX_HISTORY - 1]
+    await inStore(HISTORY_STORE, "readwrite", (store) => store.delete(IDBKeyRange.upperBound(oldest)))
+  }
+  return { ...stored, id: id as number }
+}
+
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  await inStore(HISTORY_STORE, "readwrite", (store) => store.delete(id))
+}
+
+export async function clearHistory(): Promise<void> {
+  await inStore(HISTORY_STORE, "readwrite", (store) => store.clear())
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/** Whether a stored value is acceptable for a field, beyond having the type of its default */
+export type FieldCheck = (value: unknown) => boolean
+
+/** Checks for the fields of T, nested as T is */
+export type FieldChecks<T> = {
+  [K in keyof T]?: T[K] extends object ? FieldChecks<T[K]> : FieldCheck
+}
+
+export const oneOf =
+  (choices: readonly unknown[]): FieldCheck =>
+  (value) =>
+    choices.includes(value)
+
+export const numberIn =
+  (min: number, max: number): FieldCheck =>
+  (value) =>
+    typeof value === "number" && value >= min && value <= max
+
+export const integerIn =
+  (min: number, max: number): FieldCheck =>
+  (value) =>
+    Number.isInteger(value) && numberIn(min, max)(value)
+
+/**
+ * The defaults with every field of saved that has the same type and passes
+ * its check, recursing into objects; a field whose default is null takes
+ * any value its check allows. Stored settings may come from an older
+ * version, from a file or from a link, so anything out of range falls back
+ * to the default rather than reaching the interface.
+ */
+export function mergeDefaults<T extends object>(defaults: T, saved: unknown, checks: FieldChecks<T> = {}): T {
+  if (!isRecord(saved)) return defaults
+  const merged = { ...defaults } as Record<string, unknown>
+  const fieldChecks = checks as Record<string, unknown>
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const value = saved[key]
+    const check = fieldChecks[key]
+    if (value === undefined) continue
+    if (isRecord(fallback)) {
+      merged[key] = mergeDefaults(fallback, value, (check ?? {}) as FieldChecks<typeof fallback>)
+    } else if (
+      (fallback === null || typeof value === typeof fallback) &&
+      (typeof check !== "function" || check(value))
+    ) {
+      merged[key] = value
+    }
+  }
+  return merged as T
+}
+
+export function sessionToJson<Settings>(session: SavedSession<Settings>): string {
+  return JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, ...session }, null, 2)
+}
+
+function readSeries(value: unknown, index: number): SessionSeries {
+  if (!isRecord(value) || typeof value.input !== "string") throw new SessionFormatError(`第 ${index + 1} 个数据集缺少输入`)
+  const id = typeof value.id === "number" && Number.isInteger(value.id) && value.id > 0 ? value.id : index + 1
+  return {
+    id,
+    name: typeof value.name === "string" && value.name.trim() ? value.name : `数据集 ${id}`,
+    color: typeof value.color === "string" ? value.color : "",
+    visible: value.visible !== false,
+    input: value.input,
+  }
+}
+
+/**
+ * A session state from untrusted data, a file or a link. The series are
+ * checked field by field; the settings are returned as found, for the caller
+ * to merge.
+ */
+export function readSessionState(state: unknown): SessionState<unknown> {
+  if (!isRecord(state) || !Array.isArray(state.series) || state.series.length === 0) {
+    throw new SessionFormatError("会话中没有数据集")
+  }
+  const series = state.series.map(readSeries)
+  if (new Set(series.map((item) => item.id)).size < series.length) throw new SessionFormatError("数据集编号重复")
+  return {
+    series,
+    activeId: typeof state.activeId === "number" ? state.activeId : series[0].id,
+    settings: isRecord(state.settings) ? state.settings : {},
+  }
+}
+
+/** A session file written by sessionToJson */
+export function parseSessionJson(text: string): SavedSession<unknown> {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new SessionFormatError("不是有效的 JSON")
+  }
+  if (!isRecord(data) || data.format !== FILE_FORMAT) throw new SessionFormatError("不是会话文件")
+  if (typeof data.version !== "number" || data.version > FILE_VERSION) {
+    throw new SessionFormatError("会话文件的版本较新，无法读取")
+  }
+  return {
+    name: typeof data.name === "string" && data.name.trim() ? data.name : "导入的会话",
+    savedAt: typeof data.savedAt === "number" ? data.savedAt : Date.now(),
+    state: readSessionState(data.state),
+  }
+}
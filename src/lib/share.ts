@@ -0,0 +1,79 @@
+import { type Bytes, deflate, inflate } from "./compression"
+import { type SessionState, SessionFormatError, readSessionState } from "./session"
+
+/*
+ * Links that carry an analysis in the URL hash: the input text, the settings
+ * and the plot's view as JSON, deflated and base64url-encoded. Nothing is
+ * sent to a server; a link only works while it fits in a URL.
+ */
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ShareLinkError"
+  }
+}
+
+/** What a link restores; settings and plot are left to the caller to merge, as with sessions */
+export interface SharedAnalysis<Settings, Plot> {
+  /** A single series: the one the link was made from */
+  session: SessionState<Settings>
+  /** Indices left out of the statistics */
+  excluded: number[]
+  plot: Plot
+}
+
+// Chat clients and some servers cut URLs far shorter than browsers allow
+export const MAX_SHARE_URL_LENGTH = 8000
+
+// The version is part of the prefix, so that old links can still be told apart
+const HASH_PREFIX = "#a1="
+
+function toBase64Url(bytes: Bytes): string {
+  let binary = ""
+  // String.fromCharCode takes its arguments on the stack
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string): Bytes {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export async function encodeShareHash<Settings, Plot>(shared: SharedAnalysis<Settings, Plot>): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(shared))
+  return HASH_PREFIX + toBase64Url(await deflate(json, "deflate-raw"))
+}
+
+export const isShareHash = (hash: string) => hash.startsWith(HASH_PREFIX)
+
+export async function decodeShareHash(hash: string): Promise<SharedAnalysis<unknown, unknown>> {
+  if (!isShareHash(hash)) throw new ShareLinkError("不是分享链接")
+  let data: unknown
+  try {
+    const bytes = await inflate(fromBase64Url(hash.slice(HASH_PREFIX.length)), "deflate-raw")
+    data = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    throw new ShareLinkError("链接已损坏，可能在复制时被截断")
+  }
+  if (typeof data !== "object" || data === null) throw new ShareLinkError("链接已损坏")
+
+  const { session, excluded, plot } = data as Record<string, unknown>
+  let state
+  try {
+    state = readSessionState(session)
+  } catch (error) {
+    if (error instanceof SessionFormatError) throw new ShareLinkError(error.message)
+    throw error
+  }
+  return {
+    session: state,
+    excluded: Array.isArray(excluded) ? excluded.filter((index) => Number.isInteger(index) && index >= 0) : [],
+    plot,
+  }
+}
@@ -0,0 +1,238 @@
+import type { ComplexNumber } from "./complex"
+
+/** Remove 2π jumps between consecutive phase samples */
+export function unwrapPhase(phases: number[]): number[] {
+  const unwrapped: number[] = []
+  let offset = 0
+  phases.forEach((phase, index) => {
+    if (index > 0) {
+      const delta = phase - phases[index - 1]
+      offset -= 2 * Math.PI * Math.round(delta / (2 * Math.PI))
+    }
+    unwrapped.push(phase + offset)
+  })
+  return unwrapped
+}
+
+/**
+ * Convert magnitudes to dB (20·log10). Zeros would be -∞, so they are pinned
+ * 20 dB below the smallest finite level to keep the axis usable.
+ */
+export function magnitudeToDecibels(magnitudes: number[]): number[] {
+  const decibels = magnitudes.map((magnitude) => 20 * Math.log10(magnitude))
+  let floor = Infinity
+  for (const value of decibels) {
+    if (Number.isFinite(value) && value < floor) floor = value
+  }
+  floor = Number.isFinite(floor) ? floor - 20 : -120
+  return decibels.map((value) => (Number.isFinite(value) ? value : floor))
+}
+
+export type WindowKind = "rectangular" | "hann" | "hamming" | "blackman"
+
+export const WINDOWS: Array<{ key: WindowKind; label: string }> = [
+  { key: "rectangular", label: "矩形" },
+  { key: "hann", label: "Hann" },
+  { key: "hamming", label: "Hamming" },
+  { key: "blackman", label: "Blackman" },
+]
+
+/** Symmetric window of the given length */
+export function windowCoefficients(kind: WindowKind, length: number): Float64Array {
+  const coefficients = new Float64Array(length).fill(1)
+  if (kind === "rectangular" || length < 2) return coefficients
+  for (let n = 0; n < length; n++) {
+    const phase = (2 * Math.PI * n) / (length - 1)
+    if (kind === "hann") coefficients[n] = 0.5 - 0.5 * Math.cos(phase)
+    if (kind === "hamming") coefficients[n] = 0.54 - 0.46 * Math.cos(phase)
+    if (kind === "blackman") coefficients[n] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase)
+  }
+  return coefficients
+}
+
+/** In-place iterative radix-2 FFT; the length must be a power of two */
+function radix2(real: Float64Array, imag: Float64Array) {
+  const n = real.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const swapReal = real[i]
+      const swapImag = imag[i]
+      real[i] = real[j]
+      imag[i] = imag[j]
+      real[j] = swapReal
+      imag[j] = swapImag
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    const stepReal = Math.cos(angle)
+    const stepImag = Math.sin(angle)
+    for (let start = 0; start < n; start += size) {
+      let twiddleReal = 1
+      let twiddleImag = 0
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k
+        const odd = even + size / 2
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal
+        real[odd] = real[even] - oddReal
+        imag[odd] = imag[even] - oddImag
+        real[even] += oddReal
+        imag[even] += oddImag
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal
+        twiddleReal = nextReal
+      }
+    }
+  }
+}
+
+/**
+ * In-place forward DFT, X[k] = Σ x[n]·e^{-2πikn/N}, of any length: radix-2
+ * for powers of two, otherwise Bluestein's chirp-z convolution.
+ */
+export function fft(real: Float64Array, imag: Float64Array) {
+  const n = real.length
+  if (n <= 1) return
+  if ((n & (n - 1)) === 0) {
+    radix2(real, imag)
+    return
+  }
+
+  let size = 1
+  while (size < 2 * n - 1) size <<= 1
+
+  // Chirp w[k] = e^{-πik²/N}; k² is reduced mod 2N to keep the angle exact
+  const chirpReal = new Float64Array(n)
+  const chirpImag = new Float64Array(n)
+  for (let k = 0; k < n; k++) {
+    const angle = (Math.PI * ((k * k) % (2 * n))) / n
+    chirpReal[k] = Math.cos(angle)
+    chirpImag[k] = -Math.sin(angle)
+  }
+
+  const aReal = new Float64Array(size)
+  const aImag = new Float64Array(size)
+  const bReal = new Float64Array(size)
+  const bImag = new Float64Array(size)
+  for (let k = 0; k < n; k++) {
+    aReal[k] = real[k] * chirpReal[k] - imag[k] * chirpImag[k]
+    aImag[k] = real[k] * chirpImag[k] + imag[k] * chirpReal[k]
+    bReal[k] = chirpReal[k]
+    bImag[k] = -chirpImag[k]
+    if (k > 0) {
+      bReal[size - k] = chirpReal[k]
+      bImag[size - k] = -chirpImag[k]
+    }
+  }
+
+  radix2(aReal, aImag)
+  radix2(bReal, bImag)
+  // Pointwise product, conjugated so that a forward transform inverts it
+  for (let k = 0; k < size; k++) {
+    const productReal = aReal[k] * bReal[k] - aImag[k] * bImag[k]
+    const productImag = aReal[k] * bImag[k] + aImag[k] * bReal[k]
+    aReal[k] = productReal
+    aImag[k] = -productImag
+  }
+  radix2(aReal, aImag)
+
+  for (let k = 0; k < n; k++) {
+    const convolutionReal = aReal[k] / size
+    const convolutionImag = -aImag[k] / size
+    real[k] = convolutionReal * chirpReal[k] - convolutionImag * chirpImag[k]
+    imag[k] = convolutionReal * chirpImag[k] + convolutionImag * chirpReal[k]
+  }
+}
+
+export interface SpectrumOptions {
+  /** Samples per second; frequencies are reported in Hz */
+  sampleRate: number
+  window: WindowKind
+  /** Transform length as a multiple of the sequence length, the rest being zeros */
+  padFactor: number
+  /** Centre zero frequency, with negative frequencies on the left */
+  shift: boolean
+}
+
+/** Spectrum in display order, one entry per frequency bin */
+export interface Spectrum {
+  frequencies: number[]
+  /** |X[k]| divided by the window sum, so a complex tone of amplitude A peaks at A */
+  magnitudes: number[]
+  /** arg X[k] in radians; NaN where the bin is too weak for its phase to mean anything */
+  phases: number[]
+}
+
+// Phases of bins more than 120 dB below the peak are numerical noise
+const PHASE_FLOOR = 1e-6
+
+export function computeSpectrum(numbers: ComplexNumber[], { sampleRate, window, padFactor, shift }: SpectrumOptions): Spectrum {
+  const n = numbers.length
+  const length = n * padFactor
+  const coefficients = windowCoefficients(window, n)
+  const real = new Float64Array(length)
+  const imag = new Float64Array(length)
+  let coherentGain = 0
+  for (let i = 0; i < n; i++) {
+    real[i] = numbers[i].real * coefficients[i]
+    imag[i] = numbers[i].imag * coefficients[i]
+    coherentGain += coefficients[i]
+  }
+  fft(real, imag)
+
+  const offset = shift ? Math.floor(length / 2) : 0
+  const frequencies: number[] = []
+  const magnitudes: number[] = []
+  const phases: number[] = []
+  let peak = 0
+  for (let i = 0; i < length; i++) {
+    const bin = (i - offset + length) % length
+    frequencies.push(((i - offset) * sampleRate) / length)
+    const magnitude = Math.hypot(real[bin], imag[bin]) / (coherentGain || 1)
+    magnitudes.push(magnitude)
+    phases.push(Math.atan2(imag[bin], real[bin]))
+    peak = Math.max(peak, magnitude)
+  }
+  magnitudes.forEach((magnitude, i) => {
+    if (magnitude < peak * PHASE_FLOOR) phases[i] = Number.NaN
+  })
+  return { frequencies, magnitudes, phases }
+}
+
+export interface SpectralPeak {
+  /** Index into the spectrum arrays */
+  index: number
+  /** Frequency refined by a parabola through the neighbouring dB levels */
+  frequency: number
+  magnitude: number
+}
+
+/** The largest local maxima within floorDb of the strongest bin, strongest first */
+export function findPeaks(spectrum: Spectrum, count = 5, floorDb = -60): SpectralPeak[] {
+  const { frequencies, magnitudes } = spectrum
+  const strongest = magnitudes.reduce((max, magnitude) => Math.max(max, magnitude), 0)
+  if (strongest === 0) return []
+  const threshold = strongest * 10 ** (floorDb / 20)
+  const binWidth = frequencies.length > 1 ? frequencies[1] - frequencies[0] : 0
+
+  const peaks: SpectralPeak[] = []
+  for (let i = 0; i < magnitudes.length; i++) {
+    const magnitude = magnitudes[i]
+    const before = i > 0 ? magnitudes[i - 1] : -Infinity
+    const after = i < magnitudes.length - 1 ? magnitudes[i + 1] : -Infinity
+    if (magnitude < threshold || magnitude <= before || magnitude < after) continue
+
+    let delta = 0
+    if (Number.isFinite(before) && Number.isFinite(after) && before > 0 && after > 0) {
+      const [alpha, beta, gamma] = [before, magnitude, after].map((value) => 20 * Math.log10(value))
+      const curvature = alpha - 2 * beta + gamma
+      if (curvature < 0) delta = (0.5 * (alpha - gamma)) / curvature
+    }
+    peaks.push({ index: i, frequency: frequencies[i] + delta * binWidth, magnitude })
+  }
+  return peaks.sort((a, b) => b.magnitude - a.magnitude).slice(0, count)
+}
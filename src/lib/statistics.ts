@@ -0,0 +1,277 @@
+import type { ComplexNumber } from "./complex"
+
+/** Symmetric 2×2 matrix [[xx, xy], [xy, yy]] over the (real, imag) components */
+export type Matrix2 = [[number, number], [number, number]]
+
+/**
+ * Descriptive statistics of a complex sample. All moments are population
+ * moments (normalised by N), matching the original scalar variance.
+ */
+export interface Statistics {
+  count: number
+  mean: ComplexNumber
+  /** E|z - μ|², the trace of the covariance matrix */
+  variance: number
+  stdReal: number
+  stdImag: number
+  covariance: Matrix2
+  /** Pearson correlation between real and imaginary parts, 0 when either part is constant */
+  correlation: number
+  /** E[(z - μ)²]; zero for a circular (proper) distribution */
+  pseudoVariance: ComplexNumber
+  /** |pseudo-variance| / variance in [0, 1]; 0 is circular, 1 is maximally improper */
+  circularity: number
+  modulus: {
+    min: number
+    max: number
+    mean: number
+  }
+  argument: {
+    /** Circular mean of arg(z) in radians */
+    mean: number
+    /** 1 - |E[e^{i·arg z}]| in [0, 1] */
+    circularVariance: number
+  }
+  geometricMedian: ComplexNumber
+}
+
+const GEOMETRIC_MEDIAN_MAX_ITERATIONS = 200
+const GEOMETRIC_MEDIAN_TOLERANCE = 1e-12
+
+/**
+ * Weiszfeld iteration for the point minimising the sum of Euclidean distances.
+ * Starts from the mean and steps around sample points it lands on exactly.
+ */
+export function geometricMedian(numbers: ComplexNumber[], start?: ComplexNumber): ComplexNumber {
+  if (numbers.length === 0) return { real: 0, imag: 0 }
+
+  let current = start ?? {
+    real: numbers.reduce((sum, num) => sum + num.real, 0) / numbers.length,
+    imag: numbers.reduce((sum, num) => sum + num.imag, 0) / numbers.length,
+  }
+  const scale = Math.max(...[current.real, current.imag].map(Math.abs), 1)
+
+  for (let iteration = 0; iteration < GEOMETRIC_MEDIAN_MAX_ITERATIONS; iteration++) {
+    let weightSum = 0
+    let real = 0
+    let imag = 0
+    for (const num of numbers) {
+      const distance = Math.hypot(num.real - current.real, num.imag - current.imag)
+      if (distance < GEOMETRIC_MEDIAN_TOLERANCE * scale) continue
+      weightSum += 1 / distance
+      real += num.real / distance
+      imag += num.imag / distance
+    }
+    if (weightSum === 0) break
+
+    const next = { real: real / weightSum, imag: imag / weightSum }
+    const step = Math.hypot(next.real - current.real, next.imag - current.imag)
+    current = next
+    if (step < GEOMETRIC_MEDIAN_TOLERANCE * scale) break
+  }
+
+  return current
+}
+
+export function calculateStatistics(numbers: ComplexNumber[]): Statistics {
+  const n = numbers.length
+  if (n === 0) {
+    const zero = { real: 0, imag: 0 }
+    return {
+      count: 0,
+      mean: zero,
+      variance: 0,
+      stdReal: 0,
+      stdImag: 0,
+      covariance: [
+        [0, 0],
+        [0, 0],
+      ],
+      correlation: 0,
+      pseudoVariance: zero,
+      circularity: 0,
+      modulus: { min: 0, max: 0, mean: 0 },
+      argument: { mean: 0, circularVariance: 0 },
+      geometricMedian: zero,
+    }
+  }
+
+  // Calculate mean
+  const meanReal = numbers.reduce((sum, num) => sum + num.real, 0) / n
+  const meanImag = numbers.reduce((sum, num) => sum + num.imag, 0) / n
+  const mean = { real: meanReal, imag: meanImag }
+
+  // Second moments of the centred components, plus modulus and argument sums
+  let sxx = 0
+  let syy = 0
+  let sxy = 0
+  let minModulus = Infinity
+  let maxModulus = -Infinity
+  let sumModulus = 0
+  let sumCos = 0
+  let sumSin = 0
+  for (const num of numbers) {
+    const dx = num.real - meanReal
+    const dy = num.imag - meanImag
+    sxx += dx * dx
+    syy += dy * dy
+    sxy += dx * dy
+
+    const modulus = Math.hypot(num.real, num.imag)
+    minModulus = Math.min(minModulus, modulus)
+    maxModulus = Math.max(maxModulus, modulus)
+    sumModulus += modulus
+
+    const argument = Math.atan2(num.imag, num.real)
+    sumCos += Math.cos(argument)
+    sumSin += Math.sin(argument)
+  }
+
+  const cxx = sxx / n
+  const cyy = syy / n
+  const cxy = sxy / n
+  const variance = cxx + cyy
+  const pseudoVariance = { real: cxx - cyy, imag: 2 * cxy }
+  const resultantLength = Math.hypot(sumCos, sumSin) / n
+
+  return {
+    count: n,
+    mean,
+    variance,
+    stdReal: Math.sqrt(cxx),
+    stdImag: Math.sqrt(cyy),
+    covariance: [
+      [cxx, cxy],
+      [cxy, cyy],
+    ],
+    correlation: cxx > 0 && cyy > 0 ? cxy / Math.sqrt(cxx * cyy) : 0,
+    pseudoVariance,
+    circularity: variance > 0 ? Math.hypot(pseudoVariance.real, pseudoVariance.imag) / variance : 0,
+    modulus: { min: minModulus, max: maxModulus, mean: sumModulus / n },
+    argument: {
+      mean: Math.atan2(sumSin, sumCos),
+      circularVariance: 1 - resultantLength,
+    },
+    geometricMedian: geometricMedian(numbers, mean),
+  }
+}
+
+export interface Ellipse {
+  center: ComplexNumber
+  /** Semi-axis lengths, major first */
+  semiAxes: [number, number]
+  /** Angle of the major axis from the real axis, in radians */
+  angle: number
+}
+
+/** Eigen-decomposition of a symmetric 2×2 matrix, larger eigenvalue first */
+export function principalAxes(matrix: Matrix2): { eigenvalues: [number, number]; angle: number } {
+  const [[a, b], [, d]] = matrix
+  const halfTrace = (a + d) / 2
+  const radius = Math.hypot((a - d) / 2, b)
+  return {
+    eigenvalues: [halfTrace + radius, Math.max(halfTrace - radius, 0)],
+    angle: 0.5 * Math.atan2(2 * b, a - d),
+  }
+}
+
+/** Ellipse of constant Mahalanobis distance k around a centre */
+export function covarianceEllipse(center: ComplexNumber, covariance: Matrix2, k: number): Ellipse {
+  const { eigenvalues, angle } = principalAxes(covariance)
+  return {
+    center,
+    semiAxes: [k * Math.sqrt(eigenvalues[0]), k * Math.sqrt(eigenvalues[1])],
+    angle,
+  }
+}
+
+/**
+ * Mahalanobis radius enclosing the given probability mass of a bivariate
+ * normal: the χ² quantile with 2 degrees of freedom has the closed form
+ * -2·ln(1 - p).
+ */
+export function chiSquare2Radius(confidence: number): number {
+  return Math.sqrt(-2 * Math.log(1 - confidence))
+}
+
+/** Sample points along an ellipse outline */
+export function ellipsePoints(ellipse: Ellipse, segments = 128): ComplexNumber[] {
+  const cos = Math.cos(ellipse.angle)
+  const sin = Math.sin(ellipse.angle)
+  const [a, b] = ellipse.semiAxes
+  return Array.from({ length: segments + 1 }, (_, index) => {
+    const t = (2 * Math.PI * index) / segments
+    const u = a * Math.cos(t)
+    const v = b * Math.sin(t)
+    return {
+      real: ellipse.center.real + u * cos - v * sin,
+      imag: ellipse.center.imag + u * sin + v * cos,
+    }
+  })
+}
+
+/** How one sample differs from a reference sample */
+export interface StatisticsComparison {
+  /** mean - reference mean */
+  meanDifference: ComplexNumber
+  /** variance / reference variance; Infinity or NaN when the reference is constant */
+  varianceRatio: number
+}
+
+export function compareStatistics(reference: Statistics, other: Statistics): StatisticsComparison {
+  return {
+    meanDifference: {
+      real: other.mean.real - reference.mean.real,
+      imag: other.mean.imag - reference.mean.imag,
+    },
+    varianceRatio: other.variance / reference.variance,
+  }
+}
+
+/** Mean and variance of a run of consecutive samples */
+export interface WindowMoments {
+  count: number
+  mean: ComplexNumber
+  /** E|z - μ|² over the run */
+  variance: number
+}
+
+/**
+ * Prefix sums over a sequence, so that the moments of any run
+ * numbers[from, to) take constant time, for running and sliding-window
+ * statistics. Sums are taken about the first sample, which keeps the
+ * variance accurate for data far from the origin. Indices in skip keep
+ * their place in the sequence but count towards no run.
+ */
+export function prefixMoments(
+  numbers: ComplexNumber[],
+  skip?: ReadonlySet<number>,
+): (from: number, to: number) => WindowMoments {
+  const origin = numbers.find((_, index) => !skip?.has(index)) ?? { real: 0, imag: 0 }
+  const counts = new Uint32Array(numbers.length + 1)
+  const real = new Float64Array(numbers.length + 1)
+  const imag = new Float64Array(numbers.length + 1)
+  const square = new Float64Array(numbers.length + 1)
+  numbers.forEach((num, index) => {
+    const included = !skip?.has(index)
+    const dx = included ? num.real - origin.real : 0
+    const dy = included ? num.imag - origin.imag : 0
+    counts[index + 1] = counts[index] + (included ? 1 : 0)
+    real[index + 1] = real[index] + dx
+    imag[index + 1] = imag[index] + dy
+    square[index + 1] = square[index] + dx * dx + dy * dy
+  })
+
+  return (from, to) => {
+    const count = to > from ? counts[to] - counts[from] : 0
+    if (count === 0) return { count, mean: { real: 0, imag: 0 }, variance: 0 }
+    const dx = (real[to] - real[from]) / count
+    const dy = (imag[to] - imag[from]) / count
+    return {
+      count,
+      mean: { real: origin.real + dx, imag: origin.imag + dy },
+      // Rounding can leave a constant run slightly negative
+      variance: Math.max(0, (square[to] - square[from]) / count - dx * dx - dy * dy),
+    }
+  }
+}
@@ -0,0 +1,359 @@
+/*
+ * A stand-in for CanvasRenderingContext2D that records what the plot
+ * renderers draw instead of rasterising it, so that the same drawing code
+ * yields SVG and PDF. Only the part of the canvas API the renderers use,
+ * their PlotContext, is implemented. Everything is recorded in device coordinates, with the
+ * current transform already applied.
+ */
+
+/** a, b, c, d, e, f as in DOMMatrix */
+type Matrix = [number, number, number, number, number, number]
+
+export type Segment =
+  | { op: "M" | "L"; x: number; y: number }
+  | { op: "C"; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: "Z" }
+
+export interface Rgba {
+  r: number
+  g: number
+  b: number
+  /** 0 to 1 */
+  a: number
+}
+
+export type VectorItem =
+  | {
+      kind: "path"
+      segments: Segment[]
+      fill: Rgba | null
+      stroke: Rgba | null
+      lineWidth: number
+      dash: number[]
+      clip: number | null
+    }
+  | {
+      kind: "text"
+      text: string
+      x: number
+      y: number
+      /** Rotation of the baseline in radians, clockwise on screen */
+      angle: number
+      size: number
+      bold: boolean
+      family: string
+      align: "left" | "center" | "right"
+      color: Rgba
+      clip: number | null
+    }
+  | {
+      kind: "image"
+      source: HTMLCanvasElement
+      x: number
+      y: number
+      width: number
+      height: number
+      smooth: boolean
+      clip: number | null
+    }
+
+interface State {
+  fillStyle: string
+  strokeStyle: string
+  lineWidth: number
+  font: string
+  textAlign: CanvasTextAlign
+  imageSmoothingEnabled: boolean
+  dash: number[]
+  matrix: Matrix
+  clip: number | null
+}
+
+/** The hex and rgb()/rgba() colours the renderers use; anything else is black */
+export function parseColor(style: string): Rgba {
+  const hex = /^#([0-9a-f]{3,8})$/i.exec(style.trim())
+  if (hex) {
+    let digits = hex[1]
+    if (digits.length <= 4) digits = [...digits].map((digit) => digit + digit).join("")
+    const channel = (i: number) => parseInt(digits.slice(2 * i, 2 * i + 2), 16)
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 }
+  }
+  const rgb = /^rgba?\(([^)]*)\)$/i.exec(style.trim())
+  if (rgb) {
+    const [r, g, b, a = 1] = rgb[1].split(/[\s,/]+/).filter(Boolean).map(Number)
+    return { r, g, b, a }
+  }
+  return { r: 0, g: 0, b: 0, a: 1 }
+}
+
+/** "bold 12px sans-serif" and the like */
+function parseFont(font: string): { size: number; bold: boolean; family: string } {
+  const match = /(?:(bold|[6-9]00)\s+)?(\d+(?:\.\d+)?)px\s+(.+)$/.exec(font)
+  if (!match) return { size: 10, bold: false, family: "sans-serif" }
+  return { size: Number(match[2]), bold: match[1] !== undefined, family: match[3] }
+}
+
+const multiply = ([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix => [
+  a1 * a2 + c1 * b2,
+  b1 * a2 + d1 * b2,
+  a1 * c2 + c1 * d2,
+  b1 * c2 + d1 * d2,
+  a1 * e2 + c1 * f2 + e1,
+  b1 * e2 + d1 * f2 + f1,
+]
+
+export class VectorContext {
+  readonly width: number
+  readonly height: number
+  readonly items: VectorItem[] = []
+  /** Clip paths, referred to by index from the items */
+  readonly clips: Segment[][] = []
+
+  fillStyle = "#000000"
+  strokeStyle = "#000000"
+  lineWidth = 1
+  font = "10px sans-serif"
+  textAlign: CanvasTextAlign = "start"
+  imageSmoothingEnabled = true
+
+  private dash: number[] = []
+  private matrix: Matrix = [1, 0, 0, 1, 0, 0]
+  private clipIndex: number | null = null
+  private path: Segment[] = []
+  private stack: State[] = []
+  private measurer: CanvasRenderingContext2D | null = null
+
+  /** Size of the drawing in device units */
+  constructor(width: number, height: number) {
+    this.width = width
+    this.height = height
+  }
+
+  save() {
+    this.stack.push({
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      font: this.font,
+      textAlign: this.textAlign,
+      imageSmoothingEnabled: this.imageSmoothingEnabled,
+      dash: this.dash,
+      matrix: this.matrix,
+      clip: this.clipIndex,
+    })
+  }
+
+  restore() {
+    const state = this.stack.pop()
+    if (!state) return
+    this.fillStyle = state.fillStyle
+    this.strokeStyle = state.strokeStyle
+    this.lineWidth = state.lineWidth
+    this.font = state.font
+    this.textAlign = state.textAlign
+    this.imageSmoothingEnabled = state.imageSmoothingEnabled
+    this.dash = state.dash
+    this.matrix = state.matrix
+    this.clipIndex = state.clip
+  }
+
+  scale(x: number, y: number) {
+    this.matrix = multiply(this.matrix, [x, 0, 0, y, 0, 0])
+  }
+
+  translate(x: number, y: number) {
+    this.matrix = multiply(this.matrix, [1, 0, 0, 1, x, y])
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    this.matrix = multiply(this.matrix, [cos, sin, -sin, cos, 0, 0])
+  }
+
+  /** rasterizePoints sizes its pixel buffer by the scale found here */
+  getTransform(): DOMMatrix {
+    return new DOMMatrix(this.matrix)
+  }
+
+  setLineDash(segments: number[]) {
+    this.dash = [...segments]
+  }
+
+  getLineDash(): number[] {
+    return [...this.dash]
+  }
+
+  beginPath() {
+    this.path = []
+  }
+
+  closePath() {
+    this.path.push({ op: "Z" })
+  }
+
+  moveTo(x: number, y: number) {
+    this.path.push({ op: "M", ...this.apply(x, y) })
+  }
+
+  lineTo(x: number, y: number) {
+    this.path.push({ op: this.path.length === 0 ? "M" : "L", ...this.apply(x, y) })
+  }
+
+  rect(x: number, y: number, width: number, height: number) {
+    this.moveTo(x, y)
+    this.lineTo(x + width, y)
+    this.lineTo(x + width, y + height)
+    this.lineTo(x, y + height)
+    this.closePath()
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise)
+  }
+
+  /** As quarter-turn Bézier pieces, which survive any affine transform exactly as curves */
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false,
+  ) {
+    let sweep = endAngle - startAngle
+    if (!counterclockwise && sweep >= 2 * Math.PI) sweep = 2 * Math.PI
+    else if (counterclockwise && sweep <= -2 * Math.PI) sweep = -2 * Math.PI
+    else {
+      sweep %= 2 * Math.PI
+      if (!counterclockwise && sweep < 0) sweep += 2 * Math.PI
+      if (counterclockwise && sweep > 0) sweep -= 2 * Math.PI
+    }
+
+    const cos = Math.cos(rotation)
+    const sin = Math.sin(rotation)
+    const point = (angle: number, scale = 1) => {
+      const px = radiusX * Math.cos(angle) * scale
+      const py = radiusY * Math.sin(angle) * scale
+      return { px: x + px * cos - py * sin, py: y + px * sin + py * cos }
+    }
+    const tangent = (angle: number) => {
+      const tx = -radiusX * Math.sin(angle)
+      const ty = radiusY * Math.cos(angle)
+      return { tx: tx * cos - ty * sin, ty: tx * sin + ty * cos }
+    }
+
+    const start = point(startAngle)
+    if (this.path.length === 0 || this.path[this.path.length - 1].op === "Z") this.moveTo(start.px, start.py)
+    else this.lineTo(start.px, start.py)
+
+    const pieces = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9))
+    const step = sweep / pieces
+    const k = (4 / 3) * Math.tan(step / 4)
+    for (let i = 0; i < pieces; i++) {
+      const a0 = startAngle + i * step
+      const a1 = a0 + step
+      const p0 = point(a0)
+      const p1 = point(a1)
+      const t0 = tangent(a0)
+      const t1 = tangent(a1)
+      const c1 = this.apply(p0.px + k * t0.tx, p0.py + k * t0.ty)
+      const c2 = this.apply(p1.px - k * t1.tx, p1.py - k * t1.ty)
+      const end = this.apply(p1.px, p1.py)
+      this.path.push({ op: "C", x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y })
+    }
+  }
+
+  fill() {
+    this.pushPath(this.path, parseColor(this.fillStyle), null)
+  }
+
+  stroke() {
+    this.pushPath(this.path, null, parseColor(this.strokeStyle))
+  }
+
+  fillRect(x: number, y: number, width: number, height: number) {
+    const saved = this.path
+    this.path = []
+    this.rect(x, y, width, height)
+    this.fill()
+    this.path = saved
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number) {
+    const saved = this.path
+    this.path = []
+    this.rect(x, y, width, height)
+    this.stroke()
+    this.path = saved
+  }
+
+  /** Replaces rather than intersects an enclosing clip; the renderers never nest them */
+  clip() {
+    this.clips.push([...this.path])
+    this.clipIndex = this.clips.length - 1
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const [a, b] = this.matrix
+    const { size, bold, family } = parseFont(this.font)
+    const position = this.apply(x, y)
+    this.items.push({
+      kind: "text",
+      text,
+      ...position,
+      angle: Math.atan2(b, a),
+      size: size * Math.hypot(a, b),
+      bold,
+      family,
+      align: this.textAlign === "center" ? "center" : this.textAlign === "right" || this.textAlign === "end" ? "right" : "left",
+      color: parseColor(this.fillStyle),
+      clip: this.clipIndex,
+    })
+  }
+
+  measureText(text: string): TextMetrics {
+    this.measurer ??= document.createElement("canvas").getContext("2d")
+    if (!this.measurer) throw new Error("无法创建画布")
+    this.measurer.font = this.font
+    return this.measurer.measureText(text)
+  }
+
+  /** Only the five-argument form with a canvas, which is how the raster layers are drawn */
+  drawImage(source: HTMLCanvasElement, x: number, y: number, width: number, height: number) {
+    const topLeft = this.apply(x, y)
+    const bottomRight = this.apply(x + width, y + height)
+    this.items.push({
+      kind: "image",
+      source,
+      x: topLeft.x,
+      y: topLeft.y,
+      width: bottomRight.x - topLeft.x,
+      height: bottomRight.y - topLeft.y,
+      smooth: this.imageSmoothingEnabled,
+      clip: this.clipIndex,
+    })
+  }
+
+  private apply(x: number, y: number): { x: number; y: number } {
+    const [a, b, c, d, e, f] = this.matrix
+    return { x: a * x + c * y + e, y: b * x + d * y + f }
+  }
+
+  private pushPath(segments: Segment[], fill: Rgba | null, stroke: Rgba | null) {
+    if (segments.length === 0) return
+    const [a, b, c, d] = this.matrix
+    const scale = Math.sqrt(Math.abs(a * d - b * c))
+    this.items.push({
+      kind: "path",
+      segments: [...segments],
+      fill,
+      stroke,
+      lineWidth: this.lineWidth * scale,
+      dash: this.dash.map((length) => length * scale),
+      clip: this.clipIndex,
+    })
+  }
+}
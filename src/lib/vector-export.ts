@@ -0,0 +1,282 @@
+import { type Bytes, deflate } from "./compression"
+import type { Rgba, Segment, VectorContext, VectorItem } from "./vector-context"
+
+/*
+ * SVG and PDF documents from what a VectorContext recorded. Geometry and
+ * Latin text stay vectors; the raster layers (heatmaps, domain colouring,
+ * very large point sets) are embedded as images at the drawing's resolution.
+ */
+
+export interface PageSize {
+  widthMm: number
+  heightMm: number
+}
+
+// Coordinates are written with two decimals, far below a device pixel
+const num = (value: number) => String(Math.round(value * 100) / 100)
+// Scale factors and colour channels need more
+const fine = (value: number) => String(Number(value.toFixed(6)))
+
+const rgb = ({ r, g, b }: Rgba) => `rgb(${r},${g},${b})`
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+function svgPath(segments: Segment[]): string {
+  return segments
+    .map((s) => {
+      switch (s.op) {
+        case "M":
+        case "L":
+          return `${s.op}${num(s.x)} ${num(s.y)}`
+        case "C":
+          return `C${num(s.x1)} ${num(s.y1)} ${num(s.x2)} ${num(s.y2)} ${num(s.x)} ${num(s.y)}`
+        case "Z":
+          return "Z"
+      }
+    })
+    .join("")
+}
+
+function svgItem(item: VectorItem): string {
+  const clip = item.clip === null ? "" : ` clip-path="url(#clip${item.clip})"`
+  switch (item.kind) {
+    case "path": {
+      const attributes = [
+        `d="${svgPath(item.segments)}"`,
+        `fill="${item.fill ? rgb(item.fill) : "none"}"`,
+        item.fill && item.fill.a < 1 ? `fill-opacity="${item.fill.a}"` : "",
+        item.stroke ? `stroke="${rgb(item.stroke)}" stroke-width="${num(item.lineWidth)}"` : "",
+        item.stroke && item.stroke.a < 1 ? `stroke-opacity="${item.stroke.a}"` : "",
+        item.stroke && item.dash.length > 0 ? `stroke-dasharray="${item.dash.map(num).join(" ")}"` : "",
+      ]
+      return `<path ${attributes.filter(Boolean).join(" ")}${clip}/>`
+    }
+    case "text": {
+      const anchor = { left: "start", center: "middle", right: "end" }[item.align]
+      const rotation = item.angle === 0 ? "" : ` transform="rotate(${num((item.angle * 180) / Math.PI)} ${num(item.x)} ${num(item.y)})"`
+      return (
+        `<text x="${num(item.x)}" y="${num(item.y)}" font-family="${escapeXml(item.family)}" font-size="${num(item.size)}"` +
+        `${item.bold ? ' font-weight="bold"' : ""} text-anchor="${anchor}" fill="${rgb(item.color)}"${rotation}${clip}>` +
+        `${escapeXml(item.text)}</text>`
+      )
+    }
+    case "image":
+      return (
+        `<image x="${num(item.x)}" y="${num(item.y)}" width="${num(item.width)}" height="${num(item.height)}"` +
+        ` preserveAspectRatio="none"${item.smooth ? "" : ' style="image-rendering:pixelated"'}` +
+        ` href="${item.source.toDataURL("image/png")}"${clip}/>`
+      )
+  }
+}
+
+export function toSvg(context: VectorContext, { widthMm, heightMm }: PageSize): string {
+  const clips = context.clips.map((segments, index) => `<clipPath id="clip${index}"><path d="${svgPath(segments)}"/></clipPath>`)
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(widthMm)}mm" height="${num(heightMm)}mm" viewBox="0 0 ${num(context.width)} ${num(context.height)}">`,
+    clips.length > 0 ? `<defs>${clips.join("")}</defs>` : "",
+    ...context.items.map(svgItem),
+    `</svg>`,
+  ]
+    .filter(Boolean)
+    .join("\n")
+}
+
+// Printable ASCII and Latin-1 can be set in the standard Helvetica; other text is drawn as an image
+const LATIN_TEXT = /^[\x20-\x7e\xa0-\xff]*$/
+
+const pdfString = (text: string) =>
+  `(${[...text]
+    .map((char) => {
+      const code = char.charCodeAt(0)
+      if (char === "(" || char === ")" || char === "\\") return `\\${char}`
+      return code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : char
+    })
+    .join("")})`
+
+function pdfPath(segments: Segment[]): string {
+  return segments
+    .map((s) => {
+      switch (s.op) {
+        case "M":
+          return `${num(s.x)} ${num(s.y)} m`
+        case "L":
+          return `${num(s.x)} ${num(s.y)} l`
+        case "C":
+          return `${num(s.x1)} ${num(s.y1)} ${num(s.x2)} ${num(s.y2)} ${num(s.x)} ${num(s.y)} c`
+        case "Z":
+          return "h"
+      }
+    })
+    .join("\n")
+}
+
+const pdfColor = ({ r, g, b }: Rgba) => [r, g, b].map((channel) => fine(channel / 255)).join(" ")
+
+interface PdfImage {
+  width: number
+  height: number
+  rgb: Bytes
+  /** Absent when the image is opaque */
+  alpha: Bytes | null
+  smooth: boolean
+}
+
+function canvasImage(source: HTMLCanvasElement, smooth: boolean): PdfImage {
+  const { width, height } = source
+  const data = source.getContext("2d")?.getImageData(0, 0, width, height).data ?? new Uint8ClampedArray(width * height * 4)
+  const rgbBytes = new Uint8Array(width * height * 3)
+  const alpha = new Uint8Array(width * height)
+  let opaque = true
+  for (let i = 0; i < width * height; i++) {
+    rgbBytes[3 * i] = data[4 * i]
+    rgbBytes[3 * i + 1] = data[4 * i + 1]
+    rgbBytes[3 * i + 2] = data[4 * i + 2]
+    alpha[i] = data[4 * i + 3]
+    if (alpha[i] !== 255) opaque = false
+  }
+  return { width, height, rgb: rgbBytes, alpha: opaque ? null : alpha, smooth }
+}
+
+/** Text PDF's standard fonts cannot set, drawn onto a canvas at the drawing's resolution */
+function rasterizeText(item: Extract<VectorItem, { kind: "text" }>): { canvas: HTMLCanvasElement; width: number } {
+  const font = `${item.bold ? "bold " : ""}${item.size}px ${item.family}`
+  const canvas = document.createElement("canvas")
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("无法创建画布")
+  ctx.font = font
+  const width = Math.max(1, Math.ceil(ctx.measureText(item.text).width))
+  canvas.width = width
+  canvas.height = Math.ceil(item.size * 1.4)
+  // Resizing resets the context
+  ctx.font = font
+  ctx.fillStyle = rgb(item.color)
+  ctx.fillText(item.text, 0, item.size)
+  return { canvas, width }
+}
+
+/**
+ * A one-page PDF of the drawing at the given physical size. Device units map
+ * onto the page uniformly, so the raster layers keep the resolution they were
+ * recorded at.
+ */
+export async function toPdf(context: VectorContext, { widthMm, heightMm }: PageSize): Promise<Blob> {
+  const pageWidth = (widthMm / 25.4) * 72
+  const pageHeight = (heightMm / 25.4) * 72
+  const images: PdfImage[] = []
+  const alphas = new Map<number, string>()
+  const measurer = document.createElement("canvas").getContext("2d")
+
+  const alphaState = (alpha: number) => {
+    if (alpha >= 1) return ""
+    if (!alphas.has(alpha)) alphas.set(alpha, `GS${alphas.size}`)
+    return `/${alphas.get(alpha)} gs\n`
+  }
+  const clip = (index: number | null) => (index === null ? "" : `${pdfPath(context.clips[index])}\nW n\n`)
+  /** Draws an image with its top-left corner at (x, y), rotated by angle like the canvas */
+  const placeImage = (image: PdfImage, x: number, y: number, width: number, height: number, angle: number) => {
+    images.push(image)
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    // Image space has y up; the page has been flipped to the canvas's y down
+    const matrix = [width * cos, width * sin, height * sin, -height * cos, x + height * -sin, y + height * cos]
+    return `${matrix.map(num).join(" ")} cm\n/Im${images.length - 1} Do\n`
+  }
+
+  // Page space flipped and scaled to device units, so coordinates go in as recorded
+  let content = `${fine(pageWidth / context.width)} 0 0 ${fine(-pageHeight / context.height)} 0 ${fine(pageHeight)} cm\n`
+  for (const item of context.items) {
+    content += "q\n" + clip(item.clip)
+    switch (item.kind) {
+      case "path":
+        if (item.fill) content += `${alphaState(item.fill.a)}${pdfColor(item.fill)} rg\n${pdfPath(item.segments)}\nf\n`
+        if (item.stroke) {
+          content +=
+            `${alphaState(item.stroke.a)}${pdfColor(item.stroke)} RG\n${num(item.lineWidth)} w\n` +
+            `[${item.dash.map(num).join(" ")}] 0 d\n${pdfPath(item.segments)}\nS\n`
+        }
+        break
+      case "text": {
+        const shift = { left: 0, center: 0.5, right: 1 }[item.align]
+        const cos = Math.cos(item.angle)
+        const sin = Math.sin(item.angle)
+        if (LATIN_TEXT.test(item.text) && measurer) {
+          measurer.font = `${item.bold ? "bold " : ""}${item.size}px Helvetica, Arial, sans-serif`
+          const offset = measurer.measureText(item.text).width * shift
+          const x = item.x - offset * cos
+          const y = item.y - offset * sin
+          const s = item.size
+          content +=
+            `${pdfColor(item.color)} rg\nBT\n/${item.bold ? "F2" : "F1"} 1 Tf\n` +
+            `${[s * cos, s * sin, s * sin, -s * cos, x, y].map(num).join(" ")} Tm\n${pdfString(item.text)} Tj\nET\n`
+        } else {
+          const { canvas, width } = rasterizeText(item)
+          const offset = width * shift
+          // The text was drawn with its baseline item.size below the top of the canvas
+          const x = item.x - offset * cos + item.size * sin
+          const y = item.y - offset * sin - item.size * cos
+          content += placeImage(canvasImage(canvas, true), x, y, canvas.width, canvas.height, item.angle)
+        }
+        break
+      }
+      case "image":
+        content += placeImage(canvasImage(item.source, item.smooth), item.x, item.y, item.width, item.height, 0)
+        break
+    }
+    content += "Q\n"
+  }
+
+  // Objects 1–5 are fixed; the images follow, two objects each when they have an alpha mask
+  const encoder = new TextEncoder()
+  const objects: Array<Bytes[]> = []
+  const add = (...parts: Array<string | Bytes>) => {
+    objects.push(parts.map((part) => (typeof part === "string" ? encoder.encode(part) : part)))
+    return objects.length
+  }
+  const stream = async (dictionary: string, bytes: Bytes) => {
+    const compressed = await deflate(bytes)
+    return add(`<< ${dictionary} /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n`, compressed, "\nendstream")
+  }
+
+  add("<< /Type /Catalog /Pages 2 0 R >>")
+  add("<< /Type /Pages /Kids [3 0 R] /Count 1 >>")
+  const pageIndex = add("") - 1
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>")
+  const contentId = await stream("", encoder.encode(content))
+
+  const imageIds: number[] = []
+  for (const image of images) {
+    const common = `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /BitsPerComponent 8${image.smooth ? " /Interpolate true" : ""}`
+    const maskId = image.alpha ? await stream(`${common} /ColorSpace /DeviceGray`, image.alpha) : null
+    imageIds.push(await stream(`${common} /ColorSpace /DeviceRGB${maskId ? ` /SMask ${maskId} 0 R` : ""}`, image.rgb))
+  }
+
+  const xObjects = imageIds.map((id, index) => `/Im${index} ${id} 0 R`).join(" ")
+  const states = [...alphas].map(([alpha, name]) => `/${name} << /ca ${alpha} /CA ${alpha} >>`).join(" ")
+  objects[pageIndex] = [
+    encoder.encode(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Contents ${contentId} 0 R ` +
+        `/Resources << /Font << /F1 4 0 R /F2 5 0 R >> /XObject << ${xObjects} >> /ExtGState << ${states} >> >> >>`,
+    ),
+  ]
+
+  const chunks: Bytes[] = [encoder.encode("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n")]
+  let length = chunks[0].length
+  const offsets: number[] = []
+  objects.forEach((parts, index) => {
+    offsets.push(length)
+    for (const part of [encoder.encode(`${index + 1} 0 obj\n`), ...parts, encoder.encode("\nendobj\n")]) {
+      chunks.push(part)
+      length += part.length
+    }
+  })
+  const xref = [
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`,
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`),
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`,
+  ].join("")
+  chunks.push(encoder.encode(xref))
+  return new Blob(chunks, { type: "application/pdf" })
+}